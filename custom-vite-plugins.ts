@@ -1,6 +1,8 @@
 import fs from 'fs'
 import { resolve } from 'path'
-import type { PluginOption, NormalizedOutputOptions } from 'vite'
+import { build } from 'vite'
+import type { PluginOption, NormalizedOutputOptions, Rollup } from 'vite'
+import type { CrxPlugin } from '@crxjs/vite-plugin'
 
 /**
  * Plugin to remove dev icons from production build
@@ -34,3 +36,55 @@ export function stripDevIcons(isDev: boolean): PluginOption {
     },
   }
 }
+
+type CrxManifest = Parameters<NonNullable<CrxPlugin['renderCrxManifest']>>[0]
+
+interface MainWorldContentScriptOptions {
+  // Source file, relative to the project root
+  entry: string
+  // Output file name in the extension
+  fileName: string
+  matches: string[]
+  minify: boolean
+}
+
+/**
+ * Plugin to register a script that runs in the page's main world at document_start
+ * @crxjs/vite-plugin wraps manifest content scripts in a loader that uses chrome.runtime
+ * and imports the script asynchronously, so the script is bundled here as a single IIFE
+ * and added to the manifest after crxjs has processed its own content scripts
+ */
+export function mainWorldContentScript(options: MainWorldContentScriptOptions): CrxPlugin {
+  return {
+    name: 'main-world-content-script',
+    // crxjs requires every manifest content script to be one of its own, so add the script after its post plugins
+    enforce: 'post',
+    async buildStart() {
+      const output = (await build({
+        configFile: false,
+        logLevel: 'warn',
+        build: {
+          write: false,
+          minify: options.minify,
+          rollupOptions: {
+            input: resolve(__dirname, options.entry),
+            output: { format: 'iife' },
+          },
+        },
+      })) as Rollup.RollupOutput | Rollup.RollupOutput[]
+
+      const [chunk] = (Array.isArray(output) ? output : [output])[0].output
+      this.emitFile({ type: 'asset', fileName: options.fileName, source: chunk.code })
+    },
+    renderCrxManifest(manifest: CrxManifest) {
+      const contentScript = {
+        matches: options.matches,
+        js: [options.fileName],
+        run_at: 'document_start',
+        world: 'MAIN',
+      }
+      manifest.content_scripts = [...(manifest.content_scripts ?? []), contentScript]
+      return manifest
+    },
+  }
+}
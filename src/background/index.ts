@@ -1,10 +1,121 @@
 // Better Niconico - Background Service Worker
 // バックグラウンドで動作するサービスワーカー
+import type { Result } from 'neverthrow';
+import { ResultAsync } from 'neverthrow';
+import type { ErrorLogEntry } from '../types/errorLog';
+import type { MessageError, StorageError } from '../types/errors';
+import { invalidMessagePayloadError, messageResponseFailedError } from '../types/errors';
+import type { MessageResponse } from '../types/messages';
+import { PENDING_SYNC_KEY, SCHEMA_VERSION_KEY, SETTINGS_SCHEMA_VERSION } from '../types/settings';
+import { runSettingsMigrations, appendErrorLogEntry, reconcilePendingSync } from '../utils/storage';
+import { createErrorLogEntry } from '../utils/errorLog';
+import { putWatchHistoryEntry } from '../utils/watchHistoryDb';
+import { parseMessage, sendTabMessage, toMessageResponse } from '../utils/messaging';
+import { COMMAND_FEATURES } from '../types/shortcuts';
+
+// エラーログへの書き込みを直列化するためのキュー（読み込み→追加→保存の間に他の書き込みが入らないようにする）
+let errorLogQueue: Promise<unknown> = Promise.resolve();
+
+// エラーのある機能の数を表示するバッジの背景色
+const ERROR_BADGE_COLOR = '#e53e3e';
+
+// 動画カードの投稿者をNGフィルタに追加するコンテキストメニューのID
+const FILTER_UPLOADER_MENU_ID = 'bn-filter-uploader';
+
+// 未同期の設定を同期ストレージに反映し直すアラームの名前
+const SYNC_RETRY_ALARM_NAME = 'bn-sync-retry';
+
+// 反映し直すまでの待ち時間（分）。失敗するたびに倍にする
+const SYNC_RETRY_INITIAL_DELAY_MINUTES = 1;
+const SYNC_RETRY_MAX_DELAY_MINUTES = 60;
+
+/**
+ * エラーログに1件追加する（書き込みは到着順に1件ずつ行う）
+ */
+function recordError(entry: ErrorLogEntry): Promise<Result<void, StorageError>> {
+  const task = errorLogQueue.then(() => appendErrorLogEntry(entry));
+  errorLogQueue = task;
+  return task;
+}
+
+/**
+ * タブの拡張機能アイコンのバッジに、エラーになっている機能の数を表示する（0件の場合は消す）
+ * タブごとのバッジはページを移動するとブラウザによって消される
+ */
+function updateErrorBadge(tabId: number, errorCount: number): ResultAsync<null, MessageError> {
+  return ResultAsync.fromPromise(
+    Promise.all([
+      chrome.action.setBadgeText({ tabId, text: errorCount > 0 ? String(errorCount) : '' }),
+      chrome.action.setBadgeBackgroundColor({ tabId, color: ERROR_BADGE_COLOR }),
+    ]),
+    (error) => messageResponseFailedError('Failed to update error badge', error),
+  ).map(() => null);
+}
+
+/**
+ * 未同期の設定を同期ストレージに反映する
+ * 反映できなかった場合は、前回の待ち時間の倍（最大 SYNC_RETRY_MAX_DELAY_MINUTES 分）後に再試行する
+ */
+async function retryPendingSync(): Promise<void> {
+  const result = await reconcilePendingSync();
+  if (result.isErr()) {
+    console.error('[Better Niconico] 未同期の設定を読み込めませんでした:', result.error);
+    return;
+  }
+
+  if (!result.value) {
+    await chrome.alarms.clear(SYNC_RETRY_ALARM_NAME);
+    return;
+  }
+
+  const alarm = await chrome.alarms.get(SYNC_RETRY_ALARM_NAME);
+  const delayInMinutes = alarm?.periodInMinutes
+    ? Math.min(alarm.periodInMinutes * 2, SYNC_RETRY_MAX_DELAY_MINUTES)
+    : SYNC_RETRY_INITIAL_DELAY_MINUTES;
+  await chrome.alarms.create(SYNC_RETRY_ALARM_NAME, { delayInMinutes, periodInMinutes: delayInMinutes });
+}
+
+/**
+ * 未同期の設定を反映し直すアラームを設定する（設定済みの場合は待ち時間を引き継ぐ）
+ */
+async function scheduleSyncRetry(): Promise<void> {
+  const alarm = await chrome.alarms.get(SYNC_RETRY_ALARM_NAME);
+  if (!alarm) {
+    await chrome.alarms.create(SYNC_RETRY_ALARM_NAME, {
+      delayInMinutes: SYNC_RETRY_INITIAL_DELAY_MINUTES,
+      periodInMinutes: SYNC_RETRY_INITIAL_DELAY_MINUTES,
+    });
+  }
+}
+
+/**
+ * コンテキストメニューを登録する
+ * メニューはブラウザに保存されるため、インストール・アップデート時に作り直す
+ */
+function setupContextMenus(): void {
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create(
+      {
+        id: FILTER_UPLOADER_MENU_ID,
+        title: 'この動画の投稿者をNGフィルタに追加',
+        contexts: ['link', 'image', 'page'],
+        documentUrlPatterns: ['*://*.nicovideo.jp/*'],
+      },
+      () => {
+        if (chrome.runtime.lastError) {
+          console.error('[Better Niconico] コンテキストメニューの登録に失敗しました:', chrome.runtime.lastError);
+        }
+      },
+    );
+  });
+}
 
 /**
  * 拡張機能のインストール・アップデート時の処理
  */
 chrome.runtime.onInstalled.addListener((details: chrome.runtime.InstalledDetails) => {
+  setupContextMenus();
+
   if (details.reason === 'install') {
     console.log('[Better Niconico] 拡張機能がインストールされました');
 
@@ -13,6 +124,7 @@ chrome.runtime.onInstalled.addListener((details: chrome.runtime.InstalledDetails
       {
         initialized: true,
         installedAt: new Date().toISOString(),
+        [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION,
       },
       () => {
         if (chrome.runtime.lastError) {
@@ -26,6 +138,43 @@ chrome.runtime.onInstalled.addListener((details: chrome.runtime.InstalledDetails
     const previousVersion = details.previousVersion;
     const currentVersion = chrome.runtime.getManifest().version;
     console.log(`[Better Niconico] 拡張機能が更新されました: ${previousVersion} → ${currentVersion}`);
+
+    // 保存された設定を現在のスキーマバージョンに移行
+    void runSettingsMigrations().then((result) => {
+      if (result.isErr()) {
+        console.error('[Better Niconico] 設定のマイグレーションに失敗しました:', result.error);
+        void recordError(createErrorLogEntry(result.error, 'settings', null));
+        return;
+      }
+
+      const { fromVersion, toVersion } = result.value;
+      if (fromVersion < toVersion) {
+        console.log(`[Better Niconico] 設定を移行しました: v${fromVersion} → v${toVersion}`);
+      }
+    });
+  }
+});
+
+/**
+ * ブラウザの起動時に、前回反映できなかった設定を同期ストレージに反映する
+ */
+chrome.runtime.onStartup.addListener(() => {
+  void retryPendingSync();
+});
+
+/**
+ * 設定が同期ストレージに保存できずローカルにのみ保存された場合、反映し直すアラームを設定する
+ * 読み込みのたびに反映を試みると、スロットリング・容量超過の sync への書き込みを繰り返すため、時間を置いて再試行する
+ */
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes[PENDING_SYNC_KEY]?.newValue === true) {
+    void scheduleSyncRetry();
+  }
+});
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === SYNC_RETRY_ALARM_NAME) {
+    void retryPendingSync();
   }
 });
 
@@ -39,4 +188,106 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
   }
 });
 
+/**
+ * chrome.commands のショートカットで機能を切り替える
+ * 切り替えとトーストの表示は、ページ内ショートカットと同じくアクティブなタブのコンテンツスクリプトで行う
+ */
+chrome.commands.onCommand.addListener((command, tab) => {
+  const feature = COMMAND_FEATURES[command];
+  if (!feature) {
+    return;
+  }
+
+  void (async () => {
+    const tabId = tab?.id ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+    if (tabId === undefined) {
+      return;
+    }
+
+    const result = await sendTabMessage(tabId, { action: 'toggleFeature', feature });
+    if (result.isErr()) {
+      // ニコニコ動画以外のタブではコンテンツスクリプトがないため切り替えない
+      console.warn('[Better Niconico] ショートカットを処理できませんでした:', result.error);
+    }
+  })();
+});
+
+/**
+ * コンテキストメニューのクリック
+ * 右クリックされた動画カードはコンテンツスクリプトが記録しているため、追加とトーストの表示はそちらで行う
+ */
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  if (info.menuItemId !== FILTER_UPLOADER_MENU_ID || tab?.id === undefined) {
+    return;
+  }
+
+  void sendTabMessage(tab.id, { action: 'addUploaderFilter' }).mapErr((error) => {
+    // 動画カード以外を右クリックした場合も、コンテンツスクリプトのトーストで通知済み
+    console.warn('[Better Niconico] 投稿者をNGフィルタに追加できませんでした:', error);
+  });
+});
+
+/**
+ * メッセージリスナー
+ * コンテンツスクリプト・ポップアップ・設定ページから送られたエラーをエラーログに記録し、
+ * コンテンツスクリプトから送られた機能のエラー件数をバッジに表示する
+ * コンテンツスクリプトから送られた視聴履歴を IndexedDB に保存する
+ * コンテンツスクリプト宛てのメッセージには応答しない
+ */
+chrome.runtime.onMessage.addListener((request, sender, sendResponse: (response: MessageResponse) => void) => {
+  const messageResult = parseMessage(request);
+  if (messageResult.isErr()) {
+    console.error('[Better Niconico] 不正なメッセージを受信しました:', messageResult.error);
+    sendResponse({ success: false, error: messageResult.error });
+    return false;
+  }
+
+  const message = messageResult.value;
+  switch (message.action) {
+    case 'logError': {
+      // ページのURLが送られていない場合は、送信元のタブのURLを使う
+      const entry = { ...message.entry, url: message.entry.url ?? sender.tab?.url ?? null };
+      void recordError(entry).then((result) => {
+        if (result.isErr()) {
+          console.error('[Better Niconico] エラーログの保存に失敗しました:', result.error);
+        }
+        sendResponse(toMessageResponse<'logError'>(result.map(() => null)));
+      });
+      return true; // 非同期レスポンス
+    }
+
+    case 'setErrorBadge': {
+      const tabId = sender.tab?.id;
+      if (tabId === undefined) {
+        sendResponse({
+          success: false,
+          error: invalidMessagePayloadError('setErrorBadge must be sent from a tab', message.action),
+        });
+        return false;
+      }
+
+      void updateErrorBadge(tabId, message.errorCount).then((result) => {
+        if (result.isErr()) {
+          console.error('[Better Niconico] バッジの更新に失敗しました:', result.error);
+        }
+        sendResponse(toMessageResponse<'setErrorBadge'>(result));
+      });
+      return true; // 非同期レスポンス
+    }
+
+    case 'recordWatchHistory':
+      void putWatchHistoryEntry(message.entry).then((result) => {
+        if (result.isErr()) {
+          console.error('[Better Niconico] 視聴履歴の保存に失敗しました:', result.error);
+          void recordError(createErrorLogEntry(result.error, 'recordWatchHistory', sender.tab?.url ?? null));
+        }
+        sendResponse(toMessageResponse<'recordWatchHistory'>(result.map(() => null)));
+      });
+      return true; // 非同期レスポンス
+
+    default:
+      return false;
+  }
+});
+
 console.log('[Better Niconico] バックグラウンドサービスワーカーが初期化されました');
@@ -0,0 +1,175 @@
+// Better Niconico - Apply Scheduler
+// DOM変更をアニメーションフレーム単位でまとめ、変更された領域を対象とする機能だけを再適用する
+
+import type { FeatureKey } from '../types/features';
+import type { Feature } from './featureRegistry';
+import { FEATURES } from './featureRegistry';
+
+// 1フレームに保持する追加ノード数の上限（超えた場合は対象領域を持つ全機能を再適用する）
+const MAX_PENDING_NODES = 500;
+
+/**
+ * スケジューラの統計情報
+ * 従来方式（DOM変更のたびに全機能を再適用）と比較して、削減された処理量を確認するために使用する
+ */
+export interface SchedulerStats {
+  // MutationObserverから受け取った、ノード追加を含むバッチ数
+  mutationBatches: number;
+  // 実際に機能を再適用したフレーム数
+  flushes: number;
+  // 機能の apply 呼び出し回数
+  featureRuns: number;
+  // 従来方式での apply 呼び出し回数（バッチごとに全機能を再適用した場合）
+  naiveFeatureRuns: number;
+}
+
+// 再適用を実行するコールバック
+let runner: ((keys: ReadonlySet<FeatureKey>) => void) | null = null;
+
+// 次のフレームで検査する追加ノード
+let pendingNodes: Element[] = [];
+
+// 次のフレームで再適用する機能
+const pendingFeatures = new Set<FeatureKey>();
+
+// requestAnimationFrame のハンドル
+let frameHandle: number | null = null;
+
+const stats: SchedulerStats = {
+  mutationBatches: 0,
+  flushes: 0,
+  featureRuns: 0,
+  naiveFeatureRuns: 0,
+};
+
+/**
+ * 再適用を実行するコールバックを登録
+ */
+export function setupApplyScheduler(run: (keys: ReadonlySet<FeatureKey>) => void): void {
+  runner = run;
+}
+
+/**
+ * 追加されたノードが機能の対象領域に関係するかを判定
+ * ノードが対象領域の内側にある場合と、ノードが対象領域を含む場合の両方を対象とする
+ */
+function isFeatureAffected(feature: Feature, node: Element): boolean {
+  return feature.mutationTargets.some(
+    (selector) => node.closest(selector) !== null || node.querySelector(selector) !== null,
+  );
+}
+
+/**
+ * 保留中の追加ノードから再適用が必要な機能を収集する
+ */
+function collectAffectedFeatures(): void {
+  const candidates = FEATURES.filter(
+    (feature) => feature.mutationTargets.length > 0 && !pendingFeatures.has(feature.key),
+  );
+
+  for (const node of pendingNodes) {
+    if (candidates.length === 0) {
+      break;
+    }
+
+    // すでにDOMから取り除かれたノードは無視する
+    if (!node.isConnected) {
+      continue;
+    }
+
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      if (isFeatureAffected(candidates[i], node)) {
+        pendingFeatures.add(candidates[i].key);
+        candidates.splice(i, 1);
+      }
+    }
+  }
+
+  pendingNodes = [];
+}
+
+/**
+ * 保留中の機能を再適用する
+ */
+function flush(): void {
+  frameHandle = null;
+  collectAffectedFeatures();
+
+  if (pendingFeatures.size === 0 || !runner) {
+    return;
+  }
+
+  const keys = new Set(pendingFeatures);
+  pendingFeatures.clear();
+
+  stats.flushes++;
+  stats.featureRuns += keys.size;
+  runner(keys);
+}
+
+/**
+ * 次のアニメーションフレームでの再適用を予約
+ */
+function requestFlush(): void {
+  if (frameHandle !== null) {
+    return;
+  }
+  frameHandle = requestAnimationFrame(flush);
+}
+
+/**
+ * MutationObserver のバッチを受け取り、再適用を予約する
+ */
+export function scheduleMutations(mutations: MutationRecord[]): void {
+  let hasAddedNodes = false;
+
+  for (const mutation of mutations) {
+    for (const node of mutation.addedNodes) {
+      // テキストノードは親要素で判定する（セクションの文言が遅れて読み込まれる場合に対応）
+      const element = node instanceof Element ? node : node.parentElement;
+      if (element) {
+        pendingNodes.push(element);
+        hasAddedNodes = true;
+      }
+    }
+  }
+
+  if (!hasAddedNodes) {
+    return;
+  }
+
+  stats.mutationBatches++;
+  stats.naiveFeatureRuns += FEATURES.length;
+
+  // 大量のノードが追加された場合は個別に判定せず、対象領域を持つ全機能を再適用する
+  if (pendingNodes.length > MAX_PENDING_NODES) {
+    pendingNodes = [];
+    for (const feature of FEATURES) {
+      if (feature.mutationTargets.length > 0) {
+        pendingFeatures.add(feature.key);
+      }
+    }
+  }
+
+  requestFlush();
+}
+
+/**
+ * 指定した機能の再適用を予約する（設定変更時など）
+ */
+export function scheduleFeatures(keys: Iterable<FeatureKey>): void {
+  for (const key of keys) {
+    pendingFeatures.add(key);
+  }
+
+  if (pendingFeatures.size > 0) {
+    requestFlush();
+  }
+}
+
+/**
+ * 統計情報を取得
+ */
+export function getSchedulerStats(): SchedulerStats {
+  return { ...stats };
+}
@@ -0,0 +1,145 @@
+// Better Niconico - Comment Filter
+// コメントのNGフィルタの設定をキャッシュし、ページのコンテキストで動くフック（commentFilterHook.ts）に渡す
+// フックは manifest の main world のコンテンツスクリプトとして document_start で読み込まれる（vite.config.ts）
+// フックがコメントAPIの応答からコメントを取り除き、取り除いた件数をトーストとポップアップに表示する
+
+import type { ResultAsync } from 'neverthrow';
+import type { BetterNiconicoSettings } from '../types/settings';
+import type { CommentFilterResult, CommentFilterSettings } from '../types/commentFilter';
+import type { StorageError } from '../types/errors';
+import { COMMENT_FILTER_EVENTS, DEFAULT_COMMENT_FILTER_SETTINGS } from '../types/commentFilter';
+import { loadCommentFilters } from '../utils/storage';
+import { parseCommentFilterSettings } from '../utils/commentFilterSchema';
+import { getCurrentPageType, resolveFeatureSettings } from '../utils/pageClassifier';
+import { reportError } from '../utils/errorLog';
+import { isRecord } from '../utils/typeGuards';
+import { setFeatureStatus } from './featureStatus';
+import { showToast } from './toast';
+
+// コメントのNGフィルタの設定（読み込み前・読み込み失敗時は空）
+let filters: CommentFilterSettings = DEFAULT_COMMENT_FILTER_SETTINGS;
+
+// 設定の読み込みが終わったか（読み込み前に空の設定をフックに渡さないため）
+let filtersLoaded = false;
+
+// フィルタを有効にしているか
+let active = false;
+
+// 機能の設定から有効・無効が決まったか（決まる前に無効として null を渡さないため）
+let activeResolved = false;
+
+// 結果の受け取りを開始したか
+let listening = false;
+
+/**
+ * 現在の設定をフックに渡す（フィルタが無効の場合は null を渡す）
+ * 設定の読み込み前は渡さず、フックは設定を受け取るまでコメントの応答を保留する
+ * フックはすべてのページで読み込まれるため、無効の場合も null を渡して応答の保留を解く
+ */
+function postConfig(): void {
+  if (!activeResolved || !filtersLoaded) {
+    return;
+  }
+
+  document.dispatchEvent(
+    new CustomEvent(COMMENT_FILTER_EVENTS.config, { detail: JSON.stringify(active ? filters : null) }),
+  );
+}
+
+function isCommentFilterResult(value: unknown): value is CommentFilterResult {
+  return (
+    isRecord(value) && typeof value.total === 'number' && typeof value.removed === 'number' && isRecord(value.byReason)
+  );
+}
+
+/**
+ * フックからフィルタの結果を受け取り、件数を表示する
+ */
+function handleResult(event: Event): void {
+  const detail = (event as CustomEvent<unknown>).detail;
+  let result: unknown;
+  try {
+    result = typeof detail === 'string' ? JSON.parse(detail) : null;
+  } catch {
+    return;
+  }
+  if (!active || !isCommentFilterResult(result)) {
+    return;
+  }
+
+  const message = `${result.total}件中${result.removed}件のコメントを非表示`;
+  console.log(`[Better Niconico] コメントのNGフィルタ: ${message}`, result.byReason);
+  setFeatureStatus('commentFilter', 'applied', message);
+  if (result.removed > 0 && document.body) {
+    showToast(`NGフィルタで${result.removed}件のコメントを非表示にしました`);
+  }
+}
+
+/**
+ * フックからのイベントの受け取りを開始する
+ */
+function listenHookEvents(): void {
+  if (listening) {
+    return;
+  }
+  listening = true;
+
+  document.addEventListener(COMMENT_FILTER_EVENTS.ready, postConfig);
+  document.addEventListener(COMMENT_FILTER_EVENTS.result, handleResult);
+}
+
+/**
+ * フィルタを有効・無効にし、設定をフックに渡す
+ */
+export function setCommentFilterActive(enabled: boolean): void {
+  active = enabled;
+  activeResolved = true;
+  listenHookEvents();
+  postConfig();
+}
+
+/**
+ * document_start で、プレイヤーがコメントを取得する前にフックに設定を渡す
+ * 動画視聴ページで機能が有効な場合のみ有効にする（クライアントサイド遷移で視聴ページに移った場合は apply で有効にする）
+ */
+export function startCommentFilterEarly(settings: BetterNiconicoSettings): void {
+  const pageType = getCurrentPageType();
+  setCommentFilterActive(pageType === 'watch' && resolveFeatureSettings(settings, pageType).commentFilter);
+}
+
+/**
+ * chrome.storage からコメントのNGフィルタの設定を読み込み、キャッシュを更新する
+ * 読み込みに失敗した場合は空の設定のままフックに渡す
+ */
+export function refreshCommentFiltersCache(): ResultAsync<CommentFilterSettings, StorageError> {
+  return loadCommentFilters()
+    .map((newFilters) => {
+      filters = newFilters;
+      filtersLoaded = true;
+      postConfig();
+      return newFilters;
+    })
+    .mapErr((error) => {
+      filtersLoaded = true;
+      postConfig();
+      return error;
+    });
+}
+
+/**
+ * chrome.storage.onChanged で受け取った新しい値でキャッシュを更新する
+ * 値が不正な場合はキャッシュを変更せず false を返す
+ * 新しい設定は次にコメントを取得したとき（次の動画・コメントの再読み込み）から反映される
+ */
+export function updateCommentFiltersCache(newValue: unknown): boolean {
+  const filtersResult = parseCommentFilterSettings(newValue);
+  if (filtersResult.isErr()) {
+    console.error('[Better Niconico] 変更されたコメントのNGフィルタが不正です:', filtersResult.error);
+    reportError(filtersResult.error, 'commentFilter');
+    return false;
+  }
+
+  filters = filtersResult.value;
+  postConfig();
+  return true;
+}
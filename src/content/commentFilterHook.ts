@@ -0,0 +1,148 @@
+// Better Niconico - Comment Filter Hook
+// ページのコンテキスト（main world）で動き、コメントAPI（nvcomment）の応答からNGフィルタに一致するコメントを取り除く
+// main world のコンテンツスクリプトとして document_start で読み込まれ（vite.config.ts）、ページのスクリプトより先に fetch を置き換える
+// コンテンツスクリプト（content/commentFilter.ts）とは COMMENT_FILTER_EVENTS のイベントでやり取りする
+//
+// プレイヤーは window.fetch でコメントを取得するため、fetch を置き換えて応答を差し替える
+// 設定を受け取るまでは応答を保留し、CONFIG_TIMEOUT_MS を過ぎた場合はそのまま返す
+// chrome API を使えないため、import は型と utils/commentFilter.ts のみにする
+
+import type { CommentFilterResult, CommentFilterSettings } from '../types/commentFilter';
+import { COMMENT_FILTER_EVENTS } from '../types/commentFilter';
+import type { CommentMatcher } from '../utils/commentFilter';
+import { compileCommentFilter, filterThreadsResponse } from '../utils/commentFilter';
+
+// コメントを取得するAPI
+const THREADS_URL_PATTERN = /^https:\/\/([\w-]+\.)*nvcomment\.nicovideo\.jp\/v1\/threads(?:[?#]|$)/;
+
+// 設定を待つ最大時間（コンテンツスクリプトの読み込みが遅れた場合はフィルタせずに表示する）
+const CONFIG_TIMEOUT_MS = 3000;
+
+// 二重に挿入された場合に fetch を重ねて置き換えないための目印
+const HOOK_INSTALLED_KEY = '__betterNiconicoCommentFilterHook';
+
+// 差し替えた応答から取り除くヘッダー（本文を作り直すため、元の値と合わなくなる）
+const STALE_HEADERS = ['content-length', 'content-encoding'];
+
+// 照合関数（null の場合はフィルタしない）
+let matcher: CommentMatcher | null = null;
+
+// 設定を1度でも受け取ったか
+let configReceived = false;
+
+// 設定の受け取りを待っている応答
+const configWaiters: (() => void)[] = [];
+
+/**
+ * 設定を受け取るまで待つ（受け取り済みの場合は即座に完了する）
+ */
+function waitForConfig(): Promise<void> {
+  if (configReceived) {
+    return Promise.resolve();
+  }
+
+  const received = new Promise<void>((resolve) => configWaiters.push(resolve));
+  const timeout = new Promise<void>((resolve) => window.setTimeout(resolve, CONFIG_TIMEOUT_MS));
+  return Promise.race([received, timeout]);
+}
+
+/**
+ * コンテンツスクリプトから設定を受け取る
+ */
+function handleConfig(event: Event): void {
+  const detail = (event as CustomEvent<unknown>).detail;
+  if (typeof detail !== 'string') {
+    return;
+  }
+
+  try {
+    const settings = JSON.parse(detail) as CommentFilterSettings | null;
+    matcher = settings ? compileCommentFilter(settings) : null;
+  } catch (error) {
+    console.warn('[Better Niconico] コメントのNGフィルタの設定を読み取れませんでした:', error);
+    matcher = null;
+  }
+
+  configReceived = true;
+  for (const resolve of configWaiters.splice(0)) {
+    resolve();
+  }
+}
+
+/**
+ * コメントを取得するリクエストか
+ */
+function isThreadsRequest(input: RequestInfo | URL): boolean {
+  const url = input instanceof Request ? input.url : String(input);
+  return THREADS_URL_PATTERN.test(url);
+}
+
+/**
+ * フィルタの結果をコンテンツスクリプトに伝える
+ */
+function dispatchResult(result: CommentFilterResult): void {
+  document.dispatchEvent(new CustomEvent(COMMENT_FILTER_EVENTS.result, { detail: JSON.stringify(result) }));
+}
+
+/**
+ * コメントAPIの応答からNGフィルタに一致するコメントを取り除いた応答を作成する
+ * 応答を読み取れない場合は元の応答をそのまま返す
+ */
+async function filterResponse(response: Response): Promise<Response> {
+  await waitForConfig();
+  if (!matcher) {
+    return response;
+  }
+
+  try {
+    const filtered = filterThreadsResponse(await response.clone().json(), matcher);
+    if (!filtered) {
+      return response;
+    }
+
+    dispatchResult(filtered.result);
+    if (filtered.result.removed === 0) {
+      return response;
+    }
+
+    const headers = new Headers(response.headers);
+    for (const name of STALE_HEADERS) {
+      headers.delete(name);
+    }
+    return new Response(JSON.stringify(filtered.response), {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  } catch (error) {
+    console.warn('[Better Niconico] コメントのNGフィルタを適用できませんでした:', error);
+    return response;
+  }
+}
+
+/**
+ * window.fetch を置き換える
+ */
+function installHook(): void {
+  const hookWindow = window as Window & { [HOOK_INSTALLED_KEY]?: boolean };
+  if (hookWindow[HOOK_INSTALLED_KEY]) {
+    return;
+  }
+  hookWindow[HOOK_INSTALLED_KEY] = true;
+
+  const originalFetch = window.fetch;
+  window.fetch = async (...args: Parameters<typeof fetch>): Promise<Response> => {
+    const response = await originalFetch.apply(window, args);
+    if (!response.ok || !isThreadsRequest(args[0])) {
+      return response;
+    }
+    return filterResponse(response);
+  };
+
+  document.addEventListener(COMMENT_FILTER_EVENTS.config, handleConfig);
+}
+
+installHook();
+
+// 読み込み完了を伝え、コンテンツスクリプトから設定を送ってもらう
+document.dispatchEvent(new CustomEvent(COMMENT_FILTER_EVENTS.ready));
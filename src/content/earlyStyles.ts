@@ -0,0 +1,48 @@
+// Better Niconico - Early Styles
+// document_start で設定に応じたスタイルシートを挿入し、非表示にするセクションを描画前から隠す
+// 機能モジュールの apply() によるDOM操作（テキストによる確認付き）は、スタイルシートで隠せない場合のフォールバックとして残す
+
+import type { BetterNiconicoSettings } from '../types/settings';
+import { getCurrentPageType, resolveFeatureSettings } from '../utils/pageClassifier';
+import { FEATURES, isFeatureInScope } from './featureRegistry';
+
+// 挿入する <style> 要素のID
+const EARLY_STYLE_ID = 'bn-early-styles';
+
+/**
+ * 現在のページ種別で有効な機能の非表示ルールを作成
+ */
+function buildEarlyStylesheet(settings: BetterNiconicoSettings): string {
+  const pageType = getCurrentPageType();
+  const toggles = resolveFeatureSettings(settings, pageType);
+
+  const selectors: string[] = [];
+  for (const feature of FEATURES) {
+    if (!feature.getEarlyHideSelectors || !toggles[feature.key] || !isFeatureInScope(feature, pageType)) {
+      continue;
+    }
+
+    selectors.push(...feature.getEarlyHideSelectors());
+  }
+
+  return selectors.length > 0 ? `${selectors.join(',\n')} {\n  display: none !important;\n}\n` : '';
+}
+
+/**
+ * 設定に応じてスタイルシートを挿入・更新する
+ * <head> がまだない document_start の時点では <html> 直下に挿入する
+ */
+export function updateEarlyStyles(settings: BetterNiconicoSettings): void {
+  const stylesheet = buildEarlyStylesheet(settings);
+
+  let style = document.getElementById(EARLY_STYLE_ID);
+  if (!style) {
+    style = document.createElement('style');
+    style.id = EARLY_STYLE_ID;
+    (document.head ?? document.documentElement).appendChild(style);
+  }
+
+  if (style.textContent !== stylesheet) {
+    style.textContent = stylesheet;
+  }
+}
@@ -0,0 +1,338 @@
+// Better Niconico - Element Picker
+// ページ上の要素をクリックで選び、その要素を非表示にするユーザー定義のルールを作成する
+// ポップアップの「要素を選んで非表示」から起動する
+
+import type { HideRule } from '../types/hideRules';
+import { PAGE_TYPE_LABELS } from '../types/pages';
+import { addHideRule } from '../utils/storage';
+import { MAX_HIDE_RULE_TEXT_LENGTH, createHideRuleId, getHideRuleTargetProblem } from '../utils/hideRules';
+import { getCurrentPageType } from '../utils/pageClassifier';
+import { reportError } from '../utils/errorLog';
+import { showToast } from './toast';
+
+// ピッカーが追加する要素（選択の対象外にする）
+const PICKER_ROOT_SELECTOR = '.bn-picker-highlight, .bn-picker-panel';
+
+// ルール名の初期値に使うテキストの最大文字数
+const DEFAULT_NAME_LENGTH = 30;
+
+/**
+ * 起動中のピッカーの状態
+ */
+interface PickerState {
+  highlight: HTMLDivElement;
+  panel: HTMLDivElement;
+  // マウスカーソルの下にある要素
+  hovered: Element | null;
+  // クリックで選んだ要素（選ぶまでは null）
+  selected: Element | null;
+}
+
+// 起動中のピッカー（起動していない場合は null）
+let state: PickerState | null = null;
+
+/**
+ * 要素を作成する
+ */
+function createElement<K extends keyof HTMLElementTagNameMap>(
+  tagName: K,
+  className: string,
+  text?: string,
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tagName);
+  element.className = className;
+  if (text !== undefined) {
+    element.textContent = text;
+  }
+  return element;
+}
+
+/**
+ * 要素1つ分のセレクタ
+ * サイト側で生成されるクラス名（css-*）と拡張機能が追加したクラス名（bn-*）は使わない
+ */
+function getElementSelectorPart(element: Element): string {
+  if (element.id) {
+    return `#${CSS.escape(element.id)}`;
+  }
+
+  const classes = Array.from(element.classList)
+    .filter((className) => !className.startsWith('css-') && !className.startsWith('bn-'))
+    .map((className) => `.${CSS.escape(className)}`)
+    .join('');
+  return `${element.localName}${classes}`;
+}
+
+/**
+ * 要素を一意に特定するセレクタを作成する
+ * 一意になるまで親要素をたどり、同じ形の兄弟要素がある場合は :nth-of-type で区別する
+ */
+export function buildElementSelector(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement) {
+    let part = getElementSelectorPart(current);
+    const parent: Element | null = current.parentElement;
+    if (!current.id && parent) {
+      const sameTypeSiblings = Array.from(parent.children).filter((child) => child.localName === current?.localName);
+      if (sameTypeSiblings.some((sibling) => sibling !== current && sibling.matches(part))) {
+        part += `:nth-of-type(${sameTypeSiblings.indexOf(current) + 1})`;
+      }
+    }
+
+    parts.unshift(part);
+    const selector = parts.join(' > ');
+    if (document.querySelectorAll(selector).length === 1) {
+      return selector;
+    }
+
+    current = parent;
+  }
+
+  return parts.join(' > ');
+}
+
+/**
+ * ピッカーの要素かを判定
+ */
+function isPickerElement(target: EventTarget | null): boolean {
+  return target instanceof Element && target.closest(PICKER_ROOT_SELECTOR) !== null;
+}
+
+/**
+ * 強調表示を要素に重ねる（要素がない場合は隠す）
+ */
+function updateHighlight(): void {
+  if (!state) {
+    return;
+  }
+
+  const target = state.selected ?? state.hovered;
+  if (!target) {
+    state.highlight.hidden = true;
+    return;
+  }
+
+  const rect = target.getBoundingClientRect();
+  state.highlight.hidden = false;
+  state.highlight.style.top = `${rect.top}px`;
+  state.highlight.style.left = `${rect.left}px`;
+  state.highlight.style.width = `${rect.width}px`;
+  state.highlight.style.height = `${rect.height}px`;
+}
+
+/**
+ * セレクタに一致する要素数を表示する
+ */
+function countMatches(selector: string): string {
+  try {
+    return `${document.querySelectorAll(selector).length} 件の要素に一致`;
+  } catch {
+    return 'セレクタが正しくありません';
+  }
+}
+
+function handleMouseMove(event: MouseEvent): void {
+  if (!state || state.selected || isPickerElement(event.target)) {
+    return;
+  }
+
+  state.hovered = event.target instanceof Element ? event.target : null;
+  updateHighlight();
+}
+
+/**
+ * クリックした要素を選ぶ
+ * ページ側のリンク遷移・再生操作などが動かないよう、キャプチャフェーズで止める
+ */
+function handleClick(event: MouseEvent): void {
+  if (!state || isPickerElement(event.target)) {
+    return;
+  }
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  if (!state.selected && event.target instanceof Element) {
+    selectElement(event.target);
+  }
+}
+
+/**
+ * クリック以外のマウス操作もページ側に渡さない
+ */
+function handleMouseBlock(event: MouseEvent): void {
+  if (state && !isPickerElement(event.target)) {
+    event.preventDefault();
+    event.stopPropagation();
+  }
+}
+
+function handleKeydown(event: KeyboardEvent): void {
+  if (event.key === 'Escape') {
+    event.preventDefault();
+    event.stopPropagation();
+    stopElementPicker();
+  }
+}
+
+function handleViewportChange(): void {
+  updateHighlight();
+}
+
+/**
+ * 要素を選んだ後のルールの作成フォームを表示する
+ */
+function selectElement(element: Element): void {
+  if (!state) {
+    return;
+  }
+
+  state.selected = element;
+  updateHighlight();
+
+  const pageType = getCurrentPageType();
+  const panel = state.panel;
+  panel.replaceChildren();
+
+  const nameInput = createElement('input', 'bn-picker-input');
+  nameInput.type = 'text';
+  nameInput.placeholder = 'ルール名';
+  nameInput.value = (element.textContent ?? '').trim().replace(/\s+/g, ' ').slice(0, DEFAULT_NAME_LENGTH);
+
+  const selectorInput = createElement('input', 'bn-picker-input');
+  selectorInput.type = 'text';
+  selectorInput.spellcheck = false;
+  selectorInput.value = buildElementSelector(element);
+
+  const matchCount = createElement('div', 'bn-picker-note', countMatches(selectorInput.value));
+  const errorText = createElement('div', 'bn-picker-error');
+
+  const parentButton = createElement('button', 'bn-picker-button', '親要素を選択');
+  parentButton.type = 'button';
+  parentButton.disabled = !element.parentElement || element.parentElement === document.body;
+
+  const scopeLabel = createElement('label', 'bn-picker-note');
+  const scopeCheckbox = createElement('input', '');
+  scopeCheckbox.type = 'checkbox';
+  scopeLabel.append(scopeCheckbox, `このページ種別のみ（${PAGE_TYPE_LABELS[pageType]}）`);
+
+  const saveButton = createElement('button', 'bn-picker-button bn-picker-button-primary', '保存');
+  saveButton.type = 'button';
+  const cancelButton = createElement('button', 'bn-picker-button', 'キャンセル');
+  cancelButton.type = 'button';
+
+  const actions = createElement('div', 'bn-picker-actions');
+  actions.append(parentButton, cancelButton, saveButton);
+
+  panel.append(
+    createElement('div', 'bn-picker-title', '非表示ルールを作成'),
+    nameInput,
+    selectorInput,
+    matchCount,
+    scopeLabel,
+    errorText,
+    actions,
+  );
+
+  selectorInput.addEventListener('input', () => {
+    matchCount.textContent = countMatches(selectorInput.value.trim());
+  });
+
+  parentButton.addEventListener('click', () => {
+    const parent = state?.selected?.parentElement;
+    if (parent && parent !== document.body) {
+      selectElement(parent);
+    }
+  });
+
+  cancelButton.addEventListener('click', stopElementPicker);
+
+  saveButton.addEventListener('click', () => {
+    const selector = selectorInput.value.trim();
+    const rule: HideRule = {
+      id: createHideRuleId(),
+      name: (nameInput.value.trim() || selector).slice(0, MAX_HIDE_RULE_TEXT_LENGTH),
+      selector: selector || null,
+      headingText: null,
+      hideAncestor: null,
+      pageScope: scopeCheckbox.checked ? [pageType] : 'all',
+      enabled: true,
+    };
+
+    const problem = getHideRuleTargetProblem(rule);
+    if (problem) {
+      errorText.textContent = problem;
+      return;
+    }
+
+    saveButton.disabled = true;
+    // ルールの適用は chrome.storage.onChanged 経由で行われる
+    void addHideRule(rule).match(
+      () => {
+        stopElementPicker();
+        showToast(`非表示ルール「${rule.name}」を追加しました`);
+      },
+      (error) => {
+        console.error('[Better Niconico] 非表示ルールの保存に失敗しました:', error);
+        reportError(error, 'customHideRules');
+        errorText.textContent = 'ルールを保存できませんでした（ルール数の上限に達している可能性があります）';
+        saveButton.disabled = false;
+      },
+    );
+  });
+
+  nameInput.focus();
+}
+
+/**
+ * 要素ピッカーを起動する（起動中の場合は何もしない）
+ */
+export function startElementPicker(): void {
+  if (state) {
+    return;
+  }
+
+  const highlight = createElement('div', 'bn-picker-highlight');
+  highlight.hidden = true;
+  const panel = createElement('div', 'bn-picker-panel');
+  panel.append(
+    createElement('div', 'bn-picker-title', '非表示にする要素をクリックしてください'),
+    createElement('div', 'bn-picker-note', 'Esc キーで終了'),
+  );
+  document.body.append(highlight, panel);
+
+  state = { highlight, panel, hovered: null, selected: null };
+
+  document.addEventListener('mousemove', handleMouseMove, true);
+  document.addEventListener('click', handleClick, true);
+  document.addEventListener('mousedown', handleMouseBlock, true);
+  document.addEventListener('mouseup', handleMouseBlock, true);
+  document.addEventListener('keydown', handleKeydown, true);
+  window.addEventListener('scroll', handleViewportChange, true);
+  window.addEventListener('resize', handleViewportChange);
+
+  console.log('[Better Niconico] 要素ピッカーを起動しました');
+}
+
+/**
+ * 要素ピッカーを終了する
+ */
+export function stopElementPicker(): void {
+  if (!state) {
+    return;
+  }
+
+  state.highlight.remove();
+  state.panel.remove();
+  state = null;
+
+  document.removeEventListener('mousemove', handleMouseMove, true);
+  document.removeEventListener('click', handleClick, true);
+  document.removeEventListener('mousedown', handleMouseBlock, true);
+  document.removeEventListener('mouseup', handleMouseBlock, true);
+  document.removeEventListener('keydown', handleKeydown, true);
+  window.removeEventListener('scroll', handleViewportChange, true);
+  window.removeEventListener('resize', handleViewportChange);
+}
@@ -0,0 +1,92 @@
+// Better Niconico - Feature Registry
+// FEATURE_DEFINITIONS のメタデータと各機能モジュールの実装を結び付ける
+
+import type { FeatureDefinition, FeatureKey } from '../types/features';
+import type { FeatureApplyResult } from '../types/featureStatus';
+import type { PageType } from '../types/pages';
+import type { SelectorKey } from './selectors';
+import { FEATURE_DEFINITIONS, isPageInScope } from '../types/features';
+import { getCurrentPageType } from '../utils/pageClassifier';
+
+// Feature modules
+import * as hidePremiumSection from './features/hidePremiumSection';
+import * as hideOnAirAnime from './features/hideOnAirAnime';
+import * as restoreClassicVideoLayout from './features/restoreClassicVideoLayout';
+import * as videoUpscaling from './features/videoUpscaling';
+import * as addNicoRankButton from './features/addNicoRankButton';
+import * as squareProfileIcons from './features/squareProfileIcons';
+import * as hideSupporterButton from './features/hideSupporterButton';
+import * as hideNicoAds from './features/hideNicoAds';
+import * as customHideRules from './features/customHideRules';
+import * as videoFilter from './features/videoFilter';
+import * as commentFilter from './features/commentFilter';
+import * as recordWatchHistory from './features/recordWatchHistory';
+import * as resumePlayback from './features/resumePlayback';
+import * as watchLaterQueue from './features/watchLaterQueue';
+
+/**
+ * 機能モジュールが実装するインターフェース
+ */
+export interface FeatureModule {
+  // 設定値に応じて機能を適用し、適用結果を返す（冪等であること）
+  apply(enabled: boolean): FeatureApplyResult;
+  // 機能が追加したDOM変更・イベントリスナーをすべて取り除く
+  teardown(): void;
+  // 要素が追加されたときに再適用が必要になるDOM領域のセレクタ（空の場合はDOM変更では再適用しない）
+  mutationTargets: readonly string[];
+  // 依存するDOM要素（ヘルスチェックで解決できたかを報告する）
+  selectorTargets: readonly SelectorKey[];
+  // 有効時に document_start のスタイルシートで描画前から非表示にする要素のセレクタ（earlyStyles.ts）
+  getEarlyHideSelectors?(): readonly string[];
+  // ページ種別・動画IDが変わるクライアントサイド遷移の際に teardown してから再適用するか
+  reattachOnRouteChange: boolean;
+}
+
+/**
+ * メタデータと実装を合わせた機能の定義
+ */
+export interface Feature extends FeatureDefinition<FeatureKey>, FeatureModule {}
+
+/**
+ * 設定キーと機能モジュールの対応表
+ * Record型にすることで、FEATURE_DEFINITIONS に追加した機能の実装漏れを型エラーとして検出する
+ */
+const FEATURE_MODULES: Record<FeatureKey, FeatureModule> = {
+  hidePremiumSection,
+  hideOnAirAnime,
+  restoreClassicVideoLayout,
+  enableVideoUpscaling: videoUpscaling,
+  showNicoRankButton: addNicoRankButton,
+  squareProfileIcons,
+  hideSupporterButton,
+  hideNicoAds,
+  customHideRules,
+  videoFilter,
+  commentFilter,
+  recordWatchHistory,
+  resumePlayback,
+  watchLaterQueue,
+};
+
+/**
+ * コンテンツスクリプトが適用するすべての機能（FEATURE_DEFINITIONS の順序）
+ */
+export const FEATURES: readonly Feature[] = FEATURE_DEFINITIONS.map((definition) => {
+  const module = FEATURE_MODULES[definition.key];
+  return {
+    ...definition,
+    apply: module.apply,
+    teardown: module.teardown,
+    mutationTargets: module.mutationTargets,
+    selectorTargets: module.selectorTargets,
+    getEarlyHideSelectors: module.getEarlyHideSelectors,
+    reattachOnRouteChange: module.reattachOnRouteChange,
+  };
+});
+
+/**
+ * ページ種別が機能の対象範囲に含まれるかを判定
+ */
+export function isFeatureInScope(feature: Feature, pageType: PageType = getCurrentPageType()): boolean {
+  return isPageInScope(feature.pageScope, pageType);
+}
@@ -0,0 +1,58 @@
+// Better Niconico - Feature Status
+// 各機能の現在のタブでの適用結果を保持し、エラーの件数を拡張機能のバッジに反映する
+
+import type { FeatureKey } from '../types/features';
+import type { FeatureApplyStatus } from '../types/featureStatus';
+import { sendMessage } from '../utils/messaging';
+
+/**
+ * 機能の適用結果と補足
+ */
+export interface FeatureStatusEntry {
+  status: FeatureApplyStatus;
+  message?: string;
+}
+
+// 機能ごとの最新の適用結果
+const statuses = new Map<FeatureKey, FeatureStatusEntry>();
+
+// バックグラウンドに最後に伝えたエラーの件数（null: まだ伝えていない）
+let reportedErrorCount: number | null = null;
+
+/**
+ * エラーになっている機能の数をバックグラウンドに伝え、拡張機能のバッジを更新する
+ * 件数が変わらない場合は送信しない
+ */
+function updateErrorBadge(): void {
+  let errorCount = 0;
+  for (const entry of statuses.values()) {
+    if (entry.status === 'error') {
+      errorCount++;
+    }
+  }
+
+  if (errorCount === reportedErrorCount) {
+    return;
+  }
+
+  reportedErrorCount = errorCount;
+  void sendMessage({ action: 'setErrorBadge', errorCount }).mapErr((error) => {
+    console.warn('[Better Niconico] バッジを更新できませんでした:', error);
+  });
+}
+
+/**
+ * 機能の適用結果を記録する
+ * 非同期に処理する機能は、処理の完了時にも呼び出して結果を更新する
+ */
+export function setFeatureStatus(key: FeatureKey, status: FeatureApplyStatus, message?: string): void {
+  statuses.set(key, { status, message });
+  updateErrorBadge();
+}
+
+/**
+ * 機能の最新の適用結果を取得する（まだ適用していない場合は undefined）
+ */
+export function getFeatureStatus(key: FeatureKey): FeatureStatusEntry | undefined {
+  return statuses.get(key);
+}
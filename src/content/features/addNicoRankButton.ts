@@ -3,10 +3,23 @@
  * video_topページの左サイドバーに「ニコラン」ボタンを追加します
  */
 
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { SelectorKey } from '../selectors';
+import { queryTarget, queryTargetAll, closestTarget, getTargetSelectors } from '../selectors';
+
 const BUTTON_MARKER = 'data-bn-nico-rank-button';
 const CONTAINER_MARKER = 'data-bn-nico-rank-container';
 const NICO_RANK_URL = 'https://nico-rank.com/';
 
+// 再適用が必要になるDOM領域（サイドバー内に要素が追加されたときだけ apply が呼ばれる）
+export const mutationTargets: readonly string[] = getTargetSelectors('sidebarContainer');
+
+// 依存するDOM要素（src/content/selectors.ts）
+export const selectorTargets: readonly SelectorKey[] = ['sidebarContainer', 'rankingLink', 'rankingMenuItem'];
+
+// ページ遷移後のサイドバー更新は mutationTargets 経由で再適用されるため、付け直しは不要
+export const reattachOnRouteChange = false;
+
 /**
  * 表彰台のSVGアイコンを生成
  * nico-rank.comのシンボルである表彰台（1位、2位、3位）を表現
@@ -26,18 +39,11 @@ function createPodiumIcon(): string {
   </svg>`;
 }
 
-/**
- * video_topページかどうかを判定
- */
-function isVideoTopPage(): boolean {
-  return window.location.pathname === '/video_top' || window.location.pathname.startsWith('/video_top');
-}
-
 /**
  * サイドバーのコンテナを取得
  */
 function getSidebarContainer(): HTMLElement | null {
-  return document.querySelector('.simplebar-content');
+  return queryTarget('sidebarContainer');
 }
 
 /**
@@ -56,14 +62,16 @@ function hasButtonAfterRanking(rankingParent: HTMLElement): boolean {
 
 /**
  * nico-rank.comボタンを作成
+ * @param rankingLink - 見た目を合わせるランキングリンク
  */
-function createNicoRankButton(): HTMLElement {
+function createNicoRankButton(rankingLink: HTMLAnchorElement): HTMLElement {
   // ランキングリンクの構造を正確に再現
+  // リンク自体のクラスはランキングリンクから引き継ぐ（ハッシュ化されたクラス名の変更に追従するため）
   const link = document.createElement('a');
   link.href = NICO_RANK_URL;
   link.target = '_blank';
   link.rel = 'noopener noreferrer';
-  link.className = 'css-1i9dz1a';
+  link.className = rankingLink.className;
   link.setAttribute(BUTTON_MARKER, 'true');
   
   // ランキングリンクと同じ内部構造を作成
@@ -92,26 +100,19 @@ function createNicoRankButton(): HTMLElement {
 /**
  * すべてのボタンを追加（展開時と折りたたみ時の両方に対応）
  */
-function addAllNicoRankButtons(): void {
-  // video_topページでない場合は何もしない
-  if (!isVideoTopPage()) {
-    return;
-  }
-  
+function addAllNicoRankButtons(): FeatureApplyResult {
   // サイドバーコンテナを取得
   const sidebarContainer = getSidebarContainer();
   if (!sidebarContainer) {
-    return;
+    return 'target_not_found';
   }
   
   // すべてのランキングリンクを探す（展開時と折りたたみ時の両方）
-  const rankingLinks = Array.from(document.querySelectorAll<HTMLAnchorElement>('a.css-1i9dz1a')).filter(
-    link => link.textContent?.trim() === 'ランキング' && link.href.includes('/ranking')
-  );
+  const rankingLinks = queryTargetAll('rankingLink') as HTMLAnchorElement[];
   
   for (const rankingLink of rankingLinks) {
     // 各ランキングリンクの親要素を取得
-    const rankingParent = rankingLink.closest('.css-1i3qj3a, .css-gzpr6t') as HTMLElement;
+    const rankingParent = closestTarget('rankingMenuItem', rankingLink);
     if (!rankingParent) {
       continue;
     }
@@ -127,7 +128,7 @@ function addAllNicoRankButtons(): void {
     menuContainer.setAttribute(CONTAINER_MARKER, 'true');
     
     // ボタンを作成
-    const button = createNicoRankButton();
+    const button = createNicoRankButton(rankingLink);
     menuContainer.appendChild(button);
     
     // ランキングの親要素の後に挿入
@@ -139,9 +140,12 @@ function addAllNicoRankButtons(): void {
     }
   }
   
-  if (rankingLinks.length > 0) {
-    console.log('[Better Niconico] ニコランボタンを追加しました');
+  if (rankingLinks.length === 0) {
+    return 'target_not_found';
   }
+
+  console.log('[Better Niconico] ニコランボタンを追加しました');
+  return 'applied';
 }
 
 /**
@@ -164,12 +168,20 @@ function removeNicoRankButton(): void {
  * 設定を適用する
  * @param enabled - true: ボタンを追加, false: ボタンを削除
  */
-export function apply(enabled: boolean): void {
+export function apply(enabled: boolean): FeatureApplyResult {
   if (enabled) {
     // 展開時と折りたたみ時の両方に対応するため、すべてのランキングリンクに対してボタンを追加
-    addAllNicoRankButtons();
-  } else {
-    removeNicoRankButton();
+    return addAllNicoRankButtons();
   }
+
+  removeNicoRankButton();
+  return 'disabled';
 }
 
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * 追加したボタンをすべて削除する
+ */
+export function teardown(): void {
+  removeNicoRankButton();
+}
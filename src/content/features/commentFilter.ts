@@ -0,0 +1,38 @@
+/**
+ * コメントのNGフィルタ機能
+ * 動画視聴ページで、NGワード・正規表現・ユーザーID・コマンド・文字数に一致するコメントを
+ * コメントAPIの応答の時点で取り除き、プレイヤーに表示されないようにします
+ *
+ * 応答の書き換えはページのコンテキストで動くフック（src/content/commentFilterHook.ts）で行い、
+ * 取り除いた件数はフックから結果を受け取った時点で機能の状態に記録します
+ */
+
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { SelectorKey } from '../selectors';
+import { setCommentFilterActive } from '../commentFilter';
+
+// DOMを操作しないため、DOM変更時の再適用は不要
+export const mutationTargets: readonly string[] = [];
+
+// 依存するDOM要素はない（コメントAPIの応答を書き換える）
+export const selectorTargets: readonly SelectorKey[] = [];
+
+// フックは遷移後もページに残り、次の動画のコメントにもそのまま適用されるため、付け直しは不要
+export const reattachOnRouteChange = false;
+
+/**
+ * 設定を適用する
+ * 設定の変更は次にコメントを取得したときから反映される（表示中のコメントは変わらない）
+ * @param enabled - true: フィルタを有効化, false: フィルタを無効化
+ */
+export function apply(enabled: boolean): FeatureApplyResult {
+  setCommentFilterActive(enabled);
+  return enabled ? 'applied' : 'disabled';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ */
+export function teardown(): void {
+  setCommentFilterActive(false);
+}
@@ -0,0 +1,82 @@
+/**
+ * ユーザー定義の非表示ルールを適用する機能
+ * オプションページや要素ピッカーで作成したルールに一致する要素を非表示にします
+ * （ルールごとの対象ページは、この機能の対象範囲とは別にルール側で判定）
+ */
+
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { SelectorKey } from '../selectors';
+import { applyHideRule, getActiveCustomHideRules, restoreHiddenElements } from '../hideRules';
+
+// 再適用が必要になるDOM領域
+// 有効なルールのセレクタは apply() のたびに入れ替えるため、スケジューラと同じ配列を書き換える
+const ruleSelectors: string[] = [];
+export const mutationTargets: readonly string[] = ruleSelectors;
+
+// 依存するDOM要素（ユーザー定義のセレクタはヘルスチェックの対象外）
+export const selectorTargets: readonly SelectorKey[] = [];
+
+// ページ遷移後に追加された要素は mutationTargets 経由で非表示になるため、付け直しは不要
+export const reattachOnRouteChange = false;
+
+// 現在のページで適用中のルールのID
+const appliedRuleIds = new Set<string>();
+
+/**
+ * 描画前から非表示にするセレクタ（src/content/earlyStyles.ts）
+ * 見出しのテキストで探すルールはCSSに変換できないため、apply() の処理で非表示にする
+ */
+export function getEarlyHideSelectors(): readonly string[] {
+  return getActiveCustomHideRules().flatMap((rule) => rule.stylesheetSelectors);
+}
+
+/**
+ * 設定を適用する
+ * ルールの追加・削除・対象ページの変更に合わせて、適用中でなくなったルールの要素は表示に戻す
+ * @param enabled - true: ルールを適用, false: すべてのルールを解除
+ */
+export function apply(enabled: boolean): FeatureApplyResult {
+  if (!enabled) {
+    teardown();
+    return 'disabled';
+  }
+
+  const rules = getActiveCustomHideRules();
+  const activeIds = new Set(rules.map((rule) => rule.id));
+  for (const id of appliedRuleIds) {
+    if (!activeIds.has(id)) {
+      restoreHiddenElements(id);
+      appliedRuleIds.delete(id);
+    }
+  }
+
+  ruleSelectors.splice(0, ruleSelectors.length, ...new Set(rules.flatMap((rule) => rule.mutationTargets)));
+
+  // ルールがない場合は適用するものがないだけなので、未検出にはしない
+  if (rules.length === 0) {
+    return 'applied';
+  }
+
+  const results = new Set<FeatureApplyResult>();
+  for (const rule of rules) {
+    appliedRuleIds.add(rule.id);
+    results.add(applyHideRule(rule));
+  }
+
+  if (results.has('applied')) {
+    return 'applied';
+  }
+  return results.has('pending') ? 'pending' : 'target_not_found';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * ルールで非表示にした要素をすべて表示状態に戻す
+ */
+export function teardown(): void {
+  for (const id of appliedRuleIds) {
+    restoreHiddenElements(id);
+  }
+  appliedRuleIds.clear();
+  ruleSelectors.length = 0;
+}
@@ -4,82 +4,47 @@
  * （クラシックレイアウト時も同様に非表示）
  */
 
-const NICOAD_MARKER = 'data-bn-nicoad-hidden';
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { SelectorKey } from '../selectors';
+import { BUILT_IN_HIDE_RULES, applyHideRule, restoreHiddenElements } from '../hideRules';
 
-/**
- * ニコニ広告セクションを探す
- * @returns ニコニ広告セクションのコンテナ要素、または null
- */
-function findNicoAdSection(): HTMLElement | null {
-  // h1で「ニコニ広告」というテキストを持つ見出しを探す
-  const headings = document.querySelectorAll('h1');
-  for (const heading of headings) {
-    const text = heading.textContent || '';
-    if (text.includes('ニコニ広告')) {
-      // 最も近いsection要素を取得
-      const section = heading.closest('section');
-      if (section) {
-        return section as HTMLElement;
-      }
-    }
-  }
-  return null;
-}
-
-/**
- * ニコニ広告セクションを非表示にする
- */
-function hideNicoAds(): void {
-  const section = findNicoAdSection();
-  if (!section) {
-    return;
-  }
+// 組み込みの非表示ルール（src/content/hideRules.ts）
+const RULE = BUILT_IN_HIDE_RULES.hideNicoAds;
 
-  // セーフガード: 意図したセクションであることを確認
-  // ニコニ広告セクションには「ニコニ広告」というテキストが含まれているはず
-  const textContent = section.textContent || '';
-  if (!textContent.includes('ニコニ広告')) {
-    // テキストがまだロードされていない可能性があるため、警告は出さずに処理をスキップ
-    return;
-  }
+// 再適用が必要になるDOM領域（この領域内に要素が追加されたときだけ apply が呼ばれる）
+export const mutationTargets: readonly string[] = RULE.mutationTargets;
 
-  // すでに非表示の場合は何もしない（idempotency）
-  if (section.style.display === 'none' || section.getAttribute(NICOAD_MARKER) === 'true') {
-    return;
-  }
+// 依存するDOM要素（src/content/selectors.ts）
+export const selectorTargets: readonly SelectorKey[] = ['nicoAdSection'];
 
-  section.style.display = 'none';
-  section.setAttribute(NICOAD_MARKER, 'true');
-  console.log('[Better Niconico] ニコニ広告セクションを非表示にしました');
-}
+// ページ遷移後に追加された要素は mutationTargets 経由で非表示になるため、付け直しは不要
+export const reattachOnRouteChange = false;
 
 /**
- * ニコニ広告セクションを表示する
+ * 描画前から非表示にするセレクタ（src/content/earlyStyles.ts）
+ * 現在の探し方は見出しのテキストのみでCSSに変換できないため、apply() の処理で非表示にする
  */
-function showNicoAds(): void {
-  const section = findNicoAdSection();
-  if (!section) {
-    return;
-  }
-
-  // すでに表示されている場合は何もしない（idempotency）
-  if (section.style.display !== 'none' && section.getAttribute(NICOAD_MARKER) !== 'true') {
-    return;
-  }
-
-  section.style.display = '';
-  section.removeAttribute(NICOAD_MARKER);
-  console.log('[Better Niconico] ニコニ広告セクションを表示しました');
+export function getEarlyHideSelectors(): readonly string[] {
+  return RULE.stylesheetSelectors;
 }
 
 /**
  * 設定を適用する
  * @param enabled - true: 非表示, false: 表示
  */
-export function apply(enabled: boolean): void {
+export function apply(enabled: boolean): FeatureApplyResult {
   if (enabled) {
-    hideNicoAds();
-  } else {
-    showNicoAds();
+    return applyHideRule(RULE);
   }
+
+  restoreHiddenElements(RULE.id);
+  return 'disabled';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * ニコニ広告セクションを表示状態に戻す
+ */
+export function teardown(): void {
+  restoreHiddenElements(RULE.id);
 }
@@ -3,74 +3,48 @@
  * "TV放送中のアニメ" のセクションを非表示にします
  */
 
-const ANIME_SELECTOR = '.OnTvAnimeVideosContainer';
-const ANIME_MARKER = 'data-bn-anime-hidden';
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { SelectorKey } from '../selectors';
+import { BUILT_IN_HIDE_RULES, applyHideRule, restoreHiddenElements } from '../hideRules';
 
-/**
- * TV放送中のアニメセクションを非表示にする
- * Separatorも一緒に非表示にして下線が残らないようにする
- */
-function hideOnAirAnime(): void {
-  const container = document.querySelector(ANIME_SELECTOR);
-  if (!container) {
-    return;
-  }
-
-  const parentBlock = container.closest('.BaseLayout-block') as HTMLElement;
-  if (!parentBlock) {
-    return;
-  }
+// 組み込みの非表示ルール（src/content/hideRules.ts）
+const RULE = BUILT_IN_HIDE_RULES.hideOnAirAnime;
 
-  // セーフガード: 意図したセクションであることを確認
-  // アニメセクションには特定のテキストが含まれているはず
-  const textContent = parentBlock.textContent || '';
-  if (!textContent.includes('TV放送中') && !textContent.includes('アニメ')) {
-    console.warn('[Better Niconico] アニメセクションの検証に失敗しました');
-    return;
-  }
+// 再適用が必要になるDOM領域（この領域内に要素が追加されたときだけ apply が呼ばれる）
+export const mutationTargets: readonly string[] = RULE.mutationTargets;
 
-  // すでに非表示の場合は何もしない
-  if (parentBlock.style.display === 'none' || parentBlock.getAttribute(ANIME_MARKER) === 'true') {
-    return;
-  }
+// 依存するDOM要素（src/content/selectors.ts）
+export const selectorTargets: readonly SelectorKey[] = ['onAirAnimeSection'];
 
-  parentBlock.style.display = 'none';
-  parentBlock.setAttribute(ANIME_MARKER, 'true');
-  console.log('[Better Niconico] TV放送中のアニメセクションを非表示にしました');
-}
+// ページ遷移後に追加された要素は mutationTargets 経由で非表示になるため、付け直しは不要
+export const reattachOnRouteChange = false;
 
 /**
- * TV放送中のアニメセクションを表示する
+ * 描画前から非表示にするセレクタ（src/content/earlyStyles.ts）
+ * スタイルシートはこのセクション専用のクラス名の探し方のみを使い、
+ * それ以外の探し方で見つかった場合は apply() の処理（テキストによる確認付き）で非表示にする
  */
-function showOnAirAnime(): void {
-  const container = document.querySelector(ANIME_SELECTOR);
-  if (!container) {
-    return;
-  }
-
-  const parentBlock = container.closest('.BaseLayout-block') as HTMLElement;
-  if (!parentBlock) {
-    return;
-  }
-
-  // すでに表示されている場合は何もしない
-  if (parentBlock.style.display !== 'none' && parentBlock.getAttribute(ANIME_MARKER) !== 'true') {
-    return;
-  }
-
-  parentBlock.style.display = '';
-  parentBlock.removeAttribute(ANIME_MARKER);
-  console.log('[Better Niconico] TV放送中のアニメセクションを表示しました');
+export function getEarlyHideSelectors(): readonly string[] {
+  return RULE.stylesheetSelectors;
 }
 
 /**
  * 設定を適用する
  * @param enabled - true: 非表示, false: 表示
  */
-export function apply(enabled: boolean): void {
+export function apply(enabled: boolean): FeatureApplyResult {
   if (enabled) {
-    hideOnAirAnime();
-  } else {
-    showOnAirAnime();
+    return applyHideRule(RULE);
   }
+
+  restoreHiddenElements(RULE.id);
+  return 'disabled';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * TV放送中のアニメセクションを表示状態に戻す
+ */
+export function teardown(): void {
+  restoreHiddenElements(RULE.id);
 }
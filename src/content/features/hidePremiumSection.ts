@@ -3,73 +3,48 @@
  * "プレミアム会員なら動画が見放題！" のセクションを非表示にします
  */
 
-const PREMIUM_SELECTOR = '.TagPushVideosContainer';
-const PREMIUM_MARKER = 'data-bn-premium-hidden';
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { SelectorKey } from '../selectors';
+import { BUILT_IN_HIDE_RULES, applyHideRule, restoreHiddenElements } from '../hideRules';
 
-/**
- * プレミアム会員セクションを非表示にする
- */
-function hidePremiumSection(): void {
-  const container = document.querySelector(PREMIUM_SELECTOR);
-  if (!container) {
-    return;
-  }
-
-  const parentBlock = container.closest('.BaseLayout-block') as HTMLElement;
-  if (!parentBlock) {
-    return;
-  }
+// 組み込みの非表示ルール（src/content/hideRules.ts）
+const RULE = BUILT_IN_HIDE_RULES.hidePremiumSection;
 
-  // セーフガード: 意図したセクションであることを確認
-  // プレミアムセクションには特定のテキストが含まれているはず
-  const textContent = parentBlock.textContent || '';
-  if (!textContent.includes('プレミアム') && !textContent.includes('見放題')) {
-    // テキストがまだロードされていない可能性があるため、警告は出さずに処理をスキップ
-    return;
-  }
+// 再適用が必要になるDOM領域（この領域内に要素が追加されたときだけ apply が呼ばれる）
+export const mutationTargets: readonly string[] = RULE.mutationTargets;
 
-  // すでに非表示の場合は何もしない
-  if (parentBlock.style.display === 'none' || parentBlock.getAttribute(PREMIUM_MARKER) === 'true') {
-    return;
-  }
+// 依存するDOM要素（src/content/selectors.ts）
+export const selectorTargets: readonly SelectorKey[] = ['premiumSection'];
 
-  parentBlock.style.display = 'none';
-  parentBlock.setAttribute(PREMIUM_MARKER, 'true');
-  console.log('[Better Niconico] プレミアム会員セクションを非表示にしました');
-}
+// ページ遷移後に追加された要素は mutationTargets 経由で非表示になるため、付け直しは不要
+export const reattachOnRouteChange = false;
 
 /**
- * プレミアム会員セクションを表示する
+ * 描画前から非表示にするセレクタ（src/content/earlyStyles.ts）
+ * 現在の探し方はいずれも他のセクションに一致しうるため（src/content/selectors.ts）、
+ * テキストを確認できる apply() の処理でのみ非表示にする
  */
-function showPremiumSection(): void {
-  const container = document.querySelector(PREMIUM_SELECTOR);
-  if (!container) {
-    return;
-  }
-
-  const parentBlock = container.closest('.BaseLayout-block') as HTMLElement;
-  if (!parentBlock) {
-    return;
-  }
-
-  // すでに表示されている場合は何もしない
-  if (parentBlock.style.display !== 'none' && parentBlock.getAttribute(PREMIUM_MARKER) !== 'true') {
-    return;
-  }
-
-  parentBlock.style.display = '';
-  parentBlock.removeAttribute(PREMIUM_MARKER);
-  console.log('[Better Niconico] プレミアム会員セクションを表示しました');
+export function getEarlyHideSelectors(): readonly string[] {
+  return RULE.stylesheetSelectors;
 }
 
 /**
  * 設定を適用する
  * @param enabled - true: 非表示, false: 表示
  */
-export function apply(enabled: boolean): void {
+export function apply(enabled: boolean): FeatureApplyResult {
   if (enabled) {
-    hidePremiumSection();
-  } else {
-    showPremiumSection();
+    return applyHideRule(RULE);
   }
+
+  restoreHiddenElements(RULE.id);
+  return 'disabled';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * プレミアム会員セクションを表示状態に戻す
+ */
+export function teardown(): void {
+  restoreHiddenElements(RULE.id);
 }
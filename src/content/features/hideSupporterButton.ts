@@ -5,8 +5,21 @@
  * 実装参考: https://github.com/castella-cake/niconico-peppermint-extension
  */
 
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { SelectorKey } from '../selectors';
+
 const HIDE_SUPPORTER_CLASS = 'bn-hide-supporter';
 
+// CSSのみで動作するため、DOM変更時の再適用は不要
+export const mutationTargets: readonly string[] = [];
+
+// 依存するDOM要素（src/content/selectors.ts）
+// 非表示はCSS（index.css）で行うため、この登録はヘルスチェックにのみ使用する
+export const selectorTargets: readonly SelectorKey[] = ['supporterButton'];
+
+// <body> のクラスを切り替えるだけのため、ページ遷移時の付け直しは不要
+export const reattachOnRouteChange = false;
+
 /**
  * サポーターボタンを非表示にする
  */
@@ -35,10 +48,20 @@ function disableHideSupporterButton(): void {
  * 設定を適用する
  * @param enabled - true: 非表示, false: 表示
  */
-export function apply(enabled: boolean): void {
+export function apply(enabled: boolean): FeatureApplyResult {
   if (enabled) {
     enableHideSupporterButton();
-  } else {
-    disableHideSupporterButton();
+    return 'applied';
   }
+
+  disableHideSupporterButton();
+  return 'disabled';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * サポーターボタンを表示状態に戻す
+ */
+export function teardown(): void {
+  disableHideSupporterButton();
 }
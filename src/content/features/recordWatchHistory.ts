@@ -0,0 +1,217 @@
+/**
+ * 視聴履歴の記録機能
+ * 動画視聴ページを開くたびに、動画ID・タイトル・投稿者・タグ・長さ・再生位置・日時を記録します
+ *
+ * 記録は拡張機能の IndexedDB に保存するため、バックグラウンドに recordWatchHistory メッセージで送ります
+ * （ページのオリジンで動くコンテンツスクリプトからは、拡張機能の IndexedDB を使えない）
+ * タイトルなどの読み込みや再生位置の変化に合わせて、同じ訪問の記録を定期的に更新します
+ */
+
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { WatchHistoryEntry } from '../../types/watchHistory';
+import type { SelectorKey } from '../selectors';
+import { MAX_WATCH_HISTORY_TAGS } from '../../types/watchHistory';
+import { getVideoId } from '../../utils/pageClassifier';
+import { sendMessage } from '../../utils/messaging';
+import { createWatchHistoryId } from '../../utils/watchHistory';
+import { getVideoElement } from '../playerVideo';
+import { getWatchPageInfo } from '../watchPageInfo';
+
+// 動画の情報と再生位置を読み取る間隔
+const SAMPLE_INTERVAL_MS = 5000;
+
+// 再生位置だけが変わった場合に記録を更新する最小の差（秒）
+const POSITION_SAVE_THRESHOLD_SECONDS = 15;
+
+// 保存するタイトル・投稿者名の最大文字数（検証の上限に合わせる）
+const MAX_TEXT_LENGTH = 500;
+
+// DOMの変化ではなくタイマーで読み取るため、DOM変更時の再適用は不要
+export const mutationTargets: readonly string[] = [];
+
+// 依存するDOM要素（src/content/selectors.ts）
+export const selectorTargets: readonly SelectorKey[] = ['watchBottomArea', 'playerVideo'];
+
+// 動画ごとに別の訪問として記録するため、ページ遷移時は teardown してから記録し直す
+export const reattachOnRouteChange = true;
+
+// 現在の訪問の記録（動画視聴ページ以外・機能がオフの場合は null）
+let currentEntry: WatchHistoryEntry | null = null;
+
+// 最後に送った記録（変化がない場合は送らない）
+let lastSent: WatchHistoryEntry | null = null;
+
+// 定期的に読み取るタイマー
+let sampleTimer: number | null = null;
+
+// ページを離れる際の記録のセットアップ済みフラグ
+let pagehideListenerSetup = false;
+
+/**
+ * 記録をバックグラウンドに送る
+ */
+function sendEntry(entry: WatchHistoryEntry): void {
+  lastSent = entry;
+  void sendMessage({ action: 'recordWatchHistory', entry }).mapErr((error) => {
+    // 保存の失敗はバックグラウンドでエラーログに記録される
+    console.warn('[Better Niconico] 視聴履歴を記録できませんでした:', error);
+  });
+}
+
+/**
+ * 前回送った記録から、送り直す必要がある変化があるか
+ * 再生位置は POSITION_SAVE_THRESHOLD_SECONDS 以上変わった場合のみ送り直す
+ */
+function hasSignificantChange(entry: WatchHistoryEntry): boolean {
+  if (!lastSent || lastSent.id !== entry.id) {
+    return true;
+  }
+
+  if (
+    entry.title !== lastSent.title ||
+    entry.uploaderId !== lastSent.uploaderId ||
+    entry.uploaderName !== lastSent.uploaderName ||
+    entry.duration !== lastSent.duration ||
+    entry.tags.join('\n') !== lastSent.tags.join('\n')
+  ) {
+    return true;
+  }
+
+  if (entry.position === null || lastSent.position === null) {
+    return entry.position !== lastSent.position;
+  }
+  return Math.abs(entry.position - lastSent.position) >= POSITION_SAVE_THRESHOLD_SECONDS;
+}
+
+/**
+ * 動画の情報がすべて読み取れているか（読み取れている場合は再生位置のみを読み取る）
+ */
+function hasCompleteInfo(entry: WatchHistoryEntry): boolean {
+  return entry.title !== '' && entry.uploaderId !== null && entry.tags.length > 0 && entry.duration !== null;
+}
+
+/**
+ * ページから動画の情報と再生位置を読み取り、現在の記録を更新する
+ * 読み取れなかった項目は、前回までに読み取れた値を残す
+ */
+function sampleCurrentEntry(): void {
+  if (!currentEntry || getVideoId(window.location) !== currentEntry.videoId) {
+    return;
+  }
+
+  const video = getVideoElement();
+  const position = video && video.currentTime > 0 ? video.currentTime : currentEntry.position;
+  if (hasCompleteInfo(currentEntry)) {
+    currentEntry = { ...currentEntry, position, updatedAt: Date.now() };
+    return;
+  }
+
+  const info = getWatchPageInfo();
+  if (!info) {
+    return;
+  }
+
+  currentEntry = {
+    ...currentEntry,
+    title: info.title.slice(0, MAX_TEXT_LENGTH) || currentEntry.title,
+    uploaderId: info.uploaderId ?? currentEntry.uploaderId,
+    uploaderName: info.uploaderName?.slice(0, MAX_TEXT_LENGTH) ?? currentEntry.uploaderName,
+    tags: info.tags.length > 0 ? info.tags.slice(0, MAX_WATCH_HISTORY_TAGS) : currentEntry.tags,
+    duration: info.duration ?? currentEntry.duration,
+    position,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * 定期的に読み取り、変化があれば記録を更新する
+ */
+function handleSample(): void {
+  sampleCurrentEntry();
+  if (currentEntry && hasSignificantChange(currentEntry)) {
+    sendEntry(currentEntry);
+  }
+}
+
+/**
+ * 現在の記録を、変化があれば送る
+ * ページ遷移時は表示が次の動画に変わっているため、読み取り直さずに最後に読み取った値を送る
+ */
+function flushCurrentEntry(): void {
+  if (currentEntry && lastSent !== currentEntry) {
+    sendEntry(currentEntry);
+  }
+}
+
+/**
+ * ページを離れる際に最後の再生位置を記録する
+ */
+function setupPagehideListener(): void {
+  if (pagehideListenerSetup) {
+    return;
+  }
+  pagehideListenerSetup = true;
+
+  window.addEventListener('pagehide', () => {
+    sampleCurrentEntry();
+    flushCurrentEntry();
+  });
+}
+
+/**
+ * 設定を適用する
+ * 表示中の動画の訪問をまだ記録していない場合は、新しい訪問として記録を始める
+ * @param enabled - true: 記録する, false: 記録をやめる
+ */
+export function apply(enabled: boolean): FeatureApplyResult {
+  if (!enabled) {
+    teardown();
+    return 'disabled';
+  }
+
+  const videoId = getVideoId(window.location);
+  if (!videoId) {
+    return 'target_not_found';
+  }
+
+  if (currentEntry?.videoId !== videoId) {
+    flushCurrentEntry();
+    const now = Date.now();
+    currentEntry = {
+      id: createWatchHistoryId(),
+      videoId,
+      title: '',
+      uploaderId: null,
+      uploaderName: null,
+      tags: [],
+      duration: null,
+      position: null,
+      watchedAt: now,
+      updatedAt: now,
+    };
+    console.log(`[Better Niconico] 視聴履歴の記録を開始しました（${videoId}）`);
+    handleSample();
+  }
+
+  if (sampleTimer === null) {
+    sampleTimer = window.setInterval(handleSample, SAMPLE_INTERVAL_MS);
+  }
+  setupPagehideListener();
+
+  return 'applied';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * 現在の訪問の最後の状態を記録して終える
+ */
+export function teardown(): void {
+  flushCurrentEntry();
+  currentEntry = null;
+  lastSent = null;
+
+  if (sampleTimer !== null) {
+    clearInterval(sampleTimer);
+    sampleTimer = null;
+  }
+}
@@ -4,6 +4,11 @@
  * ただし、「この動画の親作品・子作品」と「ニコニ広告」のセクションは下部に残します
  */
 
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { SelectorKey } from '../selectors';
+import { queryTarget, getTargetSelectors } from '../selectors';
+import { setFeatureStatus } from '../featureStatus';
+
 // 処理済みマーカー属性
 const LAYOUT_MARKER = 'data-bn-layout';
 const LAYOUT_CLASSIC = 'classic';
@@ -11,17 +16,28 @@ const LAYOUT_DEFAULT = 'default';
 const BOTTOM_CONTAINER_ID = 'bn-bottom-sections';
 const BOTTOM_CONTAINER_MARKER = 'data-bn-bottom-container';
 
+// 再適用が必要になるDOM領域
+// 動画情報エリアの追加・更新時だけ apply が呼ばれる（プレイヤー内部の頻繁な変更は無視する）
+export const mutationTargets: readonly string[] = getTargetSelectors('watchBottomArea');
+
+// 依存するDOM要素（src/content/selectors.ts）
+export const selectorTargets: readonly SelectorKey[] = [
+  'watchPlayerArea',
+  'watchBottomArea',
+  'watchSidebar',
+  'detailInfoSection',
+  'playerFullscreen',
+];
+
+// 動画が切り替わると動画情報エリアが作り直されるため、ページ遷移時は teardown してから付け直す
+export const reattachOnRouteChange = true;
+
 // 現在の設定状態を保持（全画面表示から抜けた後の再適用に使用）
 let currentEnabled = false;
 
 // 全画面表示イベントリスナーのセットアップ状態
 let listenerSetup = false;
 
-// 動画視聴ページかどうかを判定
-function isWatchPage(): boolean {
-  return window.location.pathname.startsWith('/watch/');
-}
-
 /**
  * 全画面表示中かどうかを判定
  * Fullscreen APIを使用した確実な検出 + フォールバック
@@ -34,21 +50,15 @@ function isFullscreenMode(): boolean {
 
   // フォールバック: DOM要素ベースの検出
   // 全画面表示時には .grid-area_[player] の直下に .w_[100dvw].h_[100dvh] という要素が出現する
-  // 参考: https://github.com/Bymnet1845/niconico-classic
-  const fullscreenElement = document.querySelector('.grid-area_\\[player\\] > .w_\\[100dvw\\].h_\\[100dvh\\]');
-  return fullscreenElement !== null;
+  return queryTarget('playerFullscreen') !== null;
 }
 
 /**
  * 動画の詳細情報セクションを取得
  */
 function getDetailInfoSection(): HTMLElement | null {
-  const headings = Array.from(document.querySelectorAll('h1'));
-  const heading = headings.find(h => h.textContent?.includes('動画の詳細情報'));
-  if (!heading) return null;
-
-  // セクション全体を取得（最も近いSECTION要素を探す）
-  return heading.closest('section') as HTMLElement | null;
+  // 「動画の詳細情報」という見出しを含むセクション全体
+  return queryTarget('detailInfoSection');
 }
 
 /**
@@ -72,34 +82,30 @@ function getOrCreateBottomContainer(gridParent: HTMLElement): HTMLElement {
 /**
  * 動画情報を上部に移動する
  */
-function restoreClassicLayout(): void {
-  if (!isWatchPage()) {
-    return;
-  }
-
+function restoreClassicLayout(): FeatureApplyResult {
   // 全画面表示中の場合は、レイアウト変更をスキップ
   // 全画面表示中にグリッドレイアウトを変更すると画面が真っ暗になるため
   if (isFullscreenMode()) {
     console.log('[Better Niconico] 全画面表示中のため、クラシックレイアウトの適用をスキップします');
-    return;
+    return 'pending';
   }
 
   // 動画プレイヤーのエリア
-  const playerArea = document.querySelector('.grid-area_\\[player\\]') as HTMLElement;
+  const playerArea = queryTarget('watchPlayerArea');
 
   // 動画情報のエリア（タイトル、タグ、投稿者情報など）
-  const bottomArea = document.querySelector('.grid-area_\\[bottom\\]') as HTMLElement;
+  const bottomArea = queryTarget('watchBottomArea');
 
   // サイドバーエリア
-  const sidebar = document.querySelector('.grid-area_\\[sidebar\\]') as HTMLElement;
+  const sidebar = queryTarget('watchSidebar');
 
   if (!playerArea || !bottomArea || !sidebar || !playerArea.parentElement) {
-    return;
+    return 'target_not_found';
   }
 
   // すでにクラシックレイアウトの場合は何もしない
   if (playerArea.getAttribute(LAYOUT_MARKER) === LAYOUT_CLASSIC) {
-    return;
+    return 'applied';
   }
 
   const parent = playerArea.parentElement as HTMLElement;
@@ -108,7 +114,7 @@ function restoreClassicLayout(): void {
   const detailInfoSection = getDetailInfoSection();
   if (!detailInfoSection) {
     // 詳細情報セクションが見つからない場合は何もしない
-    return;
+    return 'target_not_found';
   }
 
   // 下部に移動するセクションを収集
@@ -128,7 +134,7 @@ function restoreClassicLayout(): void {
   });
 
   if (elementsToMove.length === 0) {
-    return;
+    return 'target_not_found';
   }
 
   // 下部セクション用のコンテナを作成
@@ -183,19 +189,16 @@ function restoreClassicLayout(): void {
   bottomArea.setAttribute(LAYOUT_MARKER, LAYOUT_CLASSIC);
 
   console.log('[Better Niconico] 動画情報を上部に移動しました（詳細情報以下は下部に保持）');
+  return 'applied';
 }
 
 /**
  * レイアウトを元に戻す（デフォルトの位置に戻す）
  */
 function restoreDefaultLayout(): void {
-  if (!isWatchPage()) {
-    return;
-  }
-
-  const playerArea = document.querySelector('.grid-area_\\[player\\]') as HTMLElement;
-  const bottomArea = document.querySelector('.grid-area_\\[bottom\\]') as HTMLElement;
-  const sidebar = document.querySelector('.grid-area_\\[sidebar\\]') as HTMLElement;
+  const playerArea = queryTarget('watchPlayerArea');
+  const bottomArea = queryTarget('watchBottomArea');
+  const sidebar = queryTarget('watchSidebar');
 
   if (!playerArea || !bottomArea || !playerArea.parentElement) {
     return;
@@ -256,60 +259,85 @@ function restoreDefaultLayout(): void {
   console.log('[Better Niconico] レイアウトを元に戻しました');
 }
 
+/**
+ * 全画面表示の切り替えに応じてレイアウトを切り替える
+ */
+function handleFullscreenChange(): void {
+  if (document.fullscreenElement) {
+    // 全画面表示に入った - 強制的にデフォルトレイアウトに戻す
+    console.log('[Better Niconico] 全画面表示に入りました。レイアウトをデフォルトに戻します。');
+    restoreDefaultLayout();
+    if (currentEnabled) {
+      setFeatureStatus('restoreClassicVideoLayout', 'pending');
+    }
+  } else {
+    // 全画面表示から抜けた - 設定がONなら自動的にクラシックレイアウトを再適用
+    console.log('[Better Niconico] 全画面表示から抜けました。');
+    if (currentEnabled) {
+      // DOM更新を待つために少し遅延させる
+      setTimeout(() => {
+        console.log('[Better Niconico] クラシックレイアウトを再適用します。');
+        setFeatureStatus('restoreClassicVideoLayout', restoreClassicLayout());
+      }, 100);
+    }
+  }
+}
+
 /**
  * 全画面表示イベントのリスナーをセットアップ
  * 全画面表示への遷移を確実に捕捉し、レイアウトを適切に切り替える
  */
 function setupFullscreenListener(): void {
-  if (!isWatchPage()) {
+  if (listenerSetup) {
     return;
   }
 
-  document.addEventListener('fullscreenchange', () => {
-    if (document.fullscreenElement) {
-      // 全画面表示に入った - 強制的にデフォルトレイアウトに戻す
-      console.log('[Better Niconico] 全画面表示に入りました。レイアウトをデフォルトに戻します。');
-      restoreDefaultLayout();
-    } else {
-      // 全画面表示から抜けた - 設定がONなら自動的にクラシックレイアウトを再適用
-      console.log('[Better Niconico] 全画面表示から抜けました。');
-      if (currentEnabled) {
-        // DOM更新を待つために少し遅延させる
-        setTimeout(() => {
-          console.log('[Better Niconico] クラシックレイアウトを再適用します。');
-          restoreClassicLayout();
-        }, 100);
-      }
-    }
-  });
+  document.addEventListener('fullscreenchange', handleFullscreenChange);
+  listenerSetup = true;
 
   console.log('[Better Niconico] 全画面表示イベントリスナーをセットアップしました');
 }
 
+/**
+ * 全画面表示イベントのリスナーを解除
+ */
+function removeFullscreenListener(): void {
+  document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  listenerSetup = false;
+}
+
 /**
  * 設定を適用する
  * @param enabled - true: クラシックレイアウト, false: デフォルトレイアウト
  */
-export function apply(enabled: boolean): void {
+export function apply(enabled: boolean): FeatureApplyResult {
   // 現在の設定状態を保存
   currentEnabled = enabled;
 
-  // 初回のみ全画面表示イベントリスナーをセットアップ
-  if (!listenerSetup && isWatchPage()) {
-    setupFullscreenListener();
-    listenerSetup = true;
-  }
+  // 全画面表示イベントリスナーをセットアップ（teardown 後は再度セットアップされる）
+  setupFullscreenListener();
 
   if (enabled) {
     // 全画面表示中は適用しない（fullscreenchangeイベントで処理）
     if (isFullscreenMode()) {
       console.log('[Better Niconico] 全画面表示中のため、クラシックレイアウトの適用をスキップします');
-      return;
+      return 'pending';
     }
 
     // 通常時はクラシックレイアウトを適用
-    restoreClassicLayout();
-  } else {
-    restoreDefaultLayout();
+    return restoreClassicLayout();
   }
+
+  restoreDefaultLayout();
+  return 'disabled';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * レイアウトをデフォルトに戻し、全画面表示イベントのリスナーも解除する
+ */
+export function teardown(): void {
+  currentEnabled = false;
+  restoreDefaultLayout();
+  removeFullscreenListener();
 }
@@ -0,0 +1,300 @@
+/**
+ * 続きから再生する機能
+ * 動画視聴ページで動画ごとの再生位置を定期的に保存し、同じ動画を開き直したときに前回の位置から再生できるようにします
+ *
+ * 再生位置は chrome.storage.local に動画IDごとに保存します
+ * 始まってすぐの位置は保存せず、最後まで見た（終わり際まで再生した）動画の再生位置は削除します
+ * 開き直したときの動作（ボタンを表示・自動で再生）と保存しておく日数は詳細設定で変更できます
+ */
+
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { ResumePosition } from '../../types/resumePlayback';
+import type { SelectorKey } from '../selectors';
+import { getVideoId } from '../../utils/pageClassifier';
+import { loadResumePosition, pruneResumePositions, saveResumePosition } from '../../utils/storage';
+import { isResumePositionExpired } from '../../utils/resumePlayback';
+import { formatPlaybackTime } from '../../utils/watchHistory';
+import { reportError } from '../../utils/errorLog';
+import { queryTarget } from '../selectors';
+import { getVideoElement } from '../playerVideo';
+import { getResumePlaybackSettings, hideResumePrompt, showResumePrompt } from '../resumePlayback';
+import { showToast } from '../toast';
+
+// 動画要素と再生位置を読み取る間隔
+const SAMPLE_INTERVAL_MS = 1000;
+
+// 始まってからこの秒数までの再生位置は保存しない
+const SKIP_START_SECONDS = 10;
+
+// 終わりまでの残りがこの秒数より短い再生位置は、最後まで見たものとして削除する
+const SKIP_END_SECONDS = 15;
+
+// 前回保存した位置からこの秒数以上進んだ（戻った）場合に保存し直す
+const SAVE_THRESHOLD_SECONDS = 5;
+
+// DOMの変化ではなくタイマーで読み取るため、DOM変更時の再適用は不要
+export const mutationTargets: readonly string[] = [];
+
+// 依存するDOM要素（src/content/selectors.ts）
+export const selectorTargets: readonly SelectorKey[] = ['watchPlayerArea', 'playerVideo'];
+
+// 動画ごとに再生位置を読み込み直すため、ページ遷移時は teardown してから適用し直す
+export const reattachOnRouteChange = true;
+
+// 表示中の動画のID（動画視聴ページ以外・機能がオフの場合は null）
+let currentVideoId: string | null = null;
+
+// 表示中の動画の保存された再生位置を読み込んだか
+let positionLoaded = false;
+
+// 表示中の動画の保存された再生位置（ない場合・期限切れの場合は null）
+let savedPosition: ResumePosition | null = null;
+
+// 続きから再生するかどうかの処理（ボタンの表示・自動での再生）を済ませたか
+let resumeHandled = false;
+
+// 最後に読み取った再生位置と動画の長さ
+let lastSample: { position: number; duration: number } | null = null;
+
+// 最後に保存した再生位置（削除した場合は null）
+let lastSavedPosition: number | null = null;
+
+// 最後に読み取った動画要素の src
+let currentVideoSrc: string | null = null;
+
+// 前の動画の動画要素の src（ページ遷移直後に残っている前の動画を読み取らないようにする）
+let staleVideoSrc: string | null = null;
+
+// 定期的に読み取るタイマー
+let sampleTimer: number | null = null;
+
+// ページを離れる際の保存のセットアップ済みフラグ
+let pagehideListenerSetup = false;
+
+/**
+ * 表示中の動画のメインコンテンツの動画要素を取得（見つからない・前の動画のものの場合は null）
+ */
+function getCurrentVideo(): HTMLVideoElement | null {
+  const video = getVideoElement();
+  if (!video || video.src === staleVideoSrc) {
+    return null;
+  }
+  return Number.isFinite(video.duration) && video.duration > 0 ? video : null;
+}
+
+/**
+ * 再生位置を保存する（null の場合は削除する）
+ */
+function persistPosition(videoId: string, position: ResumePosition | null): void {
+  lastSavedPosition = position?.position ?? null;
+  void saveResumePosition(videoId, position).mapErr((error) => {
+    console.error('[Better Niconico] 再生位置の保存に失敗しました:', error);
+    reportError(error, 'resumePlayback');
+  });
+}
+
+/**
+ * 最後に読み取った再生位置を、必要であれば保存する
+ * 始まってすぐの位置は保存せず（保存済みの位置も残す）、終わり際の位置は保存済みの位置を削除する
+ * @param force - true の場合は前回保存した位置との差にかかわらず保存する
+ */
+function saveLastSample(force: boolean): void {
+  if (!currentVideoId || !lastSample) {
+    return;
+  }
+
+  const { position, duration } = lastSample;
+  if (position < SKIP_START_SECONDS) {
+    return;
+  }
+
+  if (duration - position < SKIP_END_SECONDS) {
+    if (lastSavedPosition !== null || savedPosition !== null) {
+      savedPosition = null;
+      persistPosition(currentVideoId, null);
+    }
+    return;
+  }
+
+  if (
+    lastSavedPosition === null ||
+    Math.abs(position - lastSavedPosition) >= SAVE_THRESHOLD_SECONDS ||
+    (force && position !== lastSavedPosition)
+  ) {
+    persistPosition(currentVideoId, { position, duration, savedAt: Date.now() });
+  }
+}
+
+/**
+ * 保存された再生位置がある場合は、設定に合わせてボタンを表示するか自動で再生する
+ */
+function handleResume(video: HTMLVideoElement): void {
+  resumeHandled = true;
+  if (!savedPosition) {
+    return;
+  }
+
+  const { position } = savedPosition;
+  // すでに自分で再生を進めている場合や、動画が差し替えられて長さが合わない場合は何もしない
+  if (video.currentTime >= SKIP_START_SECONDS || video.duration - position < SKIP_END_SECONDS) {
+    return;
+  }
+
+  const label = formatPlaybackTime(position);
+  if (getResumePlaybackSettings().mode === 'auto') {
+    video.currentTime = position;
+    showToast(`前回の続き（${label}）から再生します`);
+    console.log(`[Better Niconico] 前回の続き（${label}）から再生しました`);
+    return;
+  }
+
+  const container = queryTarget('watchPlayerArea');
+  if (container) {
+    showResumePrompt(container, label, () => {
+      video.currentTime = position;
+    });
+  }
+}
+
+/**
+ * 動画要素から再生位置を読み取る（保存された再生位置の読み込み前・動画要素がない場合は null）
+ * 続きから再生する処理を済ませる前の位置は、保存する対象にしない
+ */
+function readSample(): HTMLVideoElement | null {
+  const video = getCurrentVideo();
+  if (!video || !positionLoaded) {
+    return null;
+  }
+
+  currentVideoSrc = video.src;
+  if (resumeHandled) {
+    lastSample = { position: video.currentTime, duration: video.duration };
+  }
+  return video;
+}
+
+/**
+ * 定期的に読み取り、続きから再生する処理と再生中の位置の保存を行う
+ */
+function handleSample(): void {
+  const video = readSample();
+  if (!video) {
+    return;
+  }
+
+  if (!resumeHandled) {
+    handleResume(video);
+    return;
+  }
+
+  if (!video.paused) {
+    saveLastSample(false);
+  }
+}
+
+/**
+ * 表示中の動画の保存された再生位置を読み込み、期限切れ・上限を超えた再生位置を削除する
+ */
+function loadSavedPosition(videoId: string): void {
+  const { expireDays } = getResumePlaybackSettings();
+  void pruneResumePositions(expireDays).mapErr((error) => {
+    console.error('[Better Niconico] 古い再生位置の削除に失敗しました:', error);
+    reportError(error, 'resumePlayback');
+  });
+
+  void loadResumePosition(videoId).match(
+    (position) => {
+      if (currentVideoId !== videoId) {
+        return;
+      }
+      savedPosition =
+        position && !isResumePositionExpired(position, Date.now(), expireDays)
+          ? position
+          : null;
+      lastSavedPosition = savedPosition?.position ?? null;
+      positionLoaded = true;
+    },
+    (error) => {
+      console.error('[Better Niconico] 再生位置の読み込みに失敗しました:', error);
+      reportError(error, 'resumePlayback');
+      // 読み込めなかった場合も、以降の再生位置は保存する
+      if (currentVideoId === videoId) {
+        positionLoaded = true;
+      }
+    },
+  );
+}
+
+/**
+ * ページを離れる際に最後の再生位置を保存する
+ */
+function setupPagehideListener(): void {
+  if (pagehideListenerSetup) {
+    return;
+  }
+  pagehideListenerSetup = true;
+
+  window.addEventListener('pagehide', () => {
+    readSample();
+    saveLastSample(true);
+  });
+}
+
+/**
+ * 設定を適用する
+ * 表示中の動画が変わった場合は、その動画の保存された再生位置を読み込み直す
+ * @param enabled - true: 再生位置を保存して続きから再生する, false: 何もしない
+ */
+export function apply(enabled: boolean): FeatureApplyResult {
+  if (!enabled) {
+    teardown();
+    return 'disabled';
+  }
+
+  const videoId = getVideoId(window.location);
+  if (!videoId) {
+    return 'target_not_found';
+  }
+
+  if (currentVideoId !== videoId) {
+    saveLastSample(true);
+    currentVideoId = videoId;
+    positionLoaded = false;
+    savedPosition = null;
+    resumeHandled = false;
+    lastSample = null;
+    lastSavedPosition = null;
+    loadSavedPosition(videoId);
+  }
+
+  if (sampleTimer === null) {
+    sampleTimer = window.setInterval(handleSample, SAMPLE_INTERVAL_MS);
+  }
+  setupPagehideListener();
+
+  return 'applied';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * 最後に読み取った再生位置を保存して終える
+ */
+export function teardown(): void {
+  saveLastSample(true);
+  hideResumePrompt();
+
+  // ページ遷移時は表示が次の動画に変わっている場合があるため、最後に読み取った動画要素を記録する
+  staleVideoSrc = currentVideoSrc;
+  currentVideoSrc = null;
+  currentVideoId = null;
+  positionLoaded = false;
+  savedPosition = null;
+  resumeHandled = false;
+  lastSample = null;
+  lastSavedPosition = null;
+
+  if (sampleTimer !== null) {
+    clearInterval(sampleTimer);
+    sampleTimer = null;
+  }
+}
@@ -5,8 +5,21 @@
  * 実装参考: https://github.com/Bymnet1845/niconico-classic
  */
 
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { SelectorKey } from '../selectors';
+
 const SQUARE_ICONS_CLASS = 'bn-square-icons';
 
+// CSSのみで動作するため、DOM変更時の再適用は不要
+export const mutationTargets: readonly string[] = [];
+
+// 依存するDOM要素（src/content/selectors.ts）
+// 形状の変更はCSS（index.css）で行うため、この登録はヘルスチェックにのみ使用する
+export const selectorTargets: readonly SelectorKey[] = ['profileIcon'];
+
+// <body> のクラスを切り替えるだけのため、ページ遷移時の付け直しは不要
+export const reattachOnRouteChange = false;
+
 /**
  * プロフィールアイコンを四角型にする
  */
@@ -35,10 +48,20 @@ function disableSquareIcons(): void {
  * 設定を適用する
  * @param enabled - true: 四角型, false: 丸型
  */
-export function apply(enabled: boolean): void {
+export function apply(enabled: boolean): FeatureApplyResult {
   if (enabled) {
     enableSquareIcons();
-  } else {
-    disableSquareIcons();
+    return 'applied';
   }
+
+  disableSquareIcons();
+  return 'disabled';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * プロフィールアイコンを丸型に戻す
+ */
+export function teardown(): void {
+  disableSquareIcons();
 }
@@ -0,0 +1,147 @@
+/**
+ * 動画一覧のNGフィルタ機能
+ * トップ・ランキング・検索・タグ検索の動画カードのうち、NGフィルタのルールに一致するものを
+ * 非表示にするか、「表示する」ボタン付きで折りたたみます
+ */
+
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { VideoFilterAction, VideoFilterRule } from '../../types/videoFilters';
+import type { SelectorKey } from '../selectors';
+import { VIDEO_FILTER_TYPE_LABELS } from '../../types/videoFilters';
+import { getTargetSelectors } from '../selectors';
+import { findVideoCards, getVideoCardInfo } from '../videoCards';
+import { getVideoFilters, matchVideoFilter } from '../videoFilters';
+
+// 一致した動画カードに付けるマーカー（値は "<ルールID>:<扱い>"）
+const FILTERED_MARKER = 'data-bn-filtered';
+
+// 「表示する」を押した動画カードに付けるマーカー（ページ内では再びフィルタしない）
+const REVEALED_MARKER = 'data-bn-filter-revealed';
+
+// 非表示・折りたたみのクラス
+const HIDDEN_CLASS = 'bn-video-filtered-hidden';
+const COLLAPSED_CLASS = 'bn-video-filtered';
+
+// 折りたたんだ動画カードに表示する要素のクラス
+const PLACEHOLDER_CLASS = 'bn-filter-placeholder';
+
+// 再適用が必要になるDOM領域（動画カードが追加されたときだけ apply が呼ばれる）
+export const mutationTargets: readonly string[] = getTargetSelectors('videoCard');
+
+// 依存するDOM要素（src/content/selectors.ts）
+export const selectorTargets: readonly SelectorKey[] = ['videoCard'];
+
+// ページ遷移後に追加された動画カードは mutationTargets 経由でフィルタされるため、付け直しは不要
+export const reattachOnRouteChange = false;
+
+/**
+ * 折りたたんだ動画カードに表示する要素を作成
+ */
+function createPlaceholder(card: HTMLElement, rule: VideoFilterRule): HTMLElement {
+  const placeholder = document.createElement('div');
+  placeholder.className = PLACEHOLDER_CLASS;
+
+  const reason = document.createElement('span');
+  reason.textContent = `NGフィルタ（${VIDEO_FILTER_TYPE_LABELS[rule.type]}: ${rule.value}）`;
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = '表示する';
+  button.addEventListener('click', (event) => {
+    // カード内のリンクへの遷移を防ぐ
+    event.preventDefault();
+    event.stopPropagation();
+    restoreCard(card);
+    card.setAttribute(REVEALED_MARKER, '');
+  });
+
+  placeholder.appendChild(reason);
+  placeholder.appendChild(button);
+  return placeholder;
+}
+
+/**
+ * 動画カードを非表示または折りたたみにする（冪等）
+ * @returns 新たにフィルタした場合は true
+ */
+function filterCard(card: HTMLElement, rule: VideoFilterRule, action: VideoFilterAction): boolean {
+  const marker = `${rule.id}:${action}`;
+  const hasPlaceholder = card.querySelector(`:scope > .${PLACEHOLDER_CLASS}`) !== null;
+  // ページ側の再描画で折りたたみの表示だけが消えた場合は付け直す
+  if (card.getAttribute(FILTERED_MARKER) === marker && (action === 'hide' || hasPlaceholder)) {
+    return false;
+  }
+
+  restoreCard(card);
+  card.setAttribute(FILTERED_MARKER, marker);
+  if (action === 'hide') {
+    card.classList.add(HIDDEN_CLASS);
+  } else {
+    card.classList.add(COLLAPSED_CLASS);
+    card.prepend(createPlaceholder(card, rule));
+  }
+  return true;
+}
+
+/**
+ * 動画カードを元の表示に戻す
+ */
+function restoreCard(card: HTMLElement): void {
+  card.removeAttribute(FILTERED_MARKER);
+  card.classList.remove(HIDDEN_CLASS, COLLAPSED_CLASS);
+  card.querySelector(`:scope > .${PLACEHOLDER_CLASS}`)?.remove();
+}
+
+/**
+ * 設定を適用する
+ * ルールの変更に合わせて、一致しなくなった動画カードは元に戻す
+ * @param enabled - true: NGフィルタを適用, false: すべての動画カードを元に戻す
+ */
+export function apply(enabled: boolean): FeatureApplyResult {
+  if (!enabled) {
+    teardown();
+    return 'disabled';
+  }
+
+  const cards = findVideoCards();
+  if (cards.length === 0) {
+    return 'target_not_found';
+  }
+
+  const { action } = getVideoFilters();
+  let filteredCount = 0;
+  for (const card of cards) {
+    if (card.hasAttribute(REVEALED_MARKER)) {
+      continue;
+    }
+
+    const info = getVideoCardInfo(card);
+    const rule = info ? matchVideoFilter(info) : null;
+    if (rule) {
+      if (filterCard(card, rule, action)) {
+        filteredCount++;
+      }
+    } else if (card.hasAttribute(FILTERED_MARKER)) {
+      restoreCard(card);
+    }
+  }
+
+  if (filteredCount > 0) {
+    console.log(`[Better Niconico] NGフィルタで ${filteredCount} 件の動画を${action === 'hide' ? '非表示' : '折りたたみ'}にしました`);
+  }
+
+  return 'applied';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * フィルタした動画カードをすべて元に戻す
+ */
+export function teardown(): void {
+  for (const card of document.querySelectorAll<HTMLElement>(`[${FILTERED_MARKER}]`)) {
+    restoreCard(card);
+  }
+  for (const card of document.querySelectorAll<HTMLElement>(`[${REVEALED_MARKER}]`)) {
+    card.removeAttribute(REVEALED_MARKER);
+  }
+}
@@ -12,10 +12,18 @@
  * - Canvas must replace video in the exact same position with same styling
  * - The render() function from anime4k-webgpu handles its own render loop using requestVideoFrameCallback
  * - Video src changes (navigation, playlist) are detected and upscaling is re-initialized
- * - Fullscreen mode automatically disables upscaling to prevent issues
+ * - The canvas follows the player into fullscreen (and any other resize): a ResizeObserver on the video's parent
+ *   copies the video's layout to the canvas again, and restarts upscaling when the output resolution changes
+ *   (scale "fit"). The native video is shown again only when rendering fails
+ * - Adaptive policy: the pipeline is chosen by the source height (selectUpscalingPipeline()), and a frame monitor
+ *   (src/content/upscalingMonitor.ts) switches to a cheaper pipeline or stops upscaling for the video when frames
+ *   are consistently missed. The decision is shown as a toast and in the popup's feature status
+ * - The pipeline (Anime4K preset or plain upscaler) and the output resolution come from UpscalingSettings
+ *   (src/content/videoUpscaling.ts). When they change, the running upscaling is cleaned up and started again
+ * - anime4k-webgpu (and its shaders) is loaded with a dynamic import() the first time upscaling starts,
+ *   so it is not part of the content script loaded on every nicovideo.jp page
  */
 
-import { render, ModeA } from 'anime4k-webgpu';
 import { Result, ok, err } from 'neverthrow';
 import type { WebGPUError, VideoError } from '../../types/errors';
 import {
@@ -27,6 +35,22 @@ import {
   videoDimensionsInvalidError,
   videoParentMissingError,
 } from '../../types/errors';
+import type { FeatureApplyResult, FeatureApplyStatus } from '../../types/featureStatus';
+import type { UpscalingPipeline, UpscalingScale, UpscalingSettings } from '../../types/upscaling';
+import { CHEAPER_UPSCALING_PIPELINES, UPSCALING_PIPELINE_LABELS } from '../../types/upscaling';
+import { isSameUpscalingSettings, selectUpscalingPipeline } from '../../utils/upscaling';
+import { reportError } from '../../utils/errorLog';
+import type { SelectorKey } from '../selectors';
+import { queryTarget, getTargetSelectors } from '../selectors';
+import { getVideoElement, isValidContentVideo } from '../playerVideo';
+import { setFeatureStatus } from '../featureStatus';
+import { getUpscalingSettings } from '../videoUpscaling';
+import type { FrameBudgetReport } from '../upscalingMonitor';
+import { startFrameMonitor, stopFrameMonitor } from '../upscalingMonitor';
+import { showToast } from '../toast';
+
+// 単体のアップスケーラーを重ねる最大回数（x4 を2倍のアップスケーラーで実現するため）
+const MAX_UPSCALER_PASSES = 2;
 
 // 処理済みマーカー属性
 const UPSCALING_MARKER = 'data-bn-upscaling';
@@ -37,12 +61,46 @@ const UPSCALING_INACTIVE = 'inactive';
 const CANVAS_ID = 'bn-upscaled-canvas';
 const CANVAS_MARKER = 'data-bn-canvas';
 
+// 再適用が必要になるDOM領域（プレイヤーエリアに動画要素が追加されたときだけ apply が呼ばれる）
+// プレイヤー内部の src 変更などは setupVideoObserver() が個別に監視する
+export const mutationTargets: readonly string[] = getTargetSelectors('playerVideo');
+
+// 依存するDOM要素（src/content/selectors.ts）
+export const selectorTargets: readonly SelectorKey[] = [
+  'watchPlayerArea',
+  'playerVideo',
+  'videoAdContainer',
+];
+
+// 表示サイズの変化が落ち着いてから出力解像度を変更するまでの待ち時間
+const RETARGET_DELAY_MS = 300;
+
+// 動画監視はその時点のプレイヤーエリアに紐付くため、ページ遷移時は teardown してから付け直す
+export const reattachOnRouteChange = true;
+
 // WebGPU対応状態のキャッシュ（初回チェック後は再利用）
 let webGPUSupportCache: boolean | null = null;
 
+// 動的に読み込む anime4k-webgpu のモジュール
+type Anime4KModule = typeof import('anime4k-webgpu');
+
+// anime4k-webgpu の読み込み（初回のみ読み込み、以降は同じ Promise を再利用）
+let anime4kModulePromise: Promise<Anime4KModule> | null = null;
+
+// anime4k-webgpu のパイプライン（render() の pipelineBuilder が返す要素）
+// render() は実行順に並べた1つ以上のパイプラインを受け取る
+type Anime4KPipeline = import('anime4k-webgpu').Anime4KPipeline;
+type Anime4KPipelines = [...Anime4KPipeline[], Anime4KPipeline];
+
+// 出力解像度（canvas の内部解像度）
+interface TargetDimensions {
+  width: number;
+  height: number;
+}
+
 // Note: anime4k-webgpu の render() 関数は signal パラメータをサポートしていません
 // render loop は requestVideoFrameCallback を使用しており、
-// canvas 要素を削除することで自動的に停止します
+// canvas 要素を削除し、pipelineBuilder で受け取った GPUDevice を破棄することで停止します
 
 // 現在処理中の動画のsrcを追跡（動画変更を検出するため）
 let currentVideoSrc: string | null = null;
@@ -50,43 +108,50 @@ let currentVideoSrc: string | null = null;
 // 現在の動画要素への参照（動画変更を検出するため）
 let currentVideoElement: HTMLVideoElement | null = null;
 
-// 現在の設定状態（全画面モード対応のため）
+// 現在の設定状態（非同期処理の完了時・動画の変更時に参照する）
 let currentEnabled: boolean = false;
 
-// 動画監視用のMutationObserver
-let videoObserver: MutationObserver | null = null;
+// 現在のアップスケーリングで使用している設定（設定の変更を検出するため）
+let activeSettings: UpscalingSettings | null = null;
 
-// 全画面モードイベントリスナーのセットアップ済みフラグ
-let fullscreenListenerSetup: boolean = false;
+// 現在のアップスケーリングで使用しているパイプライン
+let activePipeline: UpscalingPipeline | null = null;
 
 /**
- * 動画視聴ページかどうかを判定
+ * 描画の負荷から決めた、動画で使用するパイプライン
+ * 開始し直しても同じ判断を使い、動画や設定が変わると破棄する
  */
-function isWatchPage(): boolean {
-  return window.location.pathname.startsWith('/watch/');
+interface AdaptiveDecision {
+  videoSrc: string;
+  settings: UpscalingSettings;
+  // 使用するパイプライン（null: この動画ではアップスケーリングを停止する）
+  pipeline: UpscalingPipeline | null;
+  // 利用者に知らせた内容（ポップアップの状態にも表示する）
+  message: string;
 }
 
-/**
- * 全画面モードかどうかを判定
- */
-function isFullscreenMode(): boolean {
-  // Fullscreen APIを優先的に使用
-  if (document.fullscreenElement) {
-    return true;
-  }
+let adaptiveDecision: AdaptiveDecision | null = null;
 
-  // フォールバック: DOMベースの検出
-  // 全画面モード時、プレイヤーエリアに100dvw x 100dvhの要素が存在する
-  const playerArea = document.querySelector('.grid-area_\\[player\\]');
-  if (playerArea) {
-    const fullscreenElement = playerArea.querySelector('.w_\\[100dvw\\].h_\\[100dvh\\]');
-    if (fullscreenElement) {
-      return true;
-    }
-  }
+// 高さの上限を超えたためアップスケーリングしなかった動画の src（同じ動画でログを繰り返さないため）
+let skippedVideoSrc: string | null = null;
 
-  return false;
-}
+// 現在のアップスケーリングで使用している GPUDevice（停止時に破棄して GPU メモリを解放する）
+let currentDevice: GPUDevice | null = null;
+
+// アップスケーリングの開始処理中か（同時に複数の canvas・レンダリングループを作らないようにする）
+let upscalingInProgress = false;
+
+// 開始処理中に再度開始が要求されたか（処理の完了後に、最新の状態で開始し直す）
+let upscalingRequested = false;
+
+// 動画監視用のMutationObserver
+let videoObserver: MutationObserver | null = null;
+
+// 動画の表示領域（video の親要素）のサイズ変化の監視（全画面表示の切り替えなど）
+let layoutObserver: ResizeObserver | null = null;
+
+// 出力解像度の変更を待つタイマー
+let retargetTimer: number | null = null;
 
 /**
  * WebGPU対応ブラウザかどうかを判定（結果をキャッシュ）
@@ -118,70 +183,31 @@ async function isWebGPUSupported(): Promise<Result<boolean, WebGPUError>> {
   } catch (error) {
     const gpuError = webgpuInitializationFailedError('WebGPU initialization failed', error);
     console.warn('[Better Niconico]', gpuError.message, error);
+    reportError(gpuError, 'enableVideoUpscaling');
     webGPUSupportCache = false;
     return err(gpuError);
   }
 }
 
 /**
- * 動画要素が広告かどうかを判定
+ * anime4k-webgpu を読み込む（Result型を返す）
+ * 別チャンクに分割されており、アップスケーリングを開始するときに初めて読み込まれる
+ * 読み込みに失敗した場合は、次回の有効化時に読み込み直す
  */
-function isAdVideo(video: HTMLVideoElement): boolean {
-  // 広告コンテナ内の動画は除外
-  const adContainer = document.getElementById('nv_watch_VideoAdContainer');
-  if (adContainer && adContainer.contains(video)) {
-    return true;
+async function loadAnime4K(): Promise<Result<Anime4KModule, WebGPUError>> {
+  if (!anime4kModulePromise) {
+    anime4kModulePromise = import('anime4k-webgpu');
   }
-  return false;
-}
-
-/**
- * 有効な動画要素かどうかを判定
- * - src が存在する
- * - videoWidth と videoHeight が 0 より大きい
- * - 広告動画ではない
- */
-function isValidContentVideo(video: HTMLVideoElement): boolean {
-  return (
-    video.src !== '' &&
-    video.videoWidth > 0 &&
-    video.videoHeight > 0 &&
-    !isAdVideo(video)
-  );
-}
-
-/**
- * メインコンテンツの動画要素を取得
- * - 複数の video 要素から、実際のコンテンツ動画を特定
- * - 広告動画は除外
- * - 空のプレースホルダー動画は除外
- * - より確実にメインコンテンツ動画を特定するため、複数の条件をチェック
- */
-function getVideoElement(): HTMLVideoElement | null {
-  // プレイヤーエリア内のすべてのvideo要素を取得
-  const playerArea = document.querySelector('.grid-area_\\[player\\]');
-  if (!playerArea) {
-    return null;
-  }
-
-  const videos = Array.from(playerArea.querySelectorAll('video')) as HTMLVideoElement[];
-
-  // 有効なコンテンツ動画を探す（広告とプレースホルダーを除外）
-  // より確実に特定するため、readyStateもチェック
-  let bestVideo: HTMLVideoElement | null = null;
-  let bestReadyState = -1;
 
-  for (const video of videos) {
-    if (isValidContentVideo(video)) {
-      // readyStateが高い動画を優先（よりロード済みの動画）
-      if (video.readyState > bestReadyState) {
-        bestVideo = video;
-        bestReadyState = video.readyState;
-      }
-    }
+  try {
+    return ok(await anime4kModulePromise);
+  } catch (error) {
+    anime4kModulePromise = null;
+    const loadError = webgpuInitializationFailedError('Failed to load Anime4K-WebGPU', error);
+    console.error('[Better Niconico]', loadError.message, error);
+    reportError(loadError, 'enableVideoUpscaling');
+    return err(loadError);
   }
-
-  return bestVideo;
 }
 
 /**
@@ -207,11 +233,104 @@ function hasVideoChanged(video: HTMLVideoElement | null): boolean {
   return false;
 }
 
+/**
+ * 設定された出力解像度を求める
+ * fit の場合はプレイヤーでの表示サイズ（デバイスピクセル）に動画の縦横比を保って収まる大きさにする
+ * 表示サイズが動画の解像度より小さい場合は、動画の解像度のままにする
+ * @param rect - video要素の表示サイズ（syncCanvasLayout() の戻り値）
+ */
+function getTargetDimensions(video: HTMLVideoElement, scale: UpscalingScale, rect: DOMRect): TargetDimensions {
+  if (scale !== 'fit') {
+    const factor = scale === 'x4' ? 4 : 2;
+    return { width: video.videoWidth * factor, height: video.videoHeight * factor };
+  }
+
+  const displayFactor = Math.min(
+    (rect.width * window.devicePixelRatio) / video.videoWidth,
+    (rect.height * window.devicePixelRatio) / video.videoHeight,
+  );
+  const factor = Number.isFinite(displayFactor) ? Math.max(1, displayFactor) : 1;
+  return {
+    width: Math.round(video.videoWidth * factor),
+    height: Math.round(video.videoHeight * factor),
+  };
+}
+
+/**
+ * 単体のアップスケーラーを、出力解像度に届くまで重ねる（最大 MAX_UPSCALER_PASSES 回）
+ * 出力解像度との差は render() が canvas に描画する際に拡大・縮小する
+ */
+function chainUpscalers(
+  Upscaler: new (descriptor: { device: GPUDevice; inputTexture: GPUTexture }) => Anime4KPipeline,
+  factor: number,
+  device: GPUDevice,
+  inputTexture: GPUTexture,
+  target: TargetDimensions,
+): Anime4KPipelines {
+  let upscaler = new Upscaler({ device, inputTexture });
+  const pipelines: Anime4KPipelines = [upscaler];
+  let width = inputTexture.width * factor;
+  while (width < target.width && pipelines.length < MAX_UPSCALER_PASSES) {
+    upscaler = new Upscaler({ device, inputTexture: upscaler.getOutputTexture() });
+    pipelines.push(upscaler);
+    width *= factor;
+  }
+  return pipelines;
+}
+
+/**
+ * 設定されたパイプラインを組み立てる（render() の pipelineBuilder から呼ばれる）
+ */
+function buildPipelines(
+  anime4k: Anime4KModule,
+  pipeline: UpscalingPipeline,
+  device: GPUDevice,
+  inputTexture: GPUTexture,
+  target: TargetDimensions,
+): Anime4KPipelines {
+  const presetDescriptor = {
+    device,
+    inputTexture,
+    nativeDimensions: { width: inputTexture.width, height: inputTexture.height },
+    targetDimensions: target,
+  };
+
+  switch (pipeline) {
+    case 'modeA':
+      return [new anime4k.ModeA(presetDescriptor)];
+    case 'modeB':
+      return [new anime4k.ModeB(presetDescriptor)];
+    case 'modeC':
+      return [new anime4k.ModeC(presetDescriptor)];
+    case 'modeAA':
+      return [new anime4k.ModeAA(presetDescriptor)];
+    case 'modeBB':
+      return [new anime4k.ModeBB(presetDescriptor)];
+    case 'modeCA':
+      return [new anime4k.ModeCA(presetDescriptor)];
+    case 'cnnx2m':
+      return chainUpscalers(anime4k.CNNx2M, 2, device, inputTexture, target);
+    case 'cnnx2vl':
+      return chainUpscalers(anime4k.CNNx2VL, 2, device, inputTexture, target);
+    case 'cnnx2ul':
+      return chainUpscalers(anime4k.CNNx2UL, 2, device, inputTexture, target);
+    case 'denoiseCnnx2vl':
+      return chainUpscalers(anime4k.DenoiseCNNx2VL, 2, device, inputTexture, target);
+    case 'ganx3l':
+      return chainUpscalers(anime4k.GANx3L, 3, device, inputTexture, target);
+    case 'ganx4uul':
+      return chainUpscalers(anime4k.GANx4UUL, 4, device, inputTexture, target);
+  }
+}
+
 /**
  * Canvas要素を作成してvideo要素と全く同じ位置・スタイルで配置
  * Result型を返す
  */
-function createUpscaledCanvas(video: HTMLVideoElement): Result<HTMLCanvasElement, VideoError> {
+function createUpscaledCanvas(
+  video: HTMLVideoElement,
+  scale: UpscalingScale,
+): Result<HTMLCanvasElement, VideoError> {
   // videoの親要素チェック
   if (!video.parentElement) {
     const error = videoParentMissingError('Video element has no parent');
@@ -242,19 +361,31 @@ function createUpscaledCanvas(video: HTMLVideoElement): Result<HTMLCanvasElement
     video.parentElement.insertBefore(canvas, video.nextSibling);
   }
 
-  // videoの現在の計算済みスタイルを取得
-  const computedStyle = window.getComputedStyle(video);
+  // Canvasの表示スタイルをvideoと一致させ、内部の解像度を設定
+  const rect = syncCanvasLayout(video, canvas);
+  const target = getTargetDimensions(video, scale, rect);
+  canvas.width = target.width;
+  canvas.height = target.height;
+
+  return ok(canvas);
+}
 
-  // アップスケーリング倍率（2倍）
-  const targetWidth = video.videoWidth * 2;
-  const targetHeight = video.videoHeight * 2;
+/**
+ * Canvasの表示スタイルをvideoと完全に一致させ、video要素の表示サイズを返す
+ * アップスケーリング中は video が非表示のため、一時的に表示して計算済みスタイルを読み取る
+ * （描画される前に非表示に戻すため、表示はちらつかない）
+ */
+function syncCanvasLayout(video: HTMLVideoElement, canvas: HTMLCanvasElement): DOMRect {
+  const hidden = video.style.display === 'none';
+  if (hidden) {
+    video.style.display = '';
+  }
 
-  // Canvas内部の解像度を設定
-  canvas.width = targetWidth;
-  canvas.height = targetHeight;
+  // videoの現在の計算済みスタイルを取得
+  const computedStyle = window.getComputedStyle(video);
 
-  // Canvasの表示スタイルをvideoと完全に一致させる
   // position: absolute を維持し、videoと同じ配置とサイズにする
+  // object-fit も写すため、表示領域と縦横比が異なる場合（全画面表示など）も動画の縦横比を保つ
   canvas.style.cssText = `
     position: ${computedStyle.position};
     top: ${computedStyle.top};
@@ -272,7 +403,11 @@ function createUpscaledCanvas(video: HTMLVideoElement): Result<HTMLCanvasElement
   // videoのクラスをコピー（レイアウトを維持）
   canvas.className = video.className;
 
-  return ok(canvas);
+  const rect = video.getBoundingClientRect();
+  if (hidden) {
+    video.style.display = 'none';
+  }
+  return rect;
 }
 
 /**
@@ -343,23 +478,57 @@ async function waitForVideoReady(
 }
 
 /**
- * アップスケーリングを有効化（Result型を使用）
+ * 非同期処理の結果をポップアップ用の適用結果に反映する
+ * 処理中に設定がオフになった場合は、apply() が返した結果を上書きしない
+ */
+function reportUpscalingStatus(status: FeatureApplyStatus, message?: string): void {
+  if (currentEnabled) {
+    setFeatureStatus('enableVideoUpscaling', status, message);
+  }
+}
+
+/**
+ * 現在のアップスケーリングの状態を適用結果として取得
+ * 有効化の処理が完了していない場合は pending（完了時に reportUpscalingStatus() で更新する）
+ */
+function getUpscalingStatus(): FeatureApplyResult {
+  const video = getVideoElement();
+  if (!video) {
+    return 'target_not_found';
+  }
+
+  return video.getAttribute(UPSCALING_MARKER) === UPSCALING_ACTIVE ? 'applied' : 'pending';
+}
+
+/**
+ * アップスケーリングを有効化する
+ * 開始処理中に呼ばれた場合は、処理の完了後に最新の動画・設定で開始し直す
  */
 async function enableUpscaling(): Promise<void> {
-  if (!isWatchPage()) {
+  if (upscalingInProgress) {
+    upscalingRequested = true;
     return;
   }
 
-  // 全画面モードの場合はアップスケーリングを無効化
-  if (isFullscreenMode()) {
-    console.log('[Better Niconico] 全画面表示中のため、動画アップスケーリングを無効化します');
-    // 既存のアップスケーリングがあればクリーンアップ
-    if (currentVideoElement) {
-      cleanupUpscaling(currentVideoElement);
+  upscalingInProgress = true;
+  try {
+    await startUpscaling();
+  } finally {
+    upscalingInProgress = false;
+  }
+
+  if (upscalingRequested) {
+    upscalingRequested = false;
+    if (currentEnabled) {
+      await enableUpscaling();
     }
-    return;
   }
+}
 
+/**
+ * アップスケーリングを開始する（Result型を使用）
+ */
+async function startUpscaling(): Promise<void> {
   const video = getVideoElement();
   if (!video) {
     // 動画要素が見つからない場合は静かに終了
@@ -378,8 +547,18 @@ async function enableUpscaling(): Promise<void> {
     currentVideoSrc = null;
   }
 
+  // パイプライン・出力解像度などの設定が変更された場合は、新しい設定で開始し直す
+  const settings = getUpscalingSettings();
+  if (
+    video.getAttribute(UPSCALING_MARKER) === UPSCALING_ACTIVE &&
+    (activeSettings === null || !isSameUpscalingSettings(activeSettings, settings))
+  ) {
+    console.log('[Better Niconico] 動画アップスケーリングの設定が変更されました。新しい設定で開始し直します');
+    cleanupUpscaling(video);
+  }
+
   // すでに有効化されている場合は何もしない（冪等性）
-  // ただし、動画が変更された場合は上記でクリーンアップ済み
+  // ただし、動画や設定が変更された場合は上記でクリーンアップ済み
   if (video.getAttribute(UPSCALING_MARKER) === UPSCALING_ACTIVE) {
     return;
   }
@@ -388,6 +567,7 @@ async function enableUpscaling(): Promise<void> {
   const gpuSupportedResult = await isWebGPUSupported();
   if (gpuSupportedResult.isErr()) {
     console.error('[Better Niconico] Video upscaling requires WebGPU support:', gpuSupportedResult.error);
+    reportUpscalingStatus('error', gpuSupportedResult.error.message);
     return;
   }
 
@@ -395,50 +575,81 @@ async function enableUpscaling(): Promise<void> {
   const videoReadyResult = await waitForVideoReady(video);
   if (videoReadyResult.isErr()) {
     console.warn('[Better Niconico] Video not ready:', videoReadyResult.error);
+    reportUpscalingStatus('error', videoReadyResult.error.message);
     return;
   }
 
+  // 動画の高さと描画の負荷による判断から、使用するパイプラインを決める
+  if (
+    adaptiveDecision &&
+    (adaptiveDecision.videoSrc !== video.src || !isSameUpscalingSettings(adaptiveDecision.settings, settings))
+  ) {
+    adaptiveDecision = null;
+  }
+  const pipeline = adaptiveDecision ? adaptiveDecision.pipeline : selectUpscalingPipeline(settings, video.videoHeight);
+  if (!pipeline) {
+    const message =
+      adaptiveDecision?.message ??
+      `動画の高さ（${video.videoHeight}px）が上限（${settings.maxSourceHeight}px）を超えているため、アップスケーリングしません`;
+    if (skippedVideoSrc !== video.src) {
+      skippedVideoSrc = video.src;
+      console.log('[Better Niconico]', message);
+    }
+    // 高さの上限・描画の負荷によってこの動画ではアップスケーリングしないため、適用中とは表示しない
+    reportUpscalingStatus('not_applicable', message);
+    return;
+  }
+
+  // Anime4K-WebGPU を読み込む（WebGPU に対応し、アップスケーリングする動画の場合のみ）
+  const anime4kResult = await loadAnime4K();
+  if (anime4kResult.isErr()) {
+    reportUpscalingStatus('error', anime4kResult.error.message);
+    return;
+  }
+
+  const anime4k = anime4kResult.value;
+
   // Canvas作成
-  const canvasResult = createUpscaledCanvas(video);
+  const canvasResult = createUpscaledCanvas(video, settings.scale);
   if (canvasResult.isErr()) {
     console.error('[Better Niconico] Failed to create canvas:', canvasResult.error);
+    reportError(canvasResult.error, 'enableVideoUpscaling');
+    reportUpscalingStatus('error', canvasResult.error.message);
     return;
   }
 
   const canvas = canvasResult.value;
 
   console.log('[Better Niconico] Starting video upscaling with Anime4K-WebGPU', {
+    pipeline,
     nativeResolution: `${video.videoWidth}x${video.videoHeight}`,
     targetResolution: `${canvas.width}x${canvas.height}`,
     videoSrc: video.src.substring(0, 50) + (video.src.length > 50 ? '...' : ''),
   });
 
   try {
-    // Anime4K-WebGPUのrender関数でアップスケーリングを開始
-    // ModeAプリセット: Clamp Highlights → Restore (CNNVL) → Upscale (CNNx2VL/CNNx2M)
+    // Anime4K-WebGPUのrender関数で、設定されたパイプラインでアップスケーリングを開始
     // render()関数は自動的にrequestVideoFrameCallbackを使ってレンダリングループを開始する
-    // render loopはcanvas.remove()で自動的に停止される
-    await render({
+    // パイプラインの出力は canvas の内部解像度に合わせて描画される
+    await anime4k.render({
       video,
       canvas,
       pipelineBuilder: (device, inputTexture) => {
-        return [
-          new ModeA({
-            device,
-            inputTexture,
-            nativeDimensions: {
-              width: video.videoWidth,
-              height: video.videoHeight,
-            },
-            targetDimensions: {
-              width: canvas.width,
-              height: canvas.height,
-            },
-          }),
-        ];
+        currentDevice = device;
+        watchDeviceLost(device);
+        return buildPipelines(anime4k, pipeline, device, inputTexture, {
+          width: canvas.width,
+          height: canvas.height,
+        });
       },
     });
 
+    // 開始処理中に停止された（canvas が削除された・設定がオフになった）場合は、開始したレンダリングを破棄する
+    if (!canvas.isConnected || !currentEnabled) {
+      cleanupUpscaling(video);
+      return;
+    }
+
     // video要素を非表示にしてcanvasを表示
     // render()関数が開始した後に行う
     video.style.display = 'none';
@@ -447,11 +658,22 @@ async function enableUpscaling(): Promise<void> {
     // マーカーを設定
     video.setAttribute(UPSCALING_MARKER, UPSCALING_ACTIVE);
 
-    // 現在の動画情報を記録
+    // 現在の動画情報と設定を記録
     currentVideoElement = video;
     currentVideoSrc = video.src;
+    activeSettings = settings;
+    activePipeline = pipeline;
+
+    // 全画面表示の切り替えなどで表示サイズが変わったら canvas を合わせる
+    observeVideoLayout(video);
+
+    // 描画が間に合っているかを監視する
+    if (settings.adaptive && currentDevice) {
+      startFrameMonitor(currentDevice, handleOverBudget);
+    }
 
     console.log('[Better Niconico] Video upscaling enabled successfully');
+    reportUpscalingStatus('applied', adaptiveDecision?.message);
   } catch (error) {
     // AbortErrorは正常なクリーンアップなのでログに出さない
     if (error instanceof Error && error.name === 'AbortError') {
@@ -461,6 +683,8 @@ async function enableUpscaling(): Promise<void> {
 
     const renderError = webgpuRenderFailedError('Failed to render video upscaling', error);
     console.error('[Better Niconico]', renderError.message, error);
+    reportError(renderError, 'enableVideoUpscaling');
+    reportUpscalingStatus('error', renderError.message);
 
     // エラー時のクリーンアップ
     cleanupUpscaling(video);
@@ -481,6 +705,14 @@ function cleanupUpscaling(video: HTMLVideoElement | null): void {
     canvas.remove();
   }
 
+  // GPUDevice を破棄し、パイプラインが確保したテクスチャなどの GPU メモリを解放する
+  currentDevice?.destroy();
+  currentDevice = null;
+  activeSettings = null;
+  activePipeline = null;
+  stopLayoutObserver();
+  stopFrameMonitor();
+
   // video要素を再表示
   if (video) {
     video.style.display = '';
@@ -488,7 +720,7 @@ function cleanupUpscaling(video: HTMLVideoElement | null): void {
   }
 
   // すべてのvideoのマーカーをクリア（念のため）
-  const playerArea = document.querySelector('.grid-area_\\[player\\]');
+  const playerArea = queryTarget('watchPlayerArea');
   if (playerArea) {
     const videos = playerArea.querySelectorAll('video');
     videos.forEach((v) => {
@@ -512,36 +744,105 @@ function disableUpscaling(): void {
 }
 
 /**
- * 全画面表示イベントのリスナーをセットアップ
- * 全画面表示への遷移を確実に捕捉し、アップスケーリングを適切に切り替える
+ * レンダリング中に GPUDevice が失われた場合（GPU のリセットなど）は、元の動画の表示に戻す
+ * 停止時に destroy() した場合は currentDevice が切り替わっているため何もしない
+ */
+function watchDeviceLost(device: GPUDevice): void {
+  void device.lost.then((info) => {
+    if (currentDevice !== device || info.reason === 'destroyed') {
+      return;
+    }
+
+    const lostError = webgpuRenderFailedError('WebGPU device was lost during upscaling', info.message);
+    console.error('[Better Niconico]', lostError.message, info);
+    reportError(lostError, 'enableVideoUpscaling');
+    reportUpscalingStatus('error', lostError.message);
+    cleanupUpscaling(currentVideoElement);
+  });
+}
+
+/**
+ * 描画が間に合っていない状態が続いた場合に、1段階軽いパイプラインで開始し直す
+ * これ以上軽くできない場合は、この動画ではアップスケーリングを停止して元の動画を表示する
  */
-function setupFullscreenListener(): void {
-  if (!isWatchPage() || fullscreenListenerSetup) {
+function handleOverBudget(report: FrameBudgetReport): void {
+  const video = currentVideoElement;
+  if (!video || !activeSettings || !activePipeline) {
     return;
   }
 
-  document.addEventListener('fullscreenchange', () => {
-    if (document.fullscreenElement) {
-      // 全画面表示に入った - アップスケーリングを無効化
-      console.log('[Better Niconico] 全画面表示に入りました。動画アップスケーリングを無効化します。');
-      if (currentVideoElement) {
-        cleanupUpscaling(currentVideoElement);
-      }
-    } else {
-      // 全画面表示から抜けた - 設定がONなら自動的にアップスケーリングを再適用
-      console.log('[Better Niconico] 全画面表示から抜けました。');
-      if (currentEnabled) {
-        // DOM更新を待つために少し遅延させる
-        setTimeout(() => {
-          console.log('[Better Niconico] 動画アップスケーリングを再適用します。');
-          void enableUpscaling();
-        }, 100);
-      }
+  const cheaper = CHEAPER_UPSCALING_PIPELINES[activePipeline];
+  const message = cheaper
+    ? `描画が間に合わないため、アップスケーリングを ${UPSCALING_PIPELINE_LABELS[activePipeline]} から ${UPSCALING_PIPELINE_LABELS[cheaper]} に切り替えました`
+    : '描画が間に合わないため、この動画ではアップスケーリングを停止しました';
+  console.warn('[Better Niconico]', message, report);
+  showToast(message);
+
+  adaptiveDecision = { videoSrc: video.src, settings: activeSettings, pipeline: cheaper, message };
+  cleanupUpscaling(video);
+  void enableUpscaling();
+}
+
+/**
+ * 表示サイズの変化に合わせて canvas の配置を更新し、出力解像度が変わる場合は開始し直す
+ * 出力解像度を変えるにはパイプラインを組み立て直す必要があるため、変化が落ち着いてから行う
+ */
+function handleLayoutChange(): void {
+  const video = currentVideoElement;
+  const canvas = document.getElementById(CANVAS_ID) as HTMLCanvasElement | null;
+  if (!video || !canvas || !activeSettings) {
+    return;
+  }
+
+  // サイズが元に戻った場合も含め、待っている変更は最新のサイズで判断し直す
+  if (retargetTimer !== null) {
+    clearTimeout(retargetTimer);
+    retargetTimer = null;
+  }
+
+  const rect = syncCanvasLayout(video, canvas);
+  const target = getTargetDimensions(video, activeSettings.scale, rect);
+  if (target.width === canvas.width && target.height === canvas.height) {
+    return;
+  }
+
+  retargetTimer = window.setTimeout(() => {
+    retargetTimer = null;
+    if (!currentEnabled || currentVideoElement !== video) {
+      return;
     }
-  });
+    console.log(
+      `[Better Niconico] 表示サイズが変わりました。出力解像度 ${target.width}x${target.height} で開始し直します`,
+    );
+    cleanupUpscaling(video);
+    void enableUpscaling();
+  }, RETARGET_DELAY_MS);
+}
+
+/**
+ * 動画の表示領域（video の親要素）のサイズ変化の監視を開始する
+ * 全画面表示の切り替え（Fullscreen API・プレイヤー独自の全画面表示）とウィンドウのサイズ変更の両方を捕捉する
+ */
+function observeVideoLayout(video: HTMLVideoElement): void {
+  stopLayoutObserver();
+  if (!video.parentElement) {
+    return;
+  }
+
+  layoutObserver = new ResizeObserver(handleLayoutChange);
+  layoutObserver.observe(video.parentElement);
+}
 
-  fullscreenListenerSetup = true;
-  console.log('[Better Niconico] 全画面表示イベントリスナーをセットアップしました');
+/**
+ * 表示サイズの監視を停止
+ */
+function stopLayoutObserver(): void {
+  layoutObserver?.disconnect();
+  layoutObserver = null;
+  if (retargetTimer !== null) {
+    clearTimeout(retargetTimer);
+    retargetTimer = null;
+  }
 }
 
 /**
@@ -549,11 +850,11 @@ function setupFullscreenListener(): void {
  * src変更や動画の切り替えを検出する
  */
 function setupVideoObserver(): void {
-  if (!isWatchPage() || videoObserver) {
+  if (videoObserver) {
     return;
   }
 
-  const playerArea = document.querySelector('.grid-area_\\[player\\]');
+  const playerArea = queryTarget('watchPlayerArea');
   if (!playerArea) {
     return;
   }
@@ -622,18 +923,28 @@ function stopVideoObserver(): void {
  * 設定を適用する（冪等性を保証）
  * @param enabled - true: アップスケーリング有効, false: アップスケーリング無効
  */
-export function apply(enabled: boolean): void {
+export function apply(enabled: boolean): FeatureApplyResult {
   currentEnabled = enabled;
 
   if (enabled) {
-    // 全画面表示イベントリスナーをセットアップ（初回のみ）
-    setupFullscreenListener();
     // 動画要素監視をセットアップ（初回のみ）
     setupVideoObserver();
     void enableUpscaling();
-  } else {
-    disableUpscaling();
-    // 動画監視を停止
-    stopVideoObserver();
+    return getUpscalingStatus();
   }
+
+  disableUpscaling();
+  // 動画監視を停止
+  stopVideoObserver();
+  return 'disabled';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * アップスケーリングを停止し、表示サイズと動画の監視も解除する
+ */
+export function teardown(): void {
+  currentEnabled = false;
+  disableUpscaling();
+  stopVideoObserver();
 }
@@ -0,0 +1,367 @@
+/**
+ * 「あとで見る」キュー機能
+ * 動画一覧の動画カードに「あとで見る」ボタンを追加し、動画視聴ページのサイドバーにキューのパネルを表示します
+ * パネルではドラッグで並べ替えができ、動画の再生が終わるとキューの次の動画に移動します
+ *
+ * キューは拡張機能内（chrome.storage.local）に保存するため、ニコニコ動画のサーバーとの通信はありません
+ */
+
+import type { FeatureApplyResult } from '../../types/featureStatus';
+import type { WatchQueueEntry } from '../../types/watchQueue';
+import type { SelectorKey } from '../selectors';
+import { getVideoId } from '../../utils/pageClassifier';
+import { createWatchQueueEntry, getWatchQueueDropIndex } from '../../utils/watchQueue';
+import { getTargetSelectors, queryTarget } from '../selectors';
+import { findVideoCards, getVideoCardInfo } from '../videoCards';
+import { getVideoElement } from '../playerVideo';
+import { getWatchPageInfo } from '../watchPageInfo';
+import { showToast } from '../toast';
+import {
+  addToWatchQueue,
+  advanceWatchQueue,
+  getWatchQueue,
+  isInWatchQueue,
+  moveInWatchQueue,
+  removeFromWatchQueue,
+} from '../watchQueue';
+
+// 動画カードに追加するボタンのクラス
+const CARD_BUTTON_CLASS = 'bn-queue-button';
+const CARD_BUTTON_ACTIVE_CLASS = 'bn-queue-button-active';
+
+// ボタンを追加した動画カードに付けるマーカー
+const CARD_MARKER = 'data-bn-queue-card';
+
+// サイドバーに表示するパネル
+const PANEL_ID = 'bn-queue-panel';
+
+// パネルの表示内容（表示中の動画とキュー）を表すキー（変化がない場合は作り直さない）
+const PANEL_KEY_ATTRIBUTE = 'data-bn-queue-key';
+
+// ドラッグ中の移動先を示すクラス
+const DROP_BEFORE_CLASS = 'bn-queue-drop-before';
+const DROP_AFTER_CLASS = 'bn-queue-drop-after';
+
+// 再生が終わってから次の動画に移動するまでの時間（トーストを読めるようにする）
+const NEXT_VIDEO_DELAY_MS = 1500;
+
+// 動画カードとサイドバーの追加・再描画に合わせて付け直す
+export const mutationTargets: readonly string[] = [
+  ...getTargetSelectors('videoCard'),
+  ...getTargetSelectors('watchSidebar'),
+];
+
+// 依存するDOM要素（src/content/selectors.ts）
+export const selectorTargets: readonly SelectorKey[] = ['videoCard', 'watchSidebar'];
+
+// 表示中の動画が変わるとパネルの表示と次の動画への移動の対象が変わるため、ページ遷移時は付け直す
+export const reattachOnRouteChange = true;
+
+// 動画視聴ページで機能を有効にしているか（再生が終わったときに次の動画に移動するか）
+let active = false;
+
+// 再生終了の監視のセットアップ済みフラグ
+let endedListenerSetup = false;
+
+// パネルでドラッグ中の動画ID
+let draggedVideoId: string | null = null;
+
+/**
+ * 動画カードのボタンの表示をキューの状態に合わせる
+ */
+function updateCardButton(button: HTMLButtonElement, queued: boolean): void {
+  // DOMの変更による再適用を繰り返さないよう、状態が変わった場合だけ書き換える
+  if (button.classList.contains(CARD_BUTTON_ACTIVE_CLASS) === queued && button.textContent) {
+    return;
+  }
+  button.classList.toggle(CARD_BUTTON_ACTIVE_CLASS, queued);
+  button.textContent = queued ? '✓ あとで見る' : '+ あとで見る';
+  button.title = queued ? '「あとで見る」から削除' : '「あとで見る」に追加';
+}
+
+/**
+ * 動画カードに「あとで見る」ボタンを追加する（追加済みの場合は表示だけを更新する）
+ * @returns ボタンを追加・更新した場合は true（動画IDを読み取れない場合は false）
+ */
+function attachCardButton(card: HTMLElement): boolean {
+  const info = getVideoCardInfo(card);
+  if (!info) {
+    return false;
+  }
+
+  let button = card.querySelector<HTMLButtonElement>(`:scope > .${CARD_BUTTON_CLASS}`);
+  if (!button) {
+    button = document.createElement('button');
+    button.type = 'button';
+    button.className = CARD_BUTTON_CLASS;
+    button.addEventListener('click', (event) => {
+      // カード内のリンクへの遷移を防ぐ
+      event.preventDefault();
+      event.stopPropagation();
+
+      // ページ側の再描画で別の動画のカードになっている場合があるため、押された時点で読み取り直す
+      const current = getVideoCardInfo(card);
+      if (!current) {
+        return;
+      }
+      if (isInWatchQueue(current.videoId)) {
+        removeFromWatchQueue(current.videoId);
+        showToast('「あとで見る」から削除しました');
+      } else {
+        addToWatchQueue(createWatchQueueEntry(current.videoId, current.title, current.uploaderName));
+      }
+    });
+    card.setAttribute(CARD_MARKER, '');
+    card.appendChild(button);
+  }
+
+  updateCardButton(button, isInWatchQueue(info.videoId));
+  return true;
+}
+
+/**
+ * パネルの移動先の表示を消す
+ */
+function clearDropIndicators(list: HTMLElement): void {
+  for (const item of list.querySelectorAll(`.${DROP_BEFORE_CLASS}, .${DROP_AFTER_CLASS}`)) {
+    item.classList.remove(DROP_BEFORE_CLASS, DROP_AFTER_CLASS);
+  }
+}
+
+/**
+ * ドラッグ中のマウスの位置が、項目の上半分にあるか
+ */
+function isBeforeItem(item: HTMLElement, event: DragEvent): boolean {
+  const rect = item.getBoundingClientRect();
+  return event.clientY < rect.top + rect.height / 2;
+}
+
+/**
+ * キューの1件の行を作成
+ */
+function createQueueItem(entry: WatchQueueEntry, currentVideoId: string, list: HTMLElement): HTMLElement {
+  const item = document.createElement('li');
+  item.className = 'bn-queue-item';
+  item.draggable = true;
+  item.dataset.videoId = entry.videoId;
+  item.classList.toggle('bn-queue-item-current', entry.videoId === currentVideoId);
+
+  const handle = document.createElement('span');
+  handle.className = 'bn-queue-handle';
+  handle.textContent = '⋮⋮';
+  handle.setAttribute('aria-hidden', 'true');
+
+  const info = document.createElement('div');
+  info.className = 'bn-queue-info';
+  const link = document.createElement('a');
+  link.className = 'bn-queue-title';
+  link.href = `/watch/${entry.videoId}`;
+  link.textContent = entry.title || entry.videoId;
+  link.draggable = false;
+  info.appendChild(link);
+  if (entry.uploaderName) {
+    const uploader = document.createElement('span');
+    uploader.className = 'bn-queue-uploader';
+    uploader.textContent = entry.uploaderName;
+    info.appendChild(uploader);
+  }
+
+  const removeButton = document.createElement('button');
+  removeButton.type = 'button';
+  removeButton.className = 'bn-queue-remove';
+  removeButton.textContent = '×';
+  removeButton.setAttribute('aria-label', '削除');
+  removeButton.addEventListener('click', () => removeFromWatchQueue(entry.videoId));
+
+  item.addEventListener('dragstart', (event) => {
+    draggedVideoId = entry.videoId;
+    item.classList.add('bn-queue-item-dragging');
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', entry.videoId);
+    }
+  });
+  item.addEventListener('dragend', () => {
+    draggedVideoId = null;
+    item.classList.remove('bn-queue-item-dragging');
+    clearDropIndicators(list);
+  });
+  item.addEventListener('dragover', (event) => {
+    if (draggedVideoId === null || draggedVideoId === entry.videoId) {
+      return;
+    }
+    event.preventDefault();
+    clearDropIndicators(list);
+    item.classList.add(isBeforeItem(item, event) ? DROP_BEFORE_CLASS : DROP_AFTER_CLASS);
+  });
+  item.addEventListener('drop', (event) => {
+    if (draggedVideoId === null || draggedVideoId === entry.videoId) {
+      return;
+    }
+    event.preventDefault();
+
+    const ids = Array.from(list.children, (child) => (child as HTMLElement).dataset.videoId ?? '');
+    moveInWatchQueue(
+      draggedVideoId,
+      getWatchQueueDropIndex(ids, draggedVideoId, entry.videoId, isBeforeItem(item, event)),
+    );
+    clearDropIndicators(list);
+  });
+
+  item.appendChild(handle);
+  item.appendChild(info);
+  item.appendChild(removeButton);
+  return item;
+}
+
+/**
+ * サイドバーのパネルを作成
+ */
+function createPanel(queue: readonly WatchQueueEntry[], currentVideoId: string): HTMLElement {
+  const panel = document.createElement('section');
+  panel.id = PANEL_ID;
+  panel.className = 'bn-queue-panel';
+
+  const header = document.createElement('div');
+  header.className = 'bn-queue-header';
+  const title = document.createElement('h2');
+  title.className = 'bn-queue-heading';
+  title.textContent = `あとで見る（${queue.length}）`;
+
+  const queued = queue.some((entry) => entry.videoId === currentVideoId);
+  const toggleButton = document.createElement('button');
+  toggleButton.type = 'button';
+  toggleButton.className = 'bn-queue-toggle';
+  toggleButton.textContent = queued ? 'この動画を削除' : 'この動画を追加';
+  toggleButton.addEventListener('click', () => {
+    if (isInWatchQueue(currentVideoId)) {
+      removeFromWatchQueue(currentVideoId);
+      return;
+    }
+    const info = getWatchPageInfo();
+    addToWatchQueue(createWatchQueueEntry(currentVideoId, info?.title ?? '', info?.uploaderName ?? null));
+  });
+
+  header.appendChild(title);
+  header.appendChild(toggleButton);
+  panel.appendChild(header);
+
+  if (queue.length === 0) {
+    const empty = document.createElement('p');
+    empty.className = 'bn-queue-empty';
+    empty.textContent = '動画一覧の「+ あとで見る」で追加できます。再生が終わると、キューの先頭の動画に移動します';
+    panel.appendChild(empty);
+    return panel;
+  }
+
+  const list = document.createElement('ol');
+  list.className = 'bn-queue-list';
+  list.replaceChildren(...queue.map((entry) => createQueueItem(entry, currentVideoId, list)));
+  panel.appendChild(list);
+  return panel;
+}
+
+/**
+ * サイドバーにパネルを表示する（表示内容に変化がない場合は何もしない）
+ * @returns サイドバーがない場合は false
+ */
+function renderPanel(currentVideoId: string): boolean {
+  const sidebar = queryTarget('watchSidebar');
+  if (!sidebar) {
+    return false;
+  }
+
+  const queue = getWatchQueue();
+  const key = JSON.stringify([currentVideoId, queue.map((entry) => [entry.videoId, entry.title, entry.uploaderName])]);
+  const existing = document.getElementById(PANEL_ID);
+  if (existing?.parentElement === sidebar && existing.getAttribute(PANEL_KEY_ATTRIBUTE) === key) {
+    return true;
+  }
+
+  const panel = createPanel(queue, currentVideoId);
+  panel.setAttribute(PANEL_KEY_ATTRIBUTE, key);
+  existing?.remove();
+  sidebar.prepend(panel);
+  return true;
+}
+
+/**
+ * 動画の再生が終わったら、キューの次の動画に移動する
+ * 再生が終わった動画はキューから取り除く
+ */
+function handleEnded(event: Event): void {
+  const videoId = getVideoId(window.location);
+  if (!active || !videoId || event.target !== getVideoElement()) {
+    return;
+  }
+
+  void advanceWatchQueue(videoId).map((next) => {
+    if (!next) {
+      return;
+    }
+    showToast(`次の動画に移動します: ${next.title || next.videoId}`);
+    window.setTimeout(() => {
+      // 待つ間に別の動画に移動した・機能をオフにした場合は移動しない
+      if (active && getVideoId(window.location) === videoId) {
+        window.location.assign(`/watch/${next.videoId}`);
+      }
+    }, NEXT_VIDEO_DELAY_MS);
+  });
+}
+
+/**
+ * 動画の再生終了を監視する
+ * ended イベントはバブリングしないため、プレイヤーが動画要素を作り直しても受け取れるようキャプチャで受け取る
+ */
+function setupEndedListener(): void {
+  if (endedListenerSetup) {
+    return;
+  }
+  endedListenerSetup = true;
+
+  document.addEventListener('ended', handleEnded, true);
+}
+
+/**
+ * 設定を適用する
+ * 動画一覧では動画カードにボタンを追加し、動画視聴ページではサイドバーにパネルを表示する
+ * @param enabled - true: ボタンとパネルを表示, false: すべて取り除く
+ */
+export function apply(enabled: boolean): FeatureApplyResult {
+  if (!enabled) {
+    teardown();
+    return 'disabled';
+  }
+
+  let attached = false;
+  for (const card of findVideoCards()) {
+    // パネル内の動画へのリンクは動画カードとして扱わない
+    if (!card.closest(`#${PANEL_ID}`) && attachCardButton(card)) {
+      attached = true;
+    }
+  }
+
+  const videoId = getVideoId(window.location);
+  if (videoId) {
+    active = true;
+    setupEndedListener();
+    if (renderPanel(videoId)) {
+      attached = true;
+    }
+  }
+
+  return attached ? 'applied' : 'target_not_found';
+}
+
+/**
+ * 機能を解除する（対象ページ外への遷移時などに呼ばれる）
+ * 追加したボタンとパネルを取り除き、次の動画への移動をやめる
+ */
+export function teardown(): void {
+  active = false;
+  document.getElementById(PANEL_ID)?.remove();
+  for (const card of document.querySelectorAll<HTMLElement>(`[${CARD_MARKER}]`)) {
+    card.removeAttribute(CARD_MARKER);
+    card.querySelector(`:scope > .${CARD_BUTTON_CLASS}`)?.remove();
+  }
+}
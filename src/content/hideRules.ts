@@ -0,0 +1,230 @@
+// Better Niconico - Hide Rule Engine
+// 「要素を探して、そのブロックを非表示にする」処理をルールとして共通化する
+// 組み込みの非表示機能（プレミアム会員・TV放送中のアニメ・ニコニ広告）とユーザー定義のルールの両方で使用する
+
+import type { ResultAsync } from 'neverthrow';
+import type { FeatureApplyResult } from '../types/featureStatus';
+import type { HideRule, HideRuleTarget } from '../types/hideRules';
+import type { PageType } from '../types/pages';
+import type { StorageError } from '../types/errors';
+import { DEFAULT_HEADING_SELECTOR } from '../types/hideRules';
+import { isPageInScope } from '../types/features';
+import { loadHideRules } from '../utils/storage';
+import { isValidSelector, parseHideRules } from '../utils/hideRules';
+import { getCurrentPageType } from '../utils/pageClassifier';
+import { reportError } from '../utils/errorLog';
+import type { SelectorKey } from './selectors';
+import {
+  queryTargetAll,
+  getTargetSelectors,
+  getTargetStylesheetSelectors,
+  toStylesheetSelector,
+} from './selectors';
+
+// 非表示にした要素に付けるマーカー（値はルールのID）
+const HIDDEN_BY_MARKER = 'data-bn-hidden-by';
+
+/**
+ * 非表示ルールの共通の形
+ */
+export interface HideRuleDefinition {
+  // マーカーの値（要素を元に戻す際に、このルールで非表示にした要素を探すために使う）
+  id: string;
+  // ログに表示する名前
+  label: string;
+  // 非表示にする要素を探す
+  find(): HTMLElement[];
+  // 非表示にする要素のテキストに含まれているべき文字列（いずれか1つ）
+  // 内容の読み込み前や、別のセクションを誤って非表示にしないための確認
+  requiredText?: readonly string[];
+  // 要素が追加されたときに再適用が必要になるDOM領域
+  mutationTargets: readonly string[];
+  // document_start のスタイルシートで描画前から非表示にするセレクタ
+  // テキストを確認できないため、対象以外の要素に一致しないセレクタのみを指定する
+  stylesheetSelectors: readonly string[];
+}
+
+/**
+ * セレクタ登録の対象要素を非表示にする組み込みのルールを作成
+ */
+function createBuiltInRule(
+  id: string,
+  label: string,
+  target: SelectorKey,
+  requiredText: readonly string[],
+): HideRuleDefinition {
+  return {
+    id,
+    label,
+    find: () => queryTargetAll(target),
+    requiredText,
+    mutationTargets: getTargetSelectors(target),
+    stylesheetSelectors: getTargetStylesheetSelectors(target),
+  };
+}
+
+/**
+ * 組み込みの非表示機能のルール
+ */
+export const BUILT_IN_HIDE_RULES = {
+  hidePremiumSection: createBuiltInRule('builtin-premium', 'プレミアム会員セクション', 'premiumSection', [
+    'プレミアム',
+    '見放題',
+  ]),
+  hideOnAirAnime: createBuiltInRule('builtin-on-air-anime', 'TV放送中のアニメセクション', 'onAirAnimeSection', [
+    'TV放送中',
+    'アニメ',
+  ]),
+  hideNicoAds: createBuiltInRule('builtin-nicoad', 'ニコニ広告セクション', 'nicoAdSection', ['ニコニ広告']),
+} as const satisfies Record<string, HideRuleDefinition>;
+
+/**
+ * ユーザー定義のルールの探し方で要素を探す
+ */
+export function findHideRuleElements(target: HideRuleTarget, root: ParentNode = document): HTMLElement[] {
+  const selector = target.selector ?? DEFAULT_HEADING_SELECTOR;
+  const headingText = target.headingText;
+  const anchors = Array.from(root.querySelectorAll(selector)).filter(
+    (element) => !headingText || (element.textContent?.includes(headingText) ?? false),
+  );
+
+  const elements = new Set<HTMLElement>();
+  for (const anchor of anchors) {
+    const element = target.hideAncestor ? anchor.closest(target.hideAncestor) : anchor;
+    if (element instanceof HTMLElement) {
+      elements.add(element);
+    }
+  }
+  return Array.from(elements);
+}
+
+/**
+ * ユーザー定義のルールを共通の形に変換する
+ * 保存後にブラウザが対応しなくなったセレクタなど、解釈できないルールは null を返す
+ */
+function toHideRuleDefinition(rule: HideRule): HideRuleDefinition | null {
+  const selector = rule.selector ?? DEFAULT_HEADING_SELECTOR;
+  if (!isValidSelector(selector) || (rule.hideAncestor && !isValidSelector(rule.hideAncestor))) {
+    console.warn(`[Better Niconico] 非表示ルール「${rule.name}」のセレクタを解釈できません`);
+    return null;
+  }
+
+  // 見出しのテキストで探すルールはCSSで表せないため、スタイルシートでは非表示にしない
+  const stylesheetSelector = rule.headingText ? null : toStylesheetSelector(selector, rule.hideAncestor);
+
+  return {
+    id: rule.id,
+    label: `非表示ルール「${rule.name}」`,
+    find: () => findHideRuleElements(rule),
+    mutationTargets: [selector],
+    stylesheetSelectors: stylesheetSelector ? [stylesheetSelector] : [],
+  };
+}
+
+/**
+ * ルールで見つかった要素を非表示にする（冪等）
+ * @returns 1つ以上の要素を非表示にしている場合は applied、確認用のテキストがまだない場合は pending
+ */
+export function applyHideRule(rule: HideRuleDefinition): FeatureApplyResult {
+  const elements = rule.find();
+  if (elements.length === 0) {
+    return 'target_not_found';
+  }
+
+  let hiddenCount = 0;
+  let newlyHiddenCount = 0;
+  for (const element of elements) {
+    // すでに非表示の場合は何もしない
+    if (element.getAttribute(HIDDEN_BY_MARKER) === rule.id) {
+      hiddenCount++;
+      continue;
+    }
+
+    // セーフガード: 意図した要素であることを確認
+    // テキストがまだロードされていない可能性があるため、警告は出さずに処理をスキップ
+    const textContent = element.textContent || '';
+    if (rule.requiredText && !rule.requiredText.some((text) => textContent.includes(text))) {
+      continue;
+    }
+
+    element.style.display = 'none';
+    element.setAttribute(HIDDEN_BY_MARKER, rule.id);
+    hiddenCount++;
+    newlyHiddenCount++;
+  }
+
+  if (newlyHiddenCount > 0) {
+    console.log(`[Better Niconico] ${rule.label}を非表示にしました`);
+  }
+
+  return hiddenCount > 0 ? 'applied' : 'pending';
+}
+
+/**
+ * ルールで非表示にした要素を表示状態に戻す
+ */
+export function restoreHiddenElements(ruleId: string): void {
+  const elements = document.querySelectorAll<HTMLElement>(`[${HIDDEN_BY_MARKER}="${CSS.escape(ruleId)}"]`);
+  for (const element of elements) {
+    element.style.display = '';
+    element.removeAttribute(HIDDEN_BY_MARKER);
+  }
+
+  if (elements.length > 0) {
+    console.log(`[Better Niconico] 非表示にした要素を表示しました（${ruleId}）`);
+  }
+}
+
+// ユーザー定義のルール（読み込み前・読み込み失敗時は空）
+let customRules: HideRule[] = [];
+
+/**
+ * キャッシュされたユーザー定義のルールを取得
+ */
+export function getCustomHideRules(): readonly HideRule[] {
+  return customRules;
+}
+
+/**
+ * chrome.storage からユーザー定義のルールを読み込み、キャッシュを更新する
+ */
+export function refreshHideRulesCache(): ResultAsync<HideRule[], StorageError> {
+  return loadHideRules().map((rules) => {
+    customRules = rules;
+    return rules;
+  });
+}
+
+/**
+ * chrome.storage.onChanged で受け取った新しい値でキャッシュを更新する
+ * 値が不正な場合はキャッシュを変更せず false を返す
+ */
+export function updateHideRulesCache(newValue: unknown): boolean {
+  const rulesResult = parseHideRules(newValue);
+  if (rulesResult.isErr()) {
+    console.error('[Better Niconico] 変更された非表示ルールが不正です:', rulesResult.error);
+    reportError(rulesResult.error, 'customHideRules');
+    return false;
+  }
+
+  customRules = rulesResult.value;
+  return true;
+}
+
+/**
+ * ページ種別で有効なユーザー定義のルールを取得
+ */
+export function getActiveCustomHideRules(pageType: PageType = getCurrentPageType()): HideRuleDefinition[] {
+  const definitions: HideRuleDefinition[] = [];
+  for (const rule of customRules) {
+    if (!rule.enabled || !isPageInScope(rule.pageScope, pageType)) {
+      continue;
+    }
+
+    const definition = toHideRuleDefinition(rule);
+    if (definition) {
+      definitions.push(definition);
+    }
+  }
+  return definitions;
+}
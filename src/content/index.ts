@@ -2,116 +2,380 @@
 // ニコニコ動画のレイアウトと細部改善を行う拡張機能
 import './index.css';
 import type { BetterNiconicoSettings } from '../types/settings';
-import { DEFAULT_SETTINGS } from '../types/settings';
+import { ok } from 'neverthrow';
+import type { FeatureKey } from '../types/features';
+import type { FeatureStatusReport } from '../types/featureStatus';
+import type { MessageResponse } from '../types/messages';
+import { STORAGE_KEY } from '../types/settings';
+import { HIDE_RULES_KEY } from '../types/hideRules';
+import { VIDEO_FILTERS_KEY } from '../types/videoFilters';
+import { COMMENT_FILTERS_KEY } from '../types/commentFilter';
+import { RESUME_PLAYBACK_KEY } from '../types/resumePlayback';
+import { UPSCALING_SETTINGS_KEY } from '../types/upscaling';
+import { WATCH_QUEUE_KEY } from '../types/watchQueue';
 import { loadSettings, saveSettings } from '../utils/storage';
+import { getCurrentPageType, resolveFeatureSettings } from '../utils/pageClassifier';
+import { reportError } from '../utils/errorLog';
+import { parseMessage, toMessageResponse } from '../utils/messaging';
+import { featureApplyFailedError } from '../types/errors';
+import { FEATURES, isFeatureInScope } from './featureRegistry';
+import { getFeatureStatus, setFeatureStatus } from './featureStatus';
+import { updateEarlyStyles } from './earlyStyles';
+import { refreshHideRulesCache, updateHideRulesCache } from './hideRules';
+import { startElementPicker } from './elementPicker';
+import {
+  refreshVideoFiltersCache,
+  updateVideoFiltersCache,
+  setupVideoFilterContextMenu,
+  addUploaderFilterFromContextMenu,
+} from './videoFilters';
+import { refreshCommentFiltersCache, updateCommentFiltersCache, startCommentFilterEarly } from './commentFilter';
+import { refreshResumePlaybackCache, updateResumePlaybackCache } from './resumePlayback';
+import { refreshUpscalingCache, updateUpscalingCache } from './videoUpscaling';
+import { refreshWatchQueueCache, updateWatchQueueCache } from './watchQueue';
+import { getCachedSettings, refreshSettingsCache, updateSettingsCache } from './settingsCache';
+import type { RouteChange } from './routeObserver';
+import { setupRouteObserver, onRouteChange, checkRouteChange } from './routeObserver';
+import { clearWatchPageInfoCache } from './watchPageInfo';
+import { runSelectorHealthCheck, logSelectorHealthReport } from './selectorHealth';
+import { setupShortcuts, toggleFeature } from './shortcuts';
+import {
+  setupApplyScheduler,
+  scheduleMutations,
+  scheduleFeatures,
+  getSchedulerStats,
+} from './applyScheduler';
 
-// Feature modules
-import * as hidePremiumSection from './features/hidePremiumSection';
-import * as hideOnAirAnime from './features/hideOnAirAnime';
-import * as restoreClassicVideoLayout from './features/restoreClassicVideoLayout';
-import * as videoUpscaling from './features/videoUpscaling';
-import * as addNicoRankButton from './features/addNicoRankButton';
-import * as squareProfileIcons from './features/squareProfileIcons';
-import * as hideSupporterButton from './features/hideSupporterButton';
-import * as hideNicoAds from './features/hideNicoAds';
+// 現在のページで適用済みの機能（対象ページ外になった際に teardown するため）
+const appliedFeatures = new Set<FeatureKey>();
+
+// ページの表示・遷移からセレクタのヘルスチェックまでの待ち時間（動的に読み込まれる要素を待つ）
+const HEALTH_CHECK_DELAY_MS = 5000;
+
+// 予約中のヘルスチェックのタイマー
+let healthCheckTimer: number | null = null;
+
+// コンテンツスクリプトは document_start で実行されるため、DOMの構築を待たずに設定を読み込み、
+// 非表示にするセクションのスタイルシートを本文の描画前に挿入する
+// 動画視聴ページでは、プレイヤーがコメントを取得する前にコメントのNGフィルタの設定をフックに渡す
+const initialSettingsResult = refreshSettingsCache().map((settings) => {
+  updateEarlyStyles(settings);
+  startCommentFilterEarly(settings);
+  return settings;
+});
+
+// ユーザー定義の非表示ルールも同様に読み込み、読み込み後にスタイルシートを更新する
+const initialHideRulesResult = refreshHideRulesCache().map((rules) => {
+  updateEarlyStyles(getCachedSettings());
+  return rules;
+});
+
+// コメントのNGフィルタの設定も読み込み、読み込み後にフックに渡す
+const initialCommentFiltersResult = refreshCommentFiltersCache();
 
 /**
- * 設定を適用する（Result型を使用）
+ * セレクタのヘルスチェックを予約する（予約済みの場合は予約し直す）
  */
-async function applySettings(): Promise<void> {
-  const settingsResult = await loadSettings();
+function scheduleHealthCheck(): void {
+  if (healthCheckTimer !== null) {
+    clearTimeout(healthCheckTimer);
+  }
 
-  if (settingsResult.isErr()) {
-    console.error('[Better Niconico] 設定の読み込みに失敗しました:', settingsResult.error);
-    // エラー時はデフォルト設定を使用
-    const settings = DEFAULT_SETTINGS;
-    hidePremiumSection.apply(settings.hidePremiumSection);
-    hideOnAirAnime.apply(settings.hideOnAirAnime);
-    restoreClassicVideoLayout.apply(settings.restoreClassicVideoLayout);
-    videoUpscaling.apply(settings.enableVideoUpscaling);
-    addNicoRankButton.apply(settings.showNicoRankButton);
-    squareProfileIcons.apply(settings.squareProfileIcons);
-    hideSupporterButton.apply(settings.hideSupporterButton);
-    hideNicoAds.apply(settings.hideNicoAds);
+  healthCheckTimer = window.setTimeout(() => {
+    healthCheckTimer = null;
+    logSelectorHealthReport(runSelectorHealthCheck());
+  }, HEALTH_CHECK_DELAY_MS);
+}
+
+/**
+ * 各機能に設定を適用する
+ * 現在のページ種別を判定し、ページ種別ごとの上書きを反映した値で適用する
+ * 対象ページ外の機能は、適用済みであれば teardown する
+ * 各機能の適用結果はポップアップに表示するために記録する
+ * @param keys - 適用する機能（省略時はすべての機能）
+ */
+function applyFeatures(settings: BetterNiconicoSettings, keys?: ReadonlySet<FeatureKey>): void {
+  const pageType = getCurrentPageType();
+  const toggles = resolveFeatureSettings(settings, pageType);
+
+  for (const feature of FEATURES) {
+    if (keys && !keys.has(feature.key)) {
+      continue;
+    }
+
+    if (!isFeatureInScope(feature, pageType)) {
+      if (appliedFeatures.has(feature.key)) {
+        feature.teardown();
+        appliedFeatures.delete(feature.key);
+      }
+      setFeatureStatus(feature.key, 'not_applicable');
+      continue;
+    }
+
+    // 1つの機能の例外で他の機能の適用が止まらないようにする
+    try {
+      setFeatureStatus(feature.key, feature.apply(toggles[feature.key]));
+    } catch (error) {
+      const applyError = featureApplyFailedError('Failed to apply feature', feature.key, error);
+      console.error(`[Better Niconico] 機能の適用に失敗しました（${feature.key}）:`, error);
+      reportError(applyError, feature.key);
+      setFeatureStatus(feature.key, 'error', error instanceof Error ? error.message : applyError.message);
+    }
+    appliedFeatures.add(feature.key);
+  }
+}
+
+/**
+ * クライアントサイド遷移でページ種別・動画IDが変わった際に機能を付け直す
+ * reattachOnRouteChange の機能は teardown してから、すべての機能を新しいページ種別で再適用する
+ */
+function handleRouteChange(change: RouteChange): void {
+  if (!change.pageTypeChanged && !change.videoChanged) {
     return;
   }
 
-  const settings = settingsResult.value;
+  console.log(
+    `[Better Niconico] ページ遷移を検出しました: ${change.previous.pageType} → ${change.current.pageType}` +
+      (change.current.videoId ? ` (${change.current.videoId})` : ''),
+  );
+
+  clearWatchPageInfoCache();
 
-  // 各機能を適用
-  hidePremiumSection.apply(settings.hidePremiumSection);
-  hideOnAirAnime.apply(settings.hideOnAirAnime);
-  restoreClassicVideoLayout.apply(settings.restoreClassicVideoLayout);
-  videoUpscaling.apply(settings.enableVideoUpscaling);
-  addNicoRankButton.apply(settings.showNicoRankButton);
-  squareProfileIcons.apply(settings.squareProfileIcons);
-  hideSupporterButton.apply(settings.hideSupporterButton);
-  hideNicoAds.apply(settings.hideNicoAds);
+  for (const feature of FEATURES) {
+    if (feature.reattachOnRouteChange && appliedFeatures.has(feature.key)) {
+      feature.teardown();
+      appliedFeatures.delete(feature.key);
+    }
+  }
+
+  updateEarlyStyles(getCachedSettings());
+  applyFeatures(getCachedSettings());
+  scheduleHealthCheck();
 }
 
 /**
  * 設定変更を監視する
+ * キャッシュを更新し、値が変化した機能だけを再適用する
+ * sync が使えない場合は local に保存されるため、両方の領域を監視する
  */
 chrome.storage.onChanged.addListener((changes, areaName) => {
-  if (areaName === 'sync' && changes.betterNiconicoSettings) {
+  if ((areaName === 'sync' || areaName === 'local') && changes[STORAGE_KEY]) {
     console.log('[Better Niconico] 設定が変更されました');
-    void applySettings();
+    const changedKeys = updateSettingsCache(changes[STORAGE_KEY].newValue);
+    updateEarlyStyles(getCachedSettings());
+    scheduleFeatures(changedKeys);
+  }
+
+  if ((areaName === 'sync' || areaName === 'local') && changes[HIDE_RULES_KEY]) {
+    console.log('[Better Niconico] 非表示ルールが変更されました');
+    if (updateHideRulesCache(changes[HIDE_RULES_KEY].newValue)) {
+      updateEarlyStyles(getCachedSettings());
+      scheduleFeatures(['customHideRules']);
+    }
+  }
+
+  if ((areaName === 'sync' || areaName === 'local') && changes[VIDEO_FILTERS_KEY]) {
+    console.log('[Better Niconico] NGフィルタが変更されました');
+    if (updateVideoFiltersCache(changes[VIDEO_FILTERS_KEY].newValue)) {
+      scheduleFeatures(['videoFilter']);
+    }
+  }
+
+  if ((areaName === 'sync' || areaName === 'local') && changes[COMMENT_FILTERS_KEY]) {
+    console.log('[Better Niconico] コメントのNGフィルタが変更されました');
+    updateCommentFiltersCache(changes[COMMENT_FILTERS_KEY].newValue);
+  }
+
+  if ((areaName === 'sync' || areaName === 'local') && changes[RESUME_PLAYBACK_KEY]) {
+    // 次に動画を開いたときから反映する
+    console.log('[Better Niconico] 続きから再生の設定が変更されました');
+    updateResumePlaybackCache(changes[RESUME_PLAYBACK_KEY].newValue);
+  }
+
+  if ((areaName === 'sync' || areaName === 'local') && changes[UPSCALING_SETTINGS_KEY]) {
+    // 再生中のアップスケーリングも新しいパイプライン・出力解像度で開始し直す
+    console.log('[Better Niconico] 動画アップスケーリングの設定が変更されました');
+    if (updateUpscalingCache(changes[UPSCALING_SETTINGS_KEY].newValue)) {
+      scheduleFeatures(['enableVideoUpscaling']);
+    }
+  }
+
+  // キューは local のみに保存する
+  if (areaName === 'local' && changes[WATCH_QUEUE_KEY]) {
+    console.log('[Better Niconico] 「あとで見る」キューが変更されました');
+    if (updateWatchQueueCache(changes[WATCH_QUEUE_KEY].newValue)) {
+      scheduleFeatures(['watchLaterQueue']);
+    }
   }
 });
 
+/**
+ * 現在のタブでの各機能の状態を取得する
+ */
+function getFeatureStatusReport(): FeatureStatusReport {
+  const pageType = getCurrentPageType();
+  const toggles = resolveFeatureSettings(getCachedSettings(), pageType);
+
+  return {
+    url: window.location.href,
+    pageType,
+    features: FEATURES.map((feature) => {
+      const entry = getFeatureStatus(feature.key);
+      return {
+        feature: feature.key,
+        enabled: toggles[feature.key],
+        inScope: isFeatureInScope(feature, pageType),
+        status: entry?.status ?? null,
+        message: entry?.message,
+      };
+    }),
+  };
+}
+
 /**
  * メッセージリスナー（Result型を使用）
+ * 受信したメッセージは parseMessage() で検証してから処理する
  */
-chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-  if (request.action === 'getSettings') {
-    void loadSettings().then((result) => {
-      if (result.isOk()) {
-        sendResponse({ success: true, data: result.value });
-      } else {
-        console.error('[Better Niconico] 設定取得エラー:', result.error);
-        sendResponse({ success: false, error: result.error });
-      }
-    });
-    return true; // 非同期レスポンス
-  }
-
-  if (request.action === 'updateSettings') {
-    const newSettings = request.data as BetterNiconicoSettings;
-    void saveSettings(newSettings).then((result) => {
-      if (result.isOk()) {
-        void applySettings();
-        sendResponse({ success: true });
-      } else {
-        console.error('[Better Niconico] 設定保存エラー:', result.error);
-        sendResponse({ success: false, error: result.error });
-      }
-    });
-    return true; // 非同期レスポンス
+chrome.runtime.onMessage.addListener((request, _sender, sendResponse: (response: MessageResponse) => void) => {
+  const messageResult = parseMessage(request);
+  if (messageResult.isErr()) {
+    console.error('[Better Niconico] 不正なメッセージを受信しました:', messageResult.error);
+    sendResponse({ success: false, error: messageResult.error });
+    return false;
   }
 
-  return false;
+  const message = messageResult.value;
+  switch (message.action) {
+    case 'getSettings':
+      void loadSettings().then((result) => {
+        if (result.isErr()) {
+          console.error('[Better Niconico] 設定取得エラー:', result.error);
+        }
+        sendResponse(toMessageResponse<'getSettings'>(result));
+      });
+      return true; // 非同期レスポンス
+
+    case 'updateSettings':
+      void saveSettings(message.data).then((result) => {
+        // 再適用は chrome.storage.onChanged 経由で行われる
+        if (result.isErr()) {
+          console.error('[Better Niconico] 設定保存エラー:', result.error);
+        }
+        sendResponse(toMessageResponse<'updateSettings'>(result.map(() => null)));
+      });
+      return true; // 非同期レスポンス
+
+    case 'getSelectorHealth':
+      sendResponse(toMessageResponse<'getSelectorHealth'>(ok(runSelectorHealthCheck())));
+      return false;
+
+    case 'getFeatureStatus':
+      sendResponse(toMessageResponse<'getFeatureStatus'>(ok(getFeatureStatusReport())));
+      return false;
+
+    case 'toggleFeature':
+      // chrome.commands のショートカットはバックグラウンド経由で届く
+      void toggleFeature(message.feature).then((result) => {
+        sendResponse(toMessageResponse<'toggleFeature'>(result));
+      });
+      return true; // 非同期レスポンス
+
+    case 'startElementPicker':
+      startElementPicker();
+      sendResponse(toMessageResponse<'startElementPicker'>(ok(null)));
+      return false;
+
+    case 'addUploaderFilter':
+      // コンテキストメニューのクリックはバックグラウンド経由で届く
+      void addUploaderFilterFromContextMenu().then((result) => {
+        sendResponse(toMessageResponse<'addUploaderFilter'>(result));
+      });
+      return true; // 非同期レスポンス
+
+    default:
+      // logError / setErrorBadge はバックグラウンド宛て
+      return false;
+  }
 });
 
 /**
  * 初期化
- * ページ読み込み時とDOM変更時に設定を適用
+ * ページ読み込み時に設定を読み込んで適用し、以降はDOM変更をスケジューラに渡す
  */
 async function initialize(): Promise<void> {
   console.log('[Better Niconico] 初期化開始');
 
-  // 初回適用
-  await applySettings();
+  // document_start で読み込み始めた設定を待つ（失敗時はデフォルト設定を使用）
+  const settingsResult = await initialSettingsResult;
+  if (settingsResult.isErr()) {
+    console.error('[Better Niconico] 設定の読み込みに失敗しました:', settingsResult.error);
+    reportError(settingsResult.error, 'settings');
+  }
+
+  // ユーザー定義の非表示ルール（失敗時はルールなしで適用）
+  const hideRulesResult = await initialHideRulesResult;
+  if (hideRulesResult.isErr()) {
+    console.error('[Better Niconico] 非表示ルールの読み込みに失敗しました:', hideRulesResult.error);
+    reportError(hideRulesResult.error, 'customHideRules');
+  }
+
+  // 動画一覧のNGフィルタ（失敗時はルールなしで適用）
+  const videoFiltersResult = await refreshVideoFiltersCache();
+  if (videoFiltersResult.isErr()) {
+    console.error('[Better Niconico] NGフィルタの読み込みに失敗しました:', videoFiltersResult.error);
+    reportError(videoFiltersResult.error, 'videoFilter');
+  }
+
+  // コメントのNGフィルタ（失敗時は設定なしで適用）
+  const commentFiltersResult = await initialCommentFiltersResult;
+  if (commentFiltersResult.isErr()) {
+    console.error('[Better Niconico] コメントのNGフィルタの読み込みに失敗しました:', commentFiltersResult.error);
+    reportError(commentFiltersResult.error, 'commentFilter');
+  }
+
+  // 続きから再生の設定（失敗時は既定値で適用）
+  const resumePlaybackResult = await refreshResumePlaybackCache();
+  if (resumePlaybackResult.isErr()) {
+    console.error('[Better Niconico] 続きから再生の設定の読み込みに失敗しました:', resumePlaybackResult.error);
+    reportError(resumePlaybackResult.error, 'resumePlayback');
+  }
+
+  // 動画アップスケーリングの設定（失敗時は既定値で適用）
+  const upscalingResult = await refreshUpscalingCache();
+  if (upscalingResult.isErr()) {
+    console.error('[Better Niconico] 動画アップスケーリングの設定の読み込みに失敗しました:', upscalingResult.error);
+    reportError(upscalingResult.error, 'enableVideoUpscaling');
+  }
+
+  // 「あとで見る」キュー（失敗時は空のキューで適用）
+  const watchQueueResult = await refreshWatchQueueCache();
+  if (watchQueueResult.isErr()) {
+    console.error('[Better Niconico] 「あとで見る」キューの読み込みに失敗しました:', watchQueueResult.error);
+    reportError(watchQueueResult.error, 'watchLaterQueue');
+  }
+
+  // 初回適用（すべての機能）
+  applyFeatures(getCachedSettings());
+
+  // 以降の再適用はフレーム単位でまとめ、対象領域が変化した機能だけに絞る
+  setupApplyScheduler((keys) => applyFeatures(getCachedSettings(), keys));
+
+  // 機能を切り替えるページ内ショートカット
+  await setupShortcuts();
+
+  // コンテキストメニューから投稿者をNGフィルタに追加するため、右クリックされた要素を記録する
+  setupVideoFilterContextMenu();
+
+  // クライアントサイド遷移を監視
+  setupRouteObserver();
+  onRouteChange(handleRouteChange);
 
   // MutationObserverでDOM変更を監視
   // ニコニコ動画は動的にコンテンツを読み込むため
+  // Navigation API 非対応の環境では、DOM変更時のURL確認がページ遷移検出のフォールバックになる
   const observer = new MutationObserver((mutations) => {
-    for (const mutation of mutations) {
-      if (mutation.addedNodes.length > 0) {
-        // 新しいノードが追加されたら設定を再適用
-        void applySettings();
-        break;
-      }
-    }
+    checkRouteChange();
+    scheduleMutations(mutations);
   });
 
   observer.observe(document.body, {
@@ -119,6 +383,18 @@ async function initialize(): Promise<void> {
     subtree: true,
   });
 
+  // 動的に読み込まれる要素を待ってから、セレクタのヘルスチェックを実行
+  scheduleHealthCheck();
+
+  // ページを離れる際に、従来方式と比較した再適用回数を出力
+  window.addEventListener('pagehide', () => {
+    const stats = getSchedulerStats();
+    console.log(
+      `[Better Niconico] 再適用の統計: DOM変更 ${stats.mutationBatches} 回 / フレーム ${stats.flushes} 回 / ` +
+        `機能の適用 ${stats.featureRuns} 回（従来方式: ${stats.naiveFeatureRuns} 回）`,
+    );
+  });
+
   console.log('[Better Niconico] 初期化完了');
 }
 
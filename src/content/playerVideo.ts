@@ -0,0 +1,62 @@
+// Better Niconico - Player Video
+// 動画視聴ページのプレイヤーから、広告やプレースホルダーを除いたメインコンテンツの動画要素を探す
+// アップスケーリング・視聴履歴など、動画要素を扱う機能で共通して使う
+
+import { queryTarget, closestTarget } from './selectors';
+
+/**
+ * 動画要素が広告かどうかを判定
+ */
+function isAdVideo(video: HTMLVideoElement): boolean {
+  // 広告コンテナ内の動画は除外
+  return closestTarget('videoAdContainer', video) !== null;
+}
+
+/**
+ * 有効な動画要素かどうかを判定
+ * - src が存在する
+ * - videoWidth と videoHeight が 0 より大きい
+ * - 広告動画ではない
+ */
+export function isValidContentVideo(video: HTMLVideoElement): boolean {
+  return (
+    video.src !== '' &&
+    video.videoWidth > 0 &&
+    video.videoHeight > 0 &&
+    !isAdVideo(video)
+  );
+}
+
+/**
+ * メインコンテンツの動画要素を取得
+ * - 複数の video 要素から、実際のコンテンツ動画を特定
+ * - 広告動画は除外
+ * - 空のプレースホルダー動画は除外
+ * - より確実にメインコンテンツ動画を特定するため、複数の条件をチェック
+ */
+export function getVideoElement(): HTMLVideoElement | null {
+  // プレイヤーエリア内のすべてのvideo要素を取得
+  const playerArea = queryTarget('watchPlayerArea');
+  if (!playerArea) {
+    return null;
+  }
+
+  const videos = Array.from(playerArea.querySelectorAll('video')) as HTMLVideoElement[];
+
+  // 有効なコンテンツ動画を探す（広告とプレースホルダーを除外）
+  // より確実に特定するため、readyStateもチェック
+  let bestVideo: HTMLVideoElement | null = null;
+  let bestReadyState = -1;
+
+  for (const video of videos) {
+    if (isValidContentVideo(video)) {
+      // readyStateが高い動画を優先（よりロード済みの動画）
+      if (video.readyState > bestReadyState) {
+        bestVideo = video;
+        bestReadyState = video.readyState;
+      }
+    }
+  }
+
+  return bestVideo;
+}
@@ -0,0 +1,108 @@
+// Better Niconico - Resume Playback
+// 続きから再生する機能の設定のキャッシュと、プレイヤー上に表示する「続きから再生」のボタン
+
+import type { ResultAsync } from 'neverthrow';
+import type { ResumePlaybackSettings } from '../types/resumePlayback';
+import type { StorageError } from '../types/errors';
+import { DEFAULT_RESUME_PLAYBACK_SETTINGS } from '../types/resumePlayback';
+import { loadResumePlaybackSettings } from '../utils/storage';
+import { parseResumePlaybackSettings } from '../utils/resumePlayback';
+import { reportError } from '../utils/errorLog';
+
+// ボタンを表示しておく時間
+const PROMPT_DURATION_MS = 10000;
+
+// ボタンを表示する要素に付ける属性（ボタンの位置の基準にする）
+const CONTAINER_ATTRIBUTE = 'data-bn-resume-container';
+
+// 続きから再生する機能の設定（読み込み前・読み込み失敗時は既定値）
+let settings: ResumePlaybackSettings = DEFAULT_RESUME_PLAYBACK_SETTINGS;
+
+// 表示中のボタン
+let promptElement: HTMLDivElement | null = null;
+let promptTimer: number | null = null;
+
+/**
+ * キャッシュされた設定を取得
+ */
+export function getResumePlaybackSettings(): ResumePlaybackSettings {
+  return settings;
+}
+
+/**
+ * chrome.storage から設定を読み込み、キャッシュを更新する
+ */
+export function refreshResumePlaybackCache(): ResultAsync<ResumePlaybackSettings, StorageError> {
+  return loadResumePlaybackSettings().map((newSettings) => {
+    settings = newSettings;
+    return newSettings;
+  });
+}
+
+/**
+ * chrome.storage.onChanged で受け取った新しい値でキャッシュを更新する
+ * 値が不正な場合はキャッシュを変更せず false を返す
+ */
+export function updateResumePlaybackCache(newValue: unknown): boolean {
+  const settingsResult = parseResumePlaybackSettings(newValue);
+  if (settingsResult.isErr()) {
+    console.error('[Better Niconico] 変更された続きから再生の設定が不正です:', settingsResult.error);
+    reportError(settingsResult.error, 'resumePlayback');
+    return false;
+  }
+
+  settings = settingsResult.value;
+  return true;
+}
+
+/**
+ * 表示中のボタンを消す
+ */
+export function hideResumePrompt(): void {
+  if (promptTimer !== null) {
+    clearTimeout(promptTimer);
+    promptTimer = null;
+  }
+  promptElement?.parentElement?.removeAttribute(CONTAINER_ATTRIBUTE);
+  promptElement?.remove();
+  promptElement = null;
+}
+
+/**
+ * プレイヤーの上に「続きから再生」のボタンを表示する
+ * 一定時間が過ぎるか、閉じるボタンを押すと消える
+ * @param container - ボタンを表示する要素（プレイヤーのエリア）
+ * @param label - 再開する位置の表記（例: 12:34）
+ * @param onResume - ボタンが押されたときの処理
+ */
+export function showResumePrompt(container: HTMLElement, label: string, onResume: () => void): void {
+  hideResumePrompt();
+
+  const prompt = document.createElement('div');
+  prompt.className = 'bn-resume-prompt';
+  prompt.setAttribute('role', 'status');
+
+  const resumeButton = document.createElement('button');
+  resumeButton.type = 'button';
+  resumeButton.className = 'bn-resume-prompt-button';
+  resumeButton.textContent = `${label} から再生`;
+  resumeButton.addEventListener('click', () => {
+    hideResumePrompt();
+    onResume();
+  });
+
+  const closeButton = document.createElement('button');
+  closeButton.type = 'button';
+  closeButton.className = 'bn-resume-prompt-close';
+  closeButton.textContent = '×';
+  closeButton.setAttribute('aria-label', '閉じる');
+  closeButton.addEventListener('click', hideResumePrompt);
+
+  prompt.appendChild(resumeButton);
+  prompt.appendChild(closeButton);
+  container.setAttribute(CONTAINER_ATTRIBUTE, '');
+  container.appendChild(prompt);
+  promptElement = prompt;
+
+  promptTimer = window.setTimeout(hideResumePrompt, PROMPT_DURATION_MS);
+}
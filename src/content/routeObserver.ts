@@ -0,0 +1,103 @@
+// Better Niconico - Route Observer
+// ニコニコ動画のクライアントサイド遷移（ページを再読み込みしない遷移）を検出し、ページ種別・動画IDの変化を通知する
+
+import type { PageType } from '../types/pages';
+import { classifyPage, getVideoId } from '../utils/pageClassifier';
+
+/**
+ * 現在のページの位置
+ */
+export interface Route {
+  url: string;
+  pageType: PageType;
+  // 動画視聴ページ以外では null
+  videoId: string | null;
+}
+
+/**
+ * ルート変更の内容
+ */
+export interface RouteChange {
+  previous: Route;
+  current: Route;
+  pageTypeChanged: boolean;
+  videoChanged: boolean;
+}
+
+type RouteChangeListener = (change: RouteChange) => void;
+
+// 最後に検出したルート
+let currentRoute: Route | null = null;
+
+// ルート変更のリスナー
+const listeners = new Set<RouteChangeListener>();
+
+/**
+ * 現在のURLからルートを求める
+ */
+function readRoute(): Route {
+  return {
+    url: window.location.href,
+    pageType: classifyPage(window.location),
+    videoId: getVideoId(window.location),
+  };
+}
+
+/**
+ * 現在のルートを取得
+ */
+export function getCurrentRoute(): Route {
+  currentRoute ??= readRoute();
+  return currentRoute;
+}
+
+/**
+ * ルート変更のリスナーを登録
+ * @returns 登録を解除する関数
+ */
+export function onRouteChange(listener: RouteChangeListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * URLが変化していればリスナーに通知する
+ * DOM変更のたびに呼ばれても、URLが同じであれば何もしない
+ */
+export function checkRouteChange(): void {
+  const previous = getCurrentRoute();
+  if (window.location.href === previous.url) {
+    return;
+  }
+
+  const current = readRoute();
+  currentRoute = current;
+
+  const change: RouteChange = {
+    previous,
+    current,
+    pageTypeChanged: previous.pageType !== current.pageType,
+    videoChanged: previous.videoId !== current.videoId,
+  };
+
+  for (const listener of listeners) {
+    listener(change);
+  }
+}
+
+/**
+ * ルート変更の検出を開始する
+ * - Navigation API の currententrychange: ページ側の pushState / replaceState を含む遷移で発火する
+ * - popstate: ブラウザの戻る・進む（Navigation API 非対応ブラウザ向け）
+ * コンテンツスクリプトは isolated world で動作するため、history.pushState を書き換えてもページ側の呼び出しは捕捉できない
+ * Navigation API が使えない場合は、DOM変更時の checkRouteChange() 呼び出しがフォールバックになる
+ */
+export function setupRouteObserver(): void {
+  getCurrentRoute();
+
+  // Navigation API は TypeScript の lib.dom に未収録のため、EventTarget として扱う
+  const navigation = (window as Window & { navigation?: EventTarget }).navigation;
+  navigation?.addEventListener('currententrychange', checkRouteChange);
+
+  window.addEventListener('popstate', checkRouteChange);
+}
@@ -0,0 +1,82 @@
+// Better Niconico - Selector Health Check
+// 各機能が依存するDOM要素が現在のページで見つかるかを検査し、ニコニコ動画の仕様変更による故障を早期に検出する
+
+import type { PageType } from '../types/pages';
+import type { SelectorHealthReport, TargetHealth } from '../types/selectorHealth';
+import type { SelectorKey, SelectorTarget } from './selectors';
+import { isPageInScope } from '../types/features';
+import { getCurrentPageType } from '../utils/pageClassifier';
+import { SELECTOR_TARGETS, resolveTarget } from './selectors';
+import { FEATURES, isFeatureInScope } from './featureRegistry';
+
+/**
+ * 対象要素を検査する
+ */
+function checkTarget(key: SelectorKey, pageType: PageType): TargetHealth {
+  const target: SelectorTarget = SELECTOR_TARGETS[key];
+  const resolution = resolveTarget(key);
+
+  return {
+    key,
+    description: target.description,
+    expected: !target.optional && isPageInScope(target.pages, pageType),
+    resolved: resolution.elements.length > 0,
+    strategy: resolution.strategy,
+    fallback: resolution.strategyIndex > 0,
+    count: resolution.elements.length,
+  };
+}
+
+/**
+ * 現在のページで全機能の対象要素を検査する
+ */
+export function runSelectorHealthCheck(): SelectorHealthReport {
+  const pageType = getCurrentPageType();
+
+  return {
+    url: window.location.href,
+    pageType,
+    checkedAt: new Date().toISOString(),
+    features: FEATURES.map((feature) => ({
+      feature: feature.key,
+      label: feature.label,
+      inScope: isFeatureInScope(feature, pageType),
+      targets: feature.selectorTargets.map((key) => checkTarget(key, pageType)),
+    })),
+  };
+}
+
+/**
+ * ヘルスチェックの結果をコンソールに出力する
+ * 見つからない要素とフォールバックで見つかった要素は警告として出力する
+ */
+export function logSelectorHealthReport(report: SelectorHealthReport): void {
+  const missing: string[] = [];
+  const fallbacks: string[] = [];
+
+  for (const feature of report.features) {
+    if (!feature.inScope) {
+      continue;
+    }
+
+    for (const target of feature.targets) {
+      if (target.expected && !target.resolved) {
+        missing.push(`${feature.label} → ${target.description}`);
+      } else if (target.fallback) {
+        fallbacks.push(`${feature.label} → ${target.description}（${target.strategy}）`);
+      }
+    }
+  }
+
+  if (missing.length > 0) {
+    console.warn(`[Better Niconico] 見つからない要素があります（${report.pageType}）:\n${missing.join('\n')}`);
+  }
+  if (fallbacks.length > 0) {
+    console.warn(
+      `[Better Niconico] 代替の探し方で見つかった要素があります（${report.pageType}）:\n${fallbacks.join('\n')}`,
+    );
+  }
+  if (missing.length === 0 && fallbacks.length === 0) {
+    console.log(`[Better Niconico] セレクタのヘルスチェック: 問題ありません（${report.pageType}）`);
+  }
+}
@@ -0,0 +1,347 @@
+// Better Niconico - Selector Registry
+// 機能が依存するニコニコ動画のDOM要素のセレクタを一元管理する
+// ハッシュ化されたクラス名などはデプロイのたびに変わりうるため、対象ごとに優先順位付きのフォールバックを持たせる
+
+import type { FeaturePageScope } from '../types/features';
+import type { SelectorStrategyKind } from '../types/selectorHealth';
+
+/**
+ * 要素を探す方法
+ * - class: クラス名などのCSSセレクタ（最も具体的だが、サイト更新で変わりやすい）
+ * - aria: ARIAロール・ラベルやセマンティック要素によるCSSセレクタ
+ * - heading: 見出しのテキストから、その見出しを含むコンテナを探す
+ * - structural: 属性の部分一致や :has() など、DOM構造によるCSSセレクタ
+ *
+ * closest を指定した場合は、見つかった要素から closest() で親要素をたどったものを対象とする
+ * exclusive を指定した場合は、そのセレクタが対象以外の要素に一致しないものとして、
+ * テキストによる確認なしで描画前のスタイルシートに使用する（src/content/earlyStyles.ts）
+ */
+export type SelectorStrategy =
+  | { kind: 'class'; selector: string; closest?: string; exclusive?: boolean }
+  | { kind: 'aria'; selector: string; closest?: string; exclusive?: boolean }
+  | { kind: 'heading'; text: string; headings?: string; closest?: string }
+  | { kind: 'structural'; selector: string; closest?: string; exclusive?: boolean };
+
+/**
+ * セレクタ登録の対象要素
+ */
+export interface SelectorTarget {
+  // ヘルスチェックの表示名
+  description: string;
+  // 要素が存在するはずのページ種別
+  pages: FeaturePageScope;
+  // 優先順位順の探し方（先頭から順に試し、最初に見つかった方法の結果を使う）
+  strategies: readonly SelectorStrategy[];
+  // 状態によって存在しないことがある要素（全画面表示時のみ、など）はヘルスチェックで警告しない
+  optional?: boolean;
+  // 見つかった要素の絞り込み条件（テキストやリンク先など）
+  filter?: (element: Element) => boolean;
+}
+
+// 見出しを探す既定のセレクタ
+const DEFAULT_HEADINGS = 'h1, h2, h3';
+
+/**
+ * すべての対象要素の定義
+ */
+export const SELECTOR_TARGETS = {
+  premiumSection: {
+    description: 'プレミアム会員セクション',
+    pages: ['video_top'],
+    strategies: [
+      // タグのおすすめ動画の共通コンテナで、他のセクションにも使われうるため exclusive にしない
+      { kind: 'class', selector: '.TagPushVideosContainer', closest: '.BaseLayout-block' },
+      { kind: 'heading', text: 'プレミアム会員なら', closest: '.BaseLayout-block' },
+    ],
+  },
+  onAirAnimeSection: {
+    description: 'TV放送中のアニメセクション',
+    pages: ['video_top'],
+    strategies: [
+      { kind: 'class', selector: '.OnTvAnimeVideosContainer', closest: '.BaseLayout-block', exclusive: true },
+      { kind: 'heading', text: 'TV放送中のアニメ', closest: '.BaseLayout-block' },
+    ],
+  },
+  nicoAdSection: {
+    description: 'ニコニ広告セクション',
+    pages: ['watch'],
+    strategies: [
+      { kind: 'heading', text: 'ニコニ広告', headings: 'h1', closest: 'section' },
+      { kind: 'heading', text: 'ニコニ広告', headings: 'h2, h3', closest: 'section' },
+    ],
+  },
+  sidebarContainer: {
+    description: '左サイドバー',
+    pages: ['video_top'],
+    strategies: [
+      { kind: 'class', selector: '.simplebar-content' },
+      { kind: 'aria', selector: 'nav:has(a[href*="/ranking"]), [role="navigation"]:has(a[href*="/ranking"])' },
+    ],
+  },
+  rankingLink: {
+    description: 'サイドバーのランキングリンク',
+    pages: ['video_top'],
+    strategies: [
+      { kind: 'class', selector: 'a.css-1i9dz1a' },
+      { kind: 'structural', selector: 'a[href*="/ranking"]' },
+    ],
+    filter: (element) =>
+      element.textContent?.trim() === 'ランキング' &&
+      element instanceof HTMLAnchorElement &&
+      element.href.includes('/ranking'),
+  },
+  rankingMenuItem: {
+    description: 'サイドバーのランキング項目',
+    pages: ['video_top'],
+    strategies: [
+      { kind: 'class', selector: '.css-1i3qj3a, .css-gzpr6t' },
+      { kind: 'structural', selector: 'div:has(> a[href*="/ranking"])' },
+    ],
+  },
+  watchPlayerArea: {
+    description: '動画プレイヤーのエリア',
+    pages: ['watch'],
+    strategies: [
+      { kind: 'class', selector: '.grid-area_\\[player\\]' },
+      { kind: 'structural', selector: '[class*="grid-area_[player]"]' },
+    ],
+  },
+  watchBottomArea: {
+    description: '動画情報のエリア',
+    pages: ['watch'],
+    strategies: [
+      { kind: 'class', selector: '.grid-area_\\[bottom\\]' },
+      { kind: 'structural', selector: '[class*="grid-area_[bottom]"]' },
+    ],
+  },
+  watchSidebar: {
+    description: '動画視聴ページのサイドバー',
+    pages: ['watch'],
+    strategies: [
+      { kind: 'class', selector: '.grid-area_\\[sidebar\\]' },
+      { kind: 'structural', selector: '[class*="grid-area_[sidebar]"]' },
+    ],
+  },
+  playerVideo: {
+    description: 'プレイヤー内の動画要素',
+    pages: ['watch'],
+    strategies: [
+      { kind: 'class', selector: '.grid-area_\\[player\\] video' },
+      { kind: 'structural', selector: '[class*="grid-area_[player]"] video' },
+    ],
+  },
+  videoAdContainer: {
+    description: '動画広告のコンテナ',
+    pages: ['watch'],
+    // 広告の再生中のみ存在する
+    optional: true,
+    strategies: [
+      { kind: 'class', selector: '#nv_watch_VideoAdContainer' },
+      { kind: 'structural', selector: '[id*="VideoAdContainer"]' },
+    ],
+  },
+  playerFullscreen: {
+    description: '全画面表示中のプレイヤー',
+    pages: ['watch'],
+    optional: true,
+    strategies: [
+      // 参考: https://github.com/Bymnet1845/niconico-classic
+      { kind: 'class', selector: '.grid-area_\\[player\\] > .w_\\[100dvw\\].h_\\[100dvh\\]' },
+      { kind: 'structural', selector: '[class*="grid-area_[player]"] > [class*="w_[100dvw]"][class*="h_[100dvh]"]' },
+    ],
+  },
+  detailInfoSection: {
+    description: '動画の詳細情報セクション',
+    pages: ['watch'],
+    strategies: [
+      { kind: 'heading', text: '動画の詳細情報', headings: 'h1', closest: 'section' },
+      { kind: 'heading', text: '動画の詳細情報', headings: 'h2, h3', closest: 'section' },
+    ],
+  },
+  supporterButton: {
+    description: 'サポートボタン',
+    pages: ['watch'],
+    // サポーター募集をしていない投稿者の動画には存在しない
+    optional: true,
+    strategies: [
+      { kind: 'structural', selector: 'a[href*="creator-support.nicovideo.jp"]' },
+      { kind: 'class', selector: '.NC-CreatorSupportAccepting' },
+    ],
+  },
+  videoCard: {
+    description: '動画一覧の動画カード',
+    pages: ['video_top', 'ranking', 'search', 'tag'],
+    strategies: [
+      { kind: 'class', selector: '.NC-MediaObject[data-video-id]' },
+      { kind: 'class', selector: '.NC-VideoMediaObject' },
+      // 検索・タグ検索ページ（従来のデザイン）
+      { kind: 'structural', selector: 'li.item[data-video-id]' },
+      { kind: 'aria', selector: 'article:has(a[href*="/watch/"])' },
+    ],
+  },
+  profileIcon: {
+    description: 'プロフィールアイコン',
+    pages: 'all',
+    // ログアウト時やアイコンを表示しないページでは存在しない
+    optional: true,
+    strategies: [
+      { kind: 'structural', selector: 'img[src*="nicoaccount/usericon/"], img[src*="comch/channel-icon/"]' },
+      { kind: 'class', selector: '.UserIcon, .ChannelIcon' },
+    ],
+  },
+} as const satisfies Record<string, SelectorTarget>;
+
+/**
+ * 対象要素のキー
+ */
+export type SelectorKey = keyof typeof SELECTOR_TARGETS;
+
+/**
+ * 対象要素を探した結果
+ */
+export interface TargetResolution {
+  elements: HTMLElement[];
+  // 要素が見つかった探し方（見つからなかった場合は null）
+  strategy: SelectorStrategyKind | null;
+  // strategies 内での位置（0 以外はフォールバックで見つかったことを示す）
+  strategyIndex: number;
+}
+
+function getTarget(key: SelectorKey): SelectorTarget {
+  return SELECTOR_TARGETS[key];
+}
+
+/**
+ * 1つの探し方で要素を探す
+ */
+function queryStrategy(strategy: SelectorStrategy, root: ParentNode): Element[] {
+  const anchors =
+    strategy.kind === 'heading'
+      ? Array.from(root.querySelectorAll(strategy.headings ?? DEFAULT_HEADINGS)).filter((heading) =>
+          heading.textContent?.includes(strategy.text),
+        )
+      : Array.from(root.querySelectorAll(strategy.selector));
+
+  if (!strategy.closest) {
+    return anchors;
+  }
+
+  const containers = new Set<Element>();
+  for (const anchor of anchors) {
+    const container = anchor.closest(strategy.closest);
+    if (container) {
+      containers.add(container);
+    }
+  }
+  return Array.from(containers);
+}
+
+/**
+ * 対象要素を探す
+ * 先頭の探し方から順に試し、絞り込み条件を満たす要素が見つかった時点で終了する
+ */
+export function resolveTarget(key: SelectorKey, root: ParentNode = document): TargetResolution {
+  const target = getTarget(key);
+
+  for (const [index, strategy] of target.strategies.entries()) {
+    const elements = queryStrategy(strategy, root).filter(
+      (element): element is HTMLElement =>
+        element instanceof HTMLElement && (target.filter?.(element) ?? true),
+    );
+    if (elements.length > 0) {
+      return { elements, strategy: strategy.kind, strategyIndex: index };
+    }
+  }
+
+  return { elements: [], strategy: null, strategyIndex: -1 };
+}
+
+/**
+ * 対象要素のうち最初の1つを取得
+ */
+export function queryTarget(key: SelectorKey, root: ParentNode = document): HTMLElement | null {
+  return resolveTarget(key, root).elements[0] ?? null;
+}
+
+/**
+ * 対象要素をすべて取得
+ */
+export function queryTargetAll(key: SelectorKey, root: ParentNode = document): HTMLElement[] {
+  return resolveTarget(key, root).elements;
+}
+
+/**
+ * 要素自身または祖先から対象要素を探す（Element.closest() のフォールバック付き版）
+ * 見出しの探し方は祖先の探索に使えないため、CSSセレクタの探し方のみを試す
+ */
+export function closestTarget(key: SelectorKey, element: Element): HTMLElement | null {
+  const target = getTarget(key);
+
+  for (const strategy of target.strategies) {
+    if (strategy.kind === 'heading') {
+      continue;
+    }
+
+    const found = element.closest(strategy.selector);
+    if (found instanceof HTMLElement && (target.filter?.(found) ?? true)) {
+      return found;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 対象要素の変化を検出するためのCSSセレクタ（機能モジュールの mutationTargets に使用）
+ * 見出しの探し方は見出し要素のセレクタを使う（コンテナの追加時は querySelector、見出しテキストの更新時は closest で一致する）
+ */
+export function getTargetSelectors(key: SelectorKey): string[] {
+  const selectors = getTarget(key).strategies.map((strategy) =>
+    strategy.kind === 'heading' ? (strategy.headings ?? DEFAULT_HEADINGS) : strategy.selector,
+  );
+  return Array.from(new Set(selectors));
+}
+
+/**
+ * セレクタに一致する要素（closest を指定した場合はその祖先）をスタイルシートで指定するCSSセレクタに変換する
+ * closest は「そのセレクタを含む最も内側の祖先」を :has() と :not(:has()) で表す
+ * （selector・closest がセレクタリストの場合も1つの条件になるよう :is() で囲む）
+ * :has() は入れ子にできないため、:has() を含むセレクタからの closest は変換できない（null を返す）
+ * querySelector では使えても :has() の中では使えないセレクタ（::before など）があるため、
+ * 変換後のセレクタをブラウザが解釈できない場合も null を返す（1つでも解釈できないとスタイルシートのルール全体が無効になる）
+ */
+export function toStylesheetSelector(selector: string, closest?: string | null): string | null {
+  if (closest && (selector.includes(':has(') || closest.includes(':has('))) {
+    return null;
+  }
+
+  const stylesheetSelector = closest
+    ? `:is(${closest}):has(${selector}):not(:has(:is(${closest}) :is(${selector})))`
+    : selector;
+  return CSS.supports(`selector(${stylesheetSelector})`) ? stylesheetSelector : null;
+}
+
+/**
+ * 対象要素に一致するスタイルシート用のCSSセレクタ（document_start で挿入するスタイルシートに使用）
+ * スタイルシートではテキストを確認できないため、exclusive を指定した探し方のみを使う
+ * CSSで表せない探し方（見出しのテキスト、:has() を含むセレクタからの closest、絞り込み条件）も含めない
+ */
+export function getTargetStylesheetSelectors(key: SelectorKey): string[] {
+  const target = getTarget(key);
+  if (target.filter) {
+    return [];
+  }
+
+  const selectors: string[] = [];
+  for (const strategy of target.strategies) {
+    if (strategy.kind === 'heading' || !strategy.exclusive) {
+      continue;
+    }
+
+    const selector = toStylesheetSelector(strategy.selector, strategy.closest);
+    if (selector) {
+      selectors.push(selector);
+    }
+  }
+  return Array.from(new Set(selectors));
+}
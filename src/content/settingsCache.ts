@@ -0,0 +1,61 @@
+// Better Niconico - Settings Cache
+// コンテンツスクリプト内で設定をメモリに保持し、DOM変更のたびに chrome.storage を読み直さないようにする
+
+import type { ResultAsync } from 'neverthrow';
+import type { BetterNiconicoSettings } from '../types/settings';
+import type { FeatureKey } from '../types/features';
+import type { StorageError } from '../types/errors';
+import { DEFAULT_SETTINGS } from '../types/settings';
+import { FEATURE_DEFINITIONS } from '../types/features';
+import { loadSettings } from '../utils/storage';
+import { parseSettings } from '../utils/settingsSchema';
+import { getCurrentPageType, resolveFeatureSettings } from '../utils/pageClassifier';
+import { reportError } from '../utils/errorLog';
+
+// キャッシュされた設定（読み込み前・読み込み失敗時はデフォルト設定）
+let cachedSettings: BetterNiconicoSettings = DEFAULT_SETTINGS;
+
+/**
+ * キャッシュされた設定を取得
+ */
+export function getCachedSettings(): BetterNiconicoSettings {
+  return cachedSettings;
+}
+
+/**
+ * chrome.storage から設定を読み込み、キャッシュを更新する
+ * 読み込みに失敗した場合、キャッシュは変更しない
+ */
+export function refreshSettingsCache(): ResultAsync<BetterNiconicoSettings, StorageError> {
+  return loadSettings().map((settings) => {
+    cachedSettings = settings;
+    return settings;
+  });
+}
+
+/**
+ * chrome.storage.onChanged で受け取った新しい値でキャッシュを更新する
+ * 値が不正な場合はキャッシュを変更しない
+ * @returns 現在のページ種別で実際の値が変化した機能の設定キー
+ */
+export function updateSettingsCache(newValue: unknown): Set<FeatureKey> {
+  const settingsResult = parseSettings(newValue);
+  if (settingsResult.isErr()) {
+    console.error('[Better Niconico] 変更された設定が不正です:', settingsResult.error);
+    reportError(settingsResult.error, 'settings');
+    return new Set();
+  }
+
+  const pageType = getCurrentPageType();
+  const previous = resolveFeatureSettings(cachedSettings, pageType);
+  cachedSettings = settingsResult.value;
+  const current = resolveFeatureSettings(cachedSettings, pageType);
+
+  const changedKeys = new Set<FeatureKey>();
+  for (const feature of FEATURE_DEFINITIONS) {
+    if (previous[feature.key] !== current[feature.key]) {
+      changedKeys.add(feature.key);
+    }
+  }
+  return changedKeys;
+}
@@ -0,0 +1,110 @@
+// Better Niconico - Keyboard Shortcuts
+// ページ内ショートカット・chrome.commands で機能のオン/オフを切り替え、トーストで結果を表示する
+
+import type { ResultAsync } from 'neverthrow';
+import type { FeatureKey } from '../types/features';
+import type { FeatureToggleResult } from '../types/messages';
+import type { ShortcutBindings } from '../types/shortcuts';
+import type { StorageError } from '../types/errors';
+import { FEATURE_DEFINITIONS, isPageInScope } from '../types/features';
+import { SHORTCUTS_KEY } from '../types/shortcuts';
+import { loadShortcuts, saveSettings } from '../utils/storage';
+import { getShortcutFromEvent, parseShortcutBindings } from '../utils/shortcuts';
+import { getCurrentPageType, resolveFeatureSettings, toggleFeatureForPage } from '../utils/pageClassifier';
+import { reportError } from '../utils/errorLog';
+import { getCachedSettings } from './settingsCache';
+import { showToast } from './toast';
+
+// ショートカット → 機能の設定キー
+let shortcutFeatures = new Map<string, FeatureKey>();
+
+/**
+ * 割り当てを検索用の対応表に変換する
+ */
+function updateBindings(bindings: ShortcutBindings): void {
+  shortcutFeatures = new Map();
+  for (const [feature, shortcut] of Object.entries(bindings) as [FeatureKey, string][]) {
+    shortcutFeatures.set(shortcut, feature);
+  }
+}
+
+/**
+ * 文字入力中の要素か（コメント入力欄・検索欄などではショートカットを無効にする）
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+
+  return target.isContentEditable || target.closest('input, textarea, select, [contenteditable="true"]') !== null;
+}
+
+/**
+ * 現在のページ種別での機能のオン/オフを反転して保存し、トーストで結果を表示する
+ * 機能の再適用は chrome.storage.onChanged 経由で行われる
+ */
+export function toggleFeature(key: FeatureKey): ResultAsync<FeatureToggleResult, StorageError> {
+  const pageType = getCurrentPageType();
+  const newSettings = toggleFeatureForPage(getCachedSettings(), pageType, key);
+  const enabled = resolveFeatureSettings(newSettings, pageType)[key];
+  const definition = FEATURE_DEFINITIONS.find((feature) => feature.key === key);
+
+  return saveSettings(newSettings)
+    .map(() => {
+      const label = definition?.label ?? key;
+      const note = definition && !isPageInScope(definition.pageScope, pageType) ? '（このページでは動作しません）' : '';
+      showToast(`${label}: ${enabled ? 'オン' : 'オフ'}${note}`);
+      return { feature: key, enabled };
+    })
+    .mapErr((error) => {
+      console.error('[Better Niconico] 設定保存エラー:', error);
+      reportError(error, key);
+      showToast('設定の保存に失敗しました');
+      return error;
+    });
+}
+
+/**
+ * キー入力がショートカットに一致すれば機能を切り替える
+ * プレイヤーなどサイト側のキー操作より先に処理するため、キャプチャフェーズで受け取る
+ */
+function handleKeydown(event: KeyboardEvent): void {
+  if (event.repeat || shortcutFeatures.size === 0 || isEditableTarget(event.target)) {
+    return;
+  }
+
+  const shortcut = getShortcutFromEvent(event);
+  const feature = shortcut ? shortcutFeatures.get(shortcut) : undefined;
+  if (!feature) {
+    return;
+  }
+
+  event.preventDefault();
+  event.stopPropagation();
+  void toggleFeature(feature);
+}
+
+/**
+ * ページ内ショートカットを設定する
+ * 割り当ての変更は chrome.storage.onChanged で反映する
+ */
+export async function setupShortcuts(): Promise<void> {
+  const bindingsResult = await loadShortcuts();
+  if (bindingsResult.isErr()) {
+    console.error('[Better Niconico] ショートカットの読み込みに失敗しました:', bindingsResult.error);
+    reportError(bindingsResult.error, 'settings');
+  } else {
+    updateBindings(bindingsResult.value);
+  }
+
+  window.addEventListener('keydown', handleKeydown, true);
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if ((areaName === 'sync' || areaName === 'local') && changes[SHORTCUTS_KEY]) {
+      const parsed = parseShortcutBindings(changes[SHORTCUTS_KEY].newValue);
+      if (parsed.isOk()) {
+        updateBindings(parsed.value);
+      }
+    }
+  });
+}
@@ -0,0 +1,38 @@
+// Better Niconico - Toast
+// ページ上に短いメッセージを一時的に表示する
+
+// トーストを表示しておく時間
+const TOAST_DURATION_MS = 2000;
+
+// 表示中のトースト（連続して表示する場合は同じ要素を使い回す）
+let toastElement: HTMLDivElement | null = null;
+let hideTimer: number | null = null;
+
+/**
+ * トーストを表示する
+ * フルスクリーン中はフルスクリーン要素の中に表示する（body に追加すると見えないため）
+ */
+export function showToast(message: string): void {
+  if (!toastElement) {
+    toastElement = document.createElement('div');
+    toastElement.className = 'bn-toast';
+    toastElement.setAttribute('role', 'status');
+  }
+
+  const container = document.fullscreenElement ?? document.body;
+  if (toastElement.parentElement !== container) {
+    container.appendChild(toastElement);
+  }
+
+  toastElement.textContent = message;
+  // 追加直後でもトランジションが効くよう、次のフレームで表示する
+  requestAnimationFrame(() => toastElement?.classList.add('bn-toast-visible'));
+
+  if (hideTimer !== null) {
+    clearTimeout(hideTimer);
+  }
+  hideTimer = window.setTimeout(() => {
+    hideTimer = null;
+    toastElement?.classList.remove('bn-toast-visible');
+  }, TOAST_DURATION_MS);
+}
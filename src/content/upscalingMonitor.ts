@@ -0,0 +1,159 @@
+// Better Niconico - Upscaling Frame Monitor
+// アップスケーリングの描画が動画のフレームに間に合っているかを監視する
+//
+// anime4k-webgpu の render() は動画のフレームごとに device.queue.submit() で描画の処理を送る
+// アップスケーリングに使用している GPUDevice の submit() を置き換え、送った処理の数と GPU で終わった処理の数
+// （onSubmittedWorkDone で確認する）を比べる
+// 送ってから終わるまでの時間は GPU のパイプライン処理や待ち時間を含み、間に合っていてもフレーム間隔を超えることがあるため使わない
+// GPU の処理が間に合わない場合は、終わる処理の数が送る処理の数に追いつかず、終わっていない処理が溜まり続ける
+
+// 1回の判定に使うフレーム数（submit() の回数）
+const WINDOW_FRAMES = 120;
+
+// 区間内に終わった処理の数が、送った処理の数のこの割合を下回った区間は、描画が間に合っていないとみなす
+const MIN_COMPLETION_RATIO = 0.9;
+
+// 終わっていない処理の数がこれ以下の場合は、パイプライン処理による通常の遅れとみなす
+const MAX_PENDING_FRAMES = 6;
+
+// 描画が間に合っていない区間がこの回数続いた場合に知らせる（一時的な負荷では切り替えない）
+const OVER_BUDGET_WINDOWS = 3;
+
+// submit() の間隔がこれを超えた場合は、一時停止・シーク・非表示のタブなどによる中断とみなし、区間を数え直す
+const MAX_FRAME_INTERVAL_MS = 250;
+
+/**
+ * 描画が間に合っていないと判定した区間の計測結果
+ */
+export interface FrameBudgetReport {
+  // 区間内に送った処理の数
+  submittedFrames: number;
+  // 区間内に GPU で終わった処理の数
+  completedFrames: number;
+  // 区間の終わりに GPU で終わっていない処理の数
+  pendingFrames: number;
+}
+
+// 監視を開始するたびに増やす番号（開始し直す前に送った処理の完了を数えないため）
+let monitorGeneration = 0;
+
+// 監視中の GPUQueue と、置き換える前の submit()
+let monitoredQueue: GPUQueue | null = null;
+let originalSubmit: GPUQueue['submit'] | null = null;
+
+// 描画が間に合っていない状態が続いた場合の処理
+let overBudgetHandler: ((report: FrameBudgetReport) => void) | null = null;
+
+// 前回 submit() した時刻
+let lastSubmitAt: number | null = null;
+
+// 監視を開始してから送った処理の数と、GPU で終わった処理の数（送った順の番号で数える）
+let submittedCount = 0;
+let completedCount = 0;
+
+// 集計中の区間の開始時点の submittedCount・completedCount
+let windowStartSubmitted = 0;
+let windowStartCompleted = 0;
+
+// 描画が間に合っていない区間が続いた回数
+let overBudgetWindows = 0;
+
+/**
+ * 集計中の区間を現在の時点から数え直す
+ */
+function resetWindow(): void {
+  windowStartSubmitted = submittedCount;
+  windowStartCompleted = completedCount;
+}
+
+/**
+ * 区間の集計から描画が間に合っているかを判定し、間に合っていない状態が続いた場合は知らせる
+ */
+function evaluateWindow(): void {
+  const report: FrameBudgetReport = {
+    submittedFrames: submittedCount - windowStartSubmitted,
+    completedFrames: completedCount - windowStartCompleted,
+    pendingFrames: submittedCount - completedCount,
+  };
+  resetWindow();
+
+  const overBudget =
+    report.completedFrames < report.submittedFrames * MIN_COMPLETION_RATIO && report.pendingFrames > MAX_PENDING_FRAMES;
+  overBudgetWindows = overBudget ? overBudgetWindows + 1 : 0;
+
+  if (overBudgetWindows >= OVER_BUDGET_WINDOWS && overBudgetHandler) {
+    const handler = overBudgetHandler;
+    stopFrameMonitor();
+    handler(report);
+  }
+}
+
+/**
+ * 送った処理が GPU で終わったことを記録する
+ */
+function recordSubmittedWork(queue: GPUQueue, sequence: number): void {
+  const generation = monitorGeneration;
+  queue.onSubmittedWorkDone().then(
+    () => {
+      // 監視を停止・開始し直した後に終わった処理は数えない
+      if (monitoredQueue !== queue || monitorGeneration !== generation) {
+        return;
+      }
+      completedCount = Math.max(completedCount, sequence);
+    },
+    () => {
+      // GPUDevice が破棄された場合は計測しない
+    },
+  );
+}
+
+/**
+ * 描画が間に合っているかの監視を開始する
+ * @param device - アップスケーリングに使用している GPUDevice（render() の pipelineBuilder で受け取ったもの）
+ * @param onOverBudget - 描画が間に合っていない状態が続いた場合の処理（呼ばれる前に監視は停止する）
+ */
+export function startFrameMonitor(device: GPUDevice, onOverBudget: (report: FrameBudgetReport) => void): void {
+  stopFrameMonitor();
+  monitorGeneration++;
+
+  const queue = device.queue;
+  const submit = queue.submit;
+  monitoredQueue = queue;
+  originalSubmit = submit;
+  overBudgetHandler = onOverBudget;
+
+  queue.submit = (commandBuffers) => {
+    const submittedAt = performance.now();
+    submit.call(queue, commandBuffers);
+
+    // 中断の間は処理を送らず、溜まっていた処理も終わるため、中断をまたぐ区間は数えない
+    if (lastSubmitAt !== null && submittedAt - lastSubmitAt > MAX_FRAME_INTERVAL_MS) {
+      resetWindow();
+    }
+    lastSubmitAt = submittedAt;
+
+    submittedCount++;
+    recordSubmittedWork(queue, submittedCount);
+    if (submittedCount - windowStartSubmitted >= WINDOW_FRAMES) {
+      evaluateWindow();
+    }
+  };
+}
+
+/**
+ * 監視を停止し、submit() を元に戻す
+ */
+export function stopFrameMonitor(): void {
+  if (monitoredQueue && originalSubmit) {
+    monitoredQueue.submit = originalSubmit;
+  }
+
+  monitoredQueue = null;
+  originalSubmit = null;
+  overBudgetHandler = null;
+  lastSubmitAt = null;
+  submittedCount = 0;
+  completedCount = 0;
+  resetWindow();
+  overBudgetWindows = 0;
+}
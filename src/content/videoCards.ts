@@ -0,0 +1,121 @@
+// Better Niconico - Video Cards
+// 動画一覧の動画カードから、動画ID・タイトル・投稿者・タグを読み取る
+// 一覧の種類によって表示される項目が異なるため、読み取れない項目は null / 空配列にする
+
+import type { VideoCardInfo } from '../types/videoFilters';
+import { closestTarget, queryTargetAll } from './selectors';
+
+// 動画視聴ページのURLから動画IDを取り出す
+const WATCH_URL_PATTERN = /\/watch\/([a-z]{2}\d+|\d+)/;
+
+// 投稿者ページのURLからユーザーIDを取り出す
+const USER_URL_PATTERN = /\/user\/(\d+)/;
+
+// チャンネルページのURLからチャンネルIDを取り出す
+const CHANNEL_URL_PATTERN = /ch\.nicovideo\.jp\/(ch\d+|[\w-]+)/;
+
+// タイトルを表示する要素
+const TITLE_SELECTOR = '.NC-VideoMediaObject-title, .NC-MediaObjectTitle, .itemTitle';
+
+// 投稿者へのリンク
+const UPLOADER_LINK_SELECTOR = 'a[href*="/user/"], a[href*="ch.nicovideo.jp/"]';
+
+// タグへのリンク
+const TAG_LINK_SELECTOR = 'a[href*="/tag/"]';
+
+/**
+ * 要素の表示テキスト（前後の空白を除き、連続する空白を1つにまとめる）
+ */
+function getText(element: Element | null): string {
+  return (element?.textContent ?? '').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * 動画IDを読み取る
+ */
+function getVideoId(card: HTMLElement): string | null {
+  const dataId = card.dataset.videoId ?? card.querySelector<HTMLElement>('[data-video-id]')?.dataset.videoId;
+  if (dataId) {
+    return dataId;
+  }
+
+  const link = card.querySelector<HTMLAnchorElement>('a[href*="/watch/"]');
+  return link?.href.match(WATCH_URL_PATTERN)?.[1] ?? null;
+}
+
+/**
+ * タイトルを読み取る
+ * タイトル用の要素がない一覧では、動画へのリンクの title 属性・サムネイルの alt・リンクのテキストの順に使う
+ */
+function getTitle(card: HTMLElement): string {
+  const title = getText(card.querySelector(TITLE_SELECTOR));
+  if (title) {
+    return title;
+  }
+
+  const link = card.querySelector<HTMLAnchorElement>('a[href*="/watch/"]');
+  return (
+    link?.title ||
+    card.querySelector<HTMLImageElement>('a[href*="/watch/"] img[alt]')?.alt ||
+    getText(link)
+  );
+}
+
+/**
+ * 投稿者のIDと名前を読み取る
+ */
+function getUploader(card: HTMLElement): Pick<VideoCardInfo, 'uploaderId' | 'uploaderName'> {
+  const link = card.querySelector<HTMLAnchorElement>(UPLOADER_LINK_SELECTOR);
+  if (!link) {
+    return { uploaderId: null, uploaderName: null };
+  }
+
+  const uploaderId = link.href.match(USER_URL_PATTERN)?.[1] ?? link.href.match(CHANNEL_URL_PATTERN)?.[1] ?? null;
+  const uploaderName = getText(link) || link.querySelector<HTMLImageElement>('img[alt]')?.alt || null;
+  return { uploaderId, uploaderName };
+}
+
+/**
+ * タグを読み取る（タグが表示される一覧のみ）
+ */
+function getTags(card: HTMLElement): string[] {
+  const tags = new Set<string>();
+  for (const link of card.querySelectorAll(TAG_LINK_SELECTOR)) {
+    const tag = getText(link);
+    if (tag) {
+      tags.add(tag);
+    }
+  }
+  return Array.from(tags);
+}
+
+/**
+ * 動画カードの情報を読み取る（動画IDを読み取れない場合は null）
+ */
+export function getVideoCardInfo(card: HTMLElement): VideoCardInfo | null {
+  const videoId = getVideoId(card);
+  if (!videoId) {
+    return null;
+  }
+
+  return {
+    videoId,
+    title: getTitle(card),
+    ...getUploader(card),
+    tags: getTags(card),
+  };
+}
+
+/**
+ * ページ内の動画カードをすべて取得
+ */
+export function findVideoCards(root: ParentNode = document): HTMLElement[] {
+  return queryTargetAll('videoCard', root);
+}
+
+/**
+ * 要素を含む動画カードを取得（右クリックした要素など）
+ */
+export function findVideoCardFromElement(element: Element): HTMLElement | null {
+  return closestTarget('videoCard', element);
+}
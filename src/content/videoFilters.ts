@@ -0,0 +1,116 @@
+// Better Niconico - Video Filters
+// NGフィルタの設定をキャッシュし、コンテキストメニューから投稿者をNGフィルタに追加する
+// 動画カードへの適用は機能モジュール（features/videoFilter.ts）で行う
+
+import type { ResultAsync } from 'neverthrow';
+import { errAsync } from 'neverthrow';
+import type { VideoCardInfo, VideoFilterRule, VideoFilterSettings } from '../types/videoFilters';
+import type { PageError, StorageError } from '../types/errors';
+import { DEFAULT_VIDEO_FILTER_SETTINGS, VIDEO_FILTER_TYPE_LABELS } from '../types/videoFilters';
+import { domElementNotFoundError } from '../types/errors';
+import { addVideoFilterRule, loadVideoFilters } from '../utils/storage';
+import { compileVideoFilter, parseVideoFilterSettings } from '../utils/videoFilters';
+import { reportError } from '../utils/errorLog';
+import { findVideoCardFromElement, getVideoCardInfo } from './videoCards';
+import { showToast } from './toast';
+
+// NGフィルタの設定（読み込み前・読み込み失敗時はルールなし）
+let filters: VideoFilterSettings = DEFAULT_VIDEO_FILTER_SETTINGS;
+
+// 設定から作成した照合関数
+let matchFilter: (info: VideoCardInfo) => VideoFilterRule | null = compileVideoFilter([]);
+
+// 最後に右クリックされた要素（コンテキストメニューのクリックにはクリック位置の情報がないため）
+let lastContextMenuTarget: Element | null = null;
+
+function setFilters(newFilters: VideoFilterSettings): void {
+  filters = newFilters;
+  matchFilter = compileVideoFilter(newFilters.rules);
+}
+
+/**
+ * キャッシュされたNGフィルタの設定を取得
+ */
+export function getVideoFilters(): VideoFilterSettings {
+  return filters;
+}
+
+/**
+ * 動画カードの情報に一致する有効なルールを探す（一致しない場合は null）
+ */
+export function matchVideoFilter(info: VideoCardInfo): VideoFilterRule | null {
+  return matchFilter(info);
+}
+
+/**
+ * chrome.storage からNGフィルタの設定を読み込み、キャッシュを更新する
+ */
+export function refreshVideoFiltersCache(): ResultAsync<VideoFilterSettings, StorageError> {
+  return loadVideoFilters().map((newFilters) => {
+    setFilters(newFilters);
+    return newFilters;
+  });
+}
+
+/**
+ * chrome.storage.onChanged で受け取った新しい値でキャッシュを更新する
+ * 値が不正な場合はキャッシュを変更せず false を返す
+ */
+export function updateVideoFiltersCache(newValue: unknown): boolean {
+  const filtersResult = parseVideoFilterSettings(newValue);
+  if (filtersResult.isErr()) {
+    console.error('[Better Niconico] 変更されたNGフィルタが不正です:', filtersResult.error);
+    reportError(filtersResult.error, 'videoFilter');
+    return false;
+  }
+
+  setFilters(filtersResult.value);
+  return true;
+}
+
+/**
+ * 右クリックされた要素を記録する
+ * ページ側のメニューより先に受け取るため、キャプチャフェーズで登録する
+ */
+export function setupVideoFilterContextMenu(): void {
+  document.addEventListener(
+    'contextmenu',
+    (event) => {
+      lastContextMenuTarget = event.target instanceof Element ? event.target : null;
+    },
+    true,
+  );
+}
+
+/**
+ * 最後に右クリックされた動画カードの投稿者をNGフィルタに追加し、トーストで結果を表示する
+ * 投稿者IDが読み取れる場合はIDで、読み取れない場合は投稿者名で追加する
+ * フィルタの再適用は chrome.storage.onChanged 経由で行われる
+ */
+export function addUploaderFilterFromContextMenu(): ResultAsync<VideoFilterRule, PageError | StorageError> {
+  const card = lastContextMenuTarget ? findVideoCardFromElement(lastContextMenuTarget) : null;
+  const info = card ? getVideoCardInfo(card) : null;
+  const uploader = info?.uploaderId
+    ? { type: 'uploaderId' as const, value: info.uploaderId }
+    : info?.uploaderName
+      ? { type: 'uploaderName' as const, value: info.uploaderName }
+      : null;
+  if (!uploader) {
+    showToast('投稿者を特定できませんでした');
+    return errAsync(domElementNotFoundError('Uploader not found in the clicked video card', 'videoCard'));
+  }
+
+  const label = info?.uploaderName ?? uploader.value;
+
+  return addVideoFilterRule(uploader.type, uploader.value)
+    .map((rule) => {
+      showToast(`「${label}」をNGフィルタに追加しました（${VIDEO_FILTER_TYPE_LABELS[uploader.type]}）`);
+      return rule;
+    })
+    .mapErr((error) => {
+      console.error('[Better Niconico] NGフィルタの保存に失敗しました:', error);
+      reportError(error, 'videoFilter');
+      showToast('NGフィルタの保存に失敗しました');
+      return error;
+    });
+}
@@ -0,0 +1,46 @@
+// Better Niconico - Video Upscaling
+// 動画アップスケーリングの設定（パイプライン・出力解像度）のキャッシュ
+
+import type { ResultAsync } from 'neverthrow';
+import type { UpscalingSettings } from '../types/upscaling';
+import type { StorageError } from '../types/errors';
+import { DEFAULT_UPSCALING_SETTINGS } from '../types/upscaling';
+import { loadUpscalingSettings } from '../utils/storage';
+import { parseUpscalingSettings } from '../utils/upscaling';
+import { reportError } from '../utils/errorLog';
+
+// 動画アップスケーリングの設定（読み込み前・読み込み失敗時は既定値）
+let settings: UpscalingSettings = DEFAULT_UPSCALING_SETTINGS;
+
+/**
+ * キャッシュされた設定を取得
+ */
+export function getUpscalingSettings(): UpscalingSettings {
+  return settings;
+}
+
+/**
+ * chrome.storage から設定を読み込み、キャッシュを更新する
+ */
+export function refreshUpscalingCache(): ResultAsync<UpscalingSettings, StorageError> {
+  return loadUpscalingSettings().map((newSettings) => {
+    settings = newSettings;
+    return newSettings;
+  });
+}
+
+/**
+ * chrome.storage.onChanged で受け取った新しい値でキャッシュを更新する
+ * 値が不正な場合はキャッシュを変更せず false を返す
+ */
+export function updateUpscalingCache(newValue: unknown): boolean {
+  const settingsResult = parseUpscalingSettings(newValue);
+  if (settingsResult.isErr()) {
+    console.error('[Better Niconico] 変更された動画アップスケーリングの設定が不正です:', settingsResult.error);
+    reportError(settingsResult.error, 'enableVideoUpscaling');
+    return false;
+  }
+
+  settings = settingsResult.value;
+  return true;
+}
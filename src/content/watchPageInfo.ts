@@ -0,0 +1,143 @@
+// Better Niconico - Watch Page Info
+// 動画視聴ページから、表示中の動画のID・タイトル・投稿者・タグ・長さを読み取る
+//
+// 最初に開いたページでは、ページに埋め込まれたサーバーの応答（meta[name="server-response"]）を使う
+// クライアントサイド遷移後は埋め込みの内容が古くなるため、動画IDが一致しない場合はDOMから読み取る
+// 埋め込みの応答は大きいため、動画ごとに1度だけ解析してキャッシュする（ページ遷移時に clearWatchPageInfoCache() で消す）
+
+import type { VideoCardInfo } from '../types/videoFilters';
+import { getVideoId } from '../utils/pageClassifier';
+import { isRecord } from '../utils/typeGuards';
+import { queryTarget } from './selectors';
+import { getVideoElement } from './playerVideo';
+
+/**
+ * 表示中の動画の情報
+ * 動画一覧の動画カードと同じ項目に、動画の長さ（秒。読み取れない場合は null）を加えたもの
+ */
+export interface WatchPageInfo extends VideoCardInfo {
+  duration: number | null;
+}
+
+// ページのタイトルの末尾に付くサイト名
+const TITLE_SUFFIX_PATTERN = /\s*-\s*ニコニコ動画.*$/;
+
+// 投稿者ページのURLからユーザーIDを取り出す
+const USER_URL_PATTERN = /\/user\/(\d+)/;
+
+// チャンネルページのURLからチャンネルIDを取り出す
+const CHANNEL_URL_PATTERN = /ch\.nicovideo\.jp\/(ch\d+|[\w-]+)/;
+
+// 埋め込みの応答から読み取った動画の情報（動画IDが一致しなかった場合は info が null）
+let serverResponseCache: { videoId: string; info: WatchPageInfo | null } | null = null;
+
+function getText(element: Element | null): string {
+  return (element?.textContent ?? '').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * ページに埋め込まれたサーバーの応答を解析する（動画IDが一致しない場合は null）
+ */
+function parseServerResponse(content: string, videoId: string): WatchPageInfo | null {
+  let response: unknown;
+  try {
+    response = (JSON.parse(content) as { data?: { response?: unknown } }).data?.response;
+  } catch {
+    return null;
+  }
+
+  if (!isRecord(response) || !isRecord(response.video) || response.video.id !== videoId) {
+    return null;
+  }
+
+  const { video, owner, channel, tag } = response;
+  const uploader = isRecord(owner)
+    ? { id: owner.id, name: owner.nickname }
+    : isRecord(channel)
+      ? { id: channel.id, name: channel.name }
+      : null;
+  const tags = isRecord(tag) && Array.isArray(tag.items) ? tag.items : [];
+
+  return {
+    videoId,
+    title: typeof video.title === 'string' ? video.title : '',
+    uploaderId: uploader && (typeof uploader.id === 'string' || typeof uploader.id === 'number') ? String(uploader.id) : null,
+    uploaderName: uploader && typeof uploader.name === 'string' && uploader.name !== '' ? uploader.name : null,
+    tags: tags
+      .map((item: unknown) => (isRecord(item) && typeof item.name === 'string' ? item.name : ''))
+      .filter((name: string) => name !== ''),
+    duration: typeof video.duration === 'number' && video.duration > 0 ? video.duration : null,
+  };
+}
+
+/**
+ * ページに埋め込まれたサーバーの応答から読み取る（動画IDが一致しない場合は null）
+ * 同じ動画では、最初に解析した結果を返す
+ */
+function readServerResponse(videoId: string): WatchPageInfo | null {
+  if (serverResponseCache?.videoId === videoId) {
+    return serverResponseCache.info;
+  }
+
+  const content = document.querySelector<HTMLMetaElement>('meta[name="server-response"]')?.content;
+  if (!content) {
+    return null;
+  }
+
+  serverResponseCache = { videoId, info: parseServerResponse(content, videoId) };
+  return serverResponseCache.info;
+}
+
+/**
+ * DOMから読み取る
+ * タイトルはページのタイトル、投稿者とタグは動画情報のエリアのリンクから読み取る
+ */
+function readFromDom(videoId: string): WatchPageInfo {
+  const bottomArea = queryTarget('watchBottomArea');
+  const uploaderLink = bottomArea?.querySelector<HTMLAnchorElement>('a[href*="/user/"], a[href*="ch.nicovideo.jp/"]');
+  const tags = new Set<string>();
+  for (const link of bottomArea?.querySelectorAll('a[href*="/tag/"]') ?? []) {
+    const tag = getText(link);
+    if (tag) {
+      tags.add(tag);
+    }
+  }
+
+  return {
+    videoId,
+    title: document.title.replace(TITLE_SUFFIX_PATTERN, '').trim(),
+    uploaderId:
+      uploaderLink?.href.match(USER_URL_PATTERN)?.[1] ?? uploaderLink?.href.match(CHANNEL_URL_PATTERN)?.[1] ?? null,
+    uploaderName: getText(uploaderLink ?? null) || null,
+    tags: Array.from(tags),
+    duration: null,
+  };
+}
+
+/**
+ * 表示中の動画の情報を読み取る（動画視聴ページ以外では null）
+ * 動画の長さは、埋め込みの応答にない場合はメインコンテンツの動画要素から読み取る
+ */
+export function getWatchPageInfo(): WatchPageInfo | null {
+  const videoId = getVideoId(window.location);
+  if (!videoId) {
+    return null;
+  }
+
+  const cachedInfo = readServerResponse(videoId);
+  const info = cachedInfo ? { ...cachedInfo } : readFromDom(videoId);
+  if (info.duration === null) {
+    const duration = getVideoElement()?.duration;
+    if (duration !== undefined && Number.isFinite(duration) && duration > 0) {
+      info.duration = duration;
+    }
+  }
+  return info;
+}
+
+/**
+ * 埋め込みの応答から読み取った情報のキャッシュを消す（クライアントサイド遷移時に呼ぶ）
+ */
+export function clearWatchPageInfoCache(): void {
+  serverResponseCache = null;
+}
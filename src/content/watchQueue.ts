@@ -0,0 +1,107 @@
+// Better Niconico - Watch Queue
+// 「あとで見る」キューのキャッシュと、動画カード・動画視聴ページからの追加・削除・並べ替え
+//
+// 変更は保存された内容に対して行い、キャッシュは chrome.storage.onChanged 経由で更新する
+// （他のタブでの変更も同じ経路で反映される）
+
+import type { ResultAsync } from 'neverthrow';
+import type { StorageError } from '../types/errors';
+import type { WatchQueueEntry } from '../types/watchQueue';
+import { MAX_WATCH_QUEUE_ENTRIES } from '../types/watchQueue';
+import { loadWatchQueue, updateWatchQueue } from '../utils/storage';
+import { appendWatchQueueEntry, moveWatchQueueEntry, parseWatchQueue } from '../utils/watchQueue';
+import { reportError } from '../utils/errorLog';
+import { showToast } from './toast';
+
+// キャッシュされたキュー（読み込み前・読み込み失敗時は空）
+let queue: WatchQueueEntry[] = [];
+
+/**
+ * キャッシュされたキューを取得
+ */
+export function getWatchQueue(): readonly WatchQueueEntry[] {
+  return queue;
+}
+
+/**
+ * 動画がキューにあるか
+ */
+export function isInWatchQueue(videoId: string): boolean {
+  return queue.some((entry) => entry.videoId === videoId);
+}
+
+/**
+ * chrome.storage からキューを読み込み、キャッシュを更新する
+ */
+export function refreshWatchQueueCache(): ResultAsync<WatchQueueEntry[], StorageError> {
+  return loadWatchQueue().map((newQueue) => {
+    queue = newQueue;
+    return newQueue;
+  });
+}
+
+/**
+ * chrome.storage.onChanged で受け取った新しい値でキャッシュを更新する
+ * 値が不正な場合はキャッシュを変更せず false を返す
+ */
+export function updateWatchQueueCache(newValue: unknown): boolean {
+  const queueResult = parseWatchQueue(newValue);
+  if (queueResult.isErr()) {
+    console.error('[Better Niconico] 変更された「あとで見る」キューが不正です:', queueResult.error);
+    reportError(queueResult.error, 'watchLaterQueue');
+    return false;
+  }
+
+  queue = queueResult.value;
+  return true;
+}
+
+/**
+ * 保存されたキューを変更する（失敗した場合はエラーログに記録してトーストで知らせる）
+ */
+function changeQueue(
+  update: (current: WatchQueueEntry[]) => WatchQueueEntry[],
+): ResultAsync<WatchQueueEntry[], StorageError> {
+  return updateWatchQueue(update).mapErr((error) => {
+    console.error('[Better Niconico] 「あとで見る」キューの保存に失敗しました:', error);
+    reportError(error, 'watchLaterQueue');
+    showToast('「あとで見る」キューを保存できませんでした');
+    return error;
+  });
+}
+
+/**
+ * 動画をキューの末尾に追加する
+ */
+export function addToWatchQueue(entry: WatchQueueEntry): void {
+  void changeQueue((current) => appendWatchQueueEntry(current, entry)).map((updated) => {
+    if (updated.some((queued) => queued.videoId === entry.videoId)) {
+      showToast(`「あとで見る」に追加しました（${updated.length}件）`);
+    } else {
+      showToast(`「あとで見る」は${MAX_WATCH_QUEUE_ENTRIES}件までです`);
+    }
+  });
+}
+
+/**
+ * 動画をキューから削除する
+ */
+export function removeFromWatchQueue(videoId: string): void {
+  void changeQueue((current) => current.filter((entry) => entry.videoId !== videoId));
+}
+
+/**
+ * 動画をキューの指定した位置に移動する
+ */
+export function moveInWatchQueue(videoId: string, toIndex: number): void {
+  void changeQueue((current) => moveWatchQueueEntry(current, videoId, toIndex));
+}
+
+/**
+ * 再生が終わった動画をキューから取り除き、次に再生する動画（残りの先頭）を返す（ない場合は null）
+ */
+export function advanceWatchQueue(endedVideoId: string): ResultAsync<WatchQueueEntry | null, StorageError> {
+  return changeQueue((current) => current.filter((entry) => entry.videoId !== endedVideoId)).map(
+    (remaining) => remaining[0] ?? null,
+  );
+}
@@ -0,0 +1,260 @@
+// Better Niconico Watch History Page Script
+// 拡張機能の IndexedDB に保存した視聴履歴を検索・表示し、削除と JSON・CSV への書き出しを行う
+import type { WatchHistoryEntry, WatchHistoryQuery } from '../types/watchHistory';
+import { queryWatchHistory, deleteWatchHistoryEntry, clearWatchHistory } from '../utils/watchHistoryDb';
+import { formatPlaybackTime, formatWatchHistoryCsv, formatWatchHistoryJson } from '../utils/watchHistory';
+import { reportError } from '../utils/errorLog';
+import { downloadFile } from '../utils/download';
+
+const statusMessage = document.getElementById('statusMessage') as HTMLDivElement;
+const searchInput = document.getElementById('historySearch') as HTMLInputElement;
+const fromInput = document.getElementById('historyFrom') as HTMLInputElement;
+const toInput = document.getElementById('historyTo') as HTMLInputElement;
+const historyList = document.getElementById('historyList') as HTMLDivElement;
+const historyEmpty = document.getElementById('historyEmpty') as HTMLParagraphElement;
+const historyCount = document.getElementById('historyCount') as HTMLParagraphElement;
+
+// 一覧に表示する最大件数（書き出しは条件に一致するものをすべて対象にする）
+const MAX_DISPLAY_ENTRIES = 500;
+
+// 検索語の入力が止まってから検索するまでの時間
+const SEARCH_DEBOUNCE_MS = 200;
+
+// 動画視聴ページのURL
+const WATCH_URL = 'https://www.nicovideo.jp/watch/';
+
+// 検索のタイマー
+let searchTimer: number | null = null;
+
+// 表示の更新の世代（古い検索の結果で上書きしないようにする）
+let renderGeneration = 0;
+
+/**
+ * ステータスメッセージを表示
+ */
+function showStatusMessage(message: string, duration = 2000): void {
+  if (statusMessage) {
+    statusMessage.textContent = message;
+    statusMessage.classList.add('show');
+
+    setTimeout(() => {
+      statusMessage.classList.remove('show');
+    }, duration);
+  }
+}
+
+/**
+ * 日付の入力（YYYY-MM-DD）をその日の始まり・終わりの日時（ミリ秒）にする（未入力の場合は null）
+ */
+function parseDateInput(value: string, endOfDay: boolean): number | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+  if (endOfDay) {
+    date.setDate(date.getDate() + 1);
+    return date.getTime() - 1;
+  }
+  return date.getTime();
+}
+
+/**
+ * 入力欄から検索条件を作成
+ */
+function getQuery(): WatchHistoryQuery {
+  return {
+    text: searchInput.value,
+    from: parseDateInput(fromInput.value, false),
+    to: parseDateInput(toInput.value, true),
+  };
+}
+
+/**
+ * 再生位置と動画の長さを表示用の文字列にする
+ */
+function formatProgress(entry: WatchHistoryEntry): string {
+  const position = entry.position === null ? '未再生' : formatPlaybackTime(entry.position);
+  return entry.duration === null ? position : `${position} / ${formatPlaybackTime(entry.duration)}`;
+}
+
+/**
+ * 履歴の行を作成
+ */
+function createHistoryItem(entry: WatchHistoryEntry): HTMLElement {
+  const item = document.createElement('div');
+  item.className = 'rule-item';
+
+  const info = document.createElement('div');
+  info.className = 'rule-info';
+
+  const title = document.createElement('a');
+  title.className = 'rule-name';
+  title.href = `${WATCH_URL}${entry.videoId}`;
+  title.target = '_blank';
+  title.rel = 'noopener';
+  title.textContent = entry.title || entry.videoId;
+
+  const details = document.createElement('p');
+  details.className = 'rule-target';
+  details.textContent = [
+    new Date(entry.watchedAt).toLocaleString(),
+    entry.uploaderName ?? entry.uploaderId ?? '投稿者不明',
+    formatProgress(entry),
+    entry.videoId,
+  ].join(' / ');
+
+  info.appendChild(title);
+  info.appendChild(details);
+
+  if (entry.tags.length > 0) {
+    const tags = document.createElement('div');
+    tags.className = 'history-tags';
+    tags.replaceChildren(
+      ...entry.tags.map((tag) => {
+        const tagElement = document.createElement('span');
+        tagElement.className = 'history-tag';
+        tagElement.textContent = tag;
+        return tagElement;
+      }),
+    );
+    info.appendChild(tags);
+  }
+
+  const deleteButton = document.createElement('button');
+  deleteButton.type = 'button';
+  deleteButton.className = 'button';
+  deleteButton.textContent = '削除';
+  deleteButton.addEventListener('click', () => void deleteEntry(entry.id));
+
+  item.appendChild(info);
+  item.appendChild(deleteButton);
+  return item;
+}
+
+/**
+ * 検索条件に一致する履歴を表示する
+ */
+async function renderHistory(): Promise<void> {
+  const generation = ++renderGeneration;
+  const result = await queryWatchHistory({ ...getQuery(), limit: MAX_DISPLAY_ENTRIES });
+  if (generation !== renderGeneration) {
+    return;
+  }
+
+  if (result.isErr()) {
+    console.error('[Better Niconico] 視聴履歴の読み込みに失敗しました:', result.error);
+    reportError(result.error, 'history');
+    showStatusMessage('視聴履歴の読み込みに失敗しました', 3000);
+    return;
+  }
+
+  const entries = result.value;
+  historyList.replaceChildren(...entries.map(createHistoryItem));
+  historyEmpty.hidden = entries.length > 0;
+  historyCount.textContent =
+    entries.length >= MAX_DISPLAY_ENTRIES ? `新しい順に${MAX_DISPLAY_ENTRIES}件を表示` : `${entries.length}件`;
+}
+
+/**
+ * 履歴の1件を削除する
+ */
+async function deleteEntry(id: string): Promise<void> {
+  const result = await deleteWatchHistoryEntry(id);
+  if (result.isErr()) {
+    console.error('[Better Niconico] 視聴履歴の削除に失敗しました:', result.error);
+    reportError(result.error, 'history');
+    showStatusMessage('視聴履歴の削除に失敗しました', 3000);
+    return;
+  }
+
+  showStatusMessage('履歴を削除しました');
+  await renderHistory();
+}
+
+/**
+ * 履歴をすべて削除する
+ */
+async function clearAll(): Promise<void> {
+  if (!window.confirm('視聴履歴をすべて削除しますか？この操作は元に戻せません')) {
+    return;
+  }
+
+  const result = await clearWatchHistory();
+  if (result.isErr()) {
+    console.error('[Better Niconico] 視聴履歴の削除に失敗しました:', result.error);
+    reportError(result.error, 'history');
+    showStatusMessage('視聴履歴の削除に失敗しました', 3000);
+    return;
+  }
+
+  showStatusMessage('視聴履歴をすべて削除しました');
+  await renderHistory();
+}
+
+/**
+ * 検索条件に一致する履歴をすべて書き出す
+ */
+async function exportHistory(format: 'json' | 'csv'): Promise<void> {
+  const result = await queryWatchHistory(getQuery());
+  if (result.isErr()) {
+    console.error('[Better Niconico] 視聴履歴の読み込みに失敗しました:', result.error);
+    reportError(result.error, 'history');
+    showStatusMessage('視聴履歴の書き出しに失敗しました', 3000);
+    return;
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  if (format === 'json') {
+    downloadFile(
+      formatWatchHistoryJson(result.value),
+      'application/json',
+      `better-niconico-history-${date}.json`,
+    );
+  } else {
+    // 表計算ソフトで文字化けしないよう BOM を付ける
+    downloadFile(
+      `\uFEFF${formatWatchHistoryCsv(result.value)}`,
+      'text/csv',
+      `better-niconico-history-${date}.csv`,
+    );
+  }
+  showStatusMessage(`${result.value.length}件を書き出しました`);
+}
+
+/**
+ * 検索語の入力が止まってから表示を更新する
+ */
+function scheduleRender(): void {
+  if (searchTimer !== null) {
+    clearTimeout(searchTimer);
+  }
+  searchTimer = window.setTimeout(() => {
+    searchTimer = null;
+    void renderHistory();
+  }, SEARCH_DEBOUNCE_MS);
+}
+
+/**
+ * 初期化
+ */
+async function initialize(): Promise<void> {
+  searchInput?.addEventListener('input', scheduleRender);
+  fromInput?.addEventListener('change', () => void renderHistory());
+  toInput?.addEventListener('change', () => void renderHistory());
+  document.getElementById('exportJsonButton')?.addEventListener('click', () => void exportHistory('json'));
+  document.getElementById('exportCsvButton')?.addEventListener('click', () => void exportHistory('csv'));
+  document.getElementById('clearHistoryButton')?.addEventListener('click', () => void clearAll());
+
+  await renderHistory();
+  console.log('[Better Niconico] History page initialized');
+}
+
+// DOMが読み込まれたら初期化
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', () => void initialize());
+} else {
+  void initialize();
+}
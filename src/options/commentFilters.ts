@@ -0,0 +1,124 @@
+// Better Niconico Options Page - Comment Filter Editor
+// コメントのNGフィルタ（NGワード・正規表現・ユーザーID・コマンド・文字数）を1行に1つの形式で編集する
+import type { CommentFilterSettings } from '../types/commentFilter';
+import { COMMENT_FILTERS_KEY, DEFAULT_COMMENT_FILTER_SETTINGS } from '../types/commentFilter';
+import { loadCommentFilters, saveCommentFilters } from '../utils/storage';
+import { getCommentFilterProblem, parseCommentFilterSettings } from '../utils/commentFilterSchema';
+import { reportError } from '../utils/errorLog';
+
+/**
+ * コメントのNGフィルタ編集UIが必要とする設定ページ側の処理
+ */
+export interface CommentFilterEditorOptions {
+  // ステータスメッセージを表示
+  showStatus(message: string, duration?: number): void;
+}
+
+// 1行に1つの形式で編集する項目と入力欄のID
+const LIST_INPUTS = {
+  words: 'commentFilterWords',
+  regexes: 'commentFilterRegexes',
+  userIds: 'commentFilterUserIds',
+  commands: 'commentFilterCommands',
+} as const satisfies Record<string, string>;
+
+/**
+ * 入力欄の値を1行に1つのリストにする（空行と重複は取り除く）
+ * 正規表現は前後の空白も意味を持つため、そのまま使う
+ */
+function parseLines(value: string, trim: boolean): string[] {
+  const lines = value.split('\n').map((line) => (trim ? line.trim() : line));
+  return Array.from(new Set(lines.filter((line) => line.trim() !== '')));
+}
+
+/**
+ * 設定を入力欄に表示
+ */
+function renderFilters(filters: CommentFilterSettings): void {
+  for (const [field, id] of Object.entries(LIST_INPUTS)) {
+    const textarea = document.getElementById(id) as HTMLTextAreaElement | null;
+    if (textarea) {
+      textarea.value = filters[field as keyof typeof LIST_INPUTS].join('\n');
+    }
+  }
+
+  const maxLengthInput = document.getElementById('commentFilterMaxLength') as HTMLInputElement | null;
+  if (maxLengthInput) {
+    maxLengthInput.value = filters.maxLength === null ? '' : String(filters.maxLength);
+  }
+}
+
+/**
+ * 入力欄から設定を作成
+ */
+function readFilters(): CommentFilterSettings {
+  const readList = (field: keyof typeof LIST_INPUTS): string[] => {
+    const textarea = document.getElementById(LIST_INPUTS[field]) as HTMLTextAreaElement | null;
+    return parseLines(textarea?.value ?? '', field !== 'regexes');
+  };
+
+  const maxLengthInput = document.getElementById('commentFilterMaxLength') as HTMLInputElement | null;
+  const maxLengthText = maxLengthInput?.value.trim() ?? '';
+
+  return {
+    words: readList('words'),
+    regexes: readList('regexes'),
+    userIds: readList('userIds'),
+    commands: readList('commands'),
+    maxLength: maxLengthText === '' ? null : Number(maxLengthText),
+  };
+}
+
+/**
+ * 入力された設定を確認して保存する
+ */
+async function handleSave(options: CommentFilterEditorOptions): Promise<void> {
+  const filters = readFilters();
+  const problem = getCommentFilterProblem(filters);
+  const error = document.getElementById('commentFilterError');
+  if (error) {
+    error.hidden = problem === null;
+    error.textContent = problem ?? '';
+  }
+  if (problem) {
+    return;
+  }
+
+  const result = await saveCommentFilters(filters);
+  if (result.isErr()) {
+    console.error('[Better Niconico] コメントのNGフィルタ保存エラー:', result.error);
+    reportError(result.error, 'options');
+    options.showStatus('コメントのNGフィルタの保存に失敗しました', 3000);
+    return;
+  }
+
+  options.showStatus('コメントのNGフィルタを保存しました');
+}
+
+/**
+ * 設定を読み込み、コメントのNGフィルタ編集UIを設定
+ */
+export async function setupCommentFilterEditor(options: CommentFilterEditorOptions): Promise<void> {
+  const filtersResult = await loadCommentFilters();
+  if (filtersResult.isErr()) {
+    console.error('[Better Niconico] コメントのNGフィルタの読み込みに失敗しました:', filtersResult.error);
+    options.showStatus('コメントのNGフィルタの読み込みに失敗しました', 3000);
+  }
+
+  renderFilters(filtersResult.unwrapOr(DEFAULT_COMMENT_FILTER_SETTINGS));
+
+  document.getElementById('commentFilterForm')?.addEventListener('submit', (event) => {
+    event.preventDefault();
+    void handleSave(options);
+  });
+
+  // 設定の読み込み（インポート）など他の画面での変更を反映する
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if ((areaName === 'sync' || areaName === 'local') && changes[COMMENT_FILTERS_KEY]) {
+      const parsed = parseCommentFilterSettings(changes[COMMENT_FILTERS_KEY].newValue);
+      if (parsed.isOk()) {
+        renderFilters(parsed.value);
+      }
+    }
+  });
+}
@@ -0,0 +1,253 @@
+// Better Niconico Options Page - Hide Rule Editor
+// ユーザー定義の非表示ルールを一覧表示し、追加・有効/無効の切り替え・削除を行う
+import type { FeaturePageScope } from '../types/features';
+import type { HideRule } from '../types/hideRules';
+import type { PageType } from '../types/pages';
+import { HIDE_RULES_KEY, MAX_HIDE_RULES } from '../types/hideRules';
+import { PAGE_TYPES, PAGE_TYPE_LABELS } from '../types/pages';
+import { addHideRule, loadHideRules, saveHideRules } from '../utils/storage';
+import {
+  MAX_HIDE_RULE_TEXT_LENGTH,
+  createHideRuleId,
+  getHideRuleTargetProblem,
+  parseHideRules,
+} from '../utils/hideRules';
+import { reportError } from '../utils/errorLog';
+
+/**
+ * 非表示ルール編集UIが必要とする設定ページ側の処理
+ */
+export interface HideRuleEditorOptions {
+  // ステータスメッセージを表示
+  showStatus(message: string, duration?: number): void;
+}
+
+// 現在のルール
+let rules: HideRule[] = [];
+
+/**
+ * ルールの探し方を1行の説明にする
+ */
+function describeRule(rule: HideRule): string {
+  const parts: string[] = [];
+  if (rule.selector) {
+    parts.push(`セレクタ: ${rule.selector}`);
+  }
+  if (rule.headingText) {
+    parts.push(`見出し: 「${rule.headingText}」`);
+  }
+  if (rule.hideAncestor) {
+    parts.push(`祖先: ${rule.hideAncestor}`);
+  }
+  parts.push(
+    rule.pageScope === 'all'
+      ? '全ページ'
+      : rule.pageScope.map((pageType) => PAGE_TYPE_LABELS[pageType]).join('・'),
+  );
+  return parts.join(' / ');
+}
+
+/**
+ * ルールを保存する（表示は chrome.storage.onChanged 経由で更新する）
+ */
+async function saveRules(newRules: HideRule[], message: string, options: HideRuleEditorOptions): Promise<void> {
+  const result = await saveHideRules(newRules);
+  if (result.isErr()) {
+    console.error('[Better Niconico] 非表示ルール保存エラー:', result.error);
+    reportError(result.error, 'options');
+    options.showStatus('非表示ルールの保存に失敗しました', 3000);
+    return;
+  }
+
+  options.showStatus(message);
+}
+
+/**
+ * ルールの行を作成
+ */
+function createRuleItem(rule: HideRule, options: HideRuleEditorOptions): HTMLElement {
+  const item = document.createElement('div');
+  item.className = 'rule-item';
+
+  const info = document.createElement('div');
+  info.className = 'rule-info';
+  const name = document.createElement('p');
+  name.className = 'rule-name';
+  name.textContent = rule.name || '（名前なし）';
+  const target = document.createElement('p');
+  target.className = 'rule-target';
+  target.textContent = describeRule(rule);
+  info.appendChild(name);
+  info.appendChild(target);
+
+  const controls = document.createElement('div');
+  controls.className = 'rule-controls';
+
+  const toggle = document.createElement('label');
+  toggle.className = 'toggle';
+  toggle.title = '有効/無効';
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.checked = rule.enabled;
+  checkbox.addEventListener('change', () => {
+    const newRules = rules.map((item) => (item.id === rule.id ? { ...item, enabled: checkbox.checked } : item));
+    void saveRules(newRules, checkbox.checked ? 'ルールを有効にしました' : 'ルールを無効にしました', options);
+  });
+  const slider = document.createElement('span');
+  slider.className = 'toggle-slider';
+  toggle.appendChild(checkbox);
+  toggle.appendChild(slider);
+
+  const deleteButton = document.createElement('button');
+  deleteButton.type = 'button';
+  deleteButton.className = 'button';
+  deleteButton.textContent = '削除';
+  deleteButton.addEventListener('click', () => {
+    void saveRules(
+      rules.filter((item) => item.id !== rule.id),
+      'ルールを削除しました',
+      options,
+    );
+  });
+
+  controls.appendChild(toggle);
+  controls.appendChild(deleteButton);
+
+  item.appendChild(info);
+  item.appendChild(controls);
+
+  return item;
+}
+
+/**
+ * ルールの一覧を表示
+ */
+function renderRules(options: HideRuleEditorOptions): void {
+  const list = document.getElementById('hideRuleList');
+  const empty = document.getElementById('hideRuleEmpty');
+  const addButton = document.getElementById('addHideRuleButton') as HTMLButtonElement | null;
+
+  list?.replaceChildren(...rules.map((rule) => createRuleItem(rule, options)));
+  if (empty) {
+    empty.hidden = rules.length > 0;
+  }
+  if (addButton) {
+    addButton.disabled = rules.length >= MAX_HIDE_RULES;
+  }
+}
+
+/**
+ * ページ種別の選択肢を作成
+ */
+function renderPageScopeOptions(): void {
+  const container = document.getElementById('hideRulePageTypes');
+  container?.replaceChildren(
+    ...PAGE_TYPES.map((pageType) => {
+      const label = document.createElement('label');
+      label.className = 'hide-rule-page-type';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.value = pageType;
+      label.appendChild(checkbox);
+      label.append(PAGE_TYPE_LABELS[pageType]);
+      return label;
+    }),
+  );
+}
+
+/**
+ * 入力欄の値を取得（空の場合は null）
+ */
+function getInputValue(id: string): string | null {
+  const input = document.getElementById(id) as HTMLInputElement | null;
+  const value = input?.value.trim() ?? '';
+  return value === '' ? null : value;
+}
+
+/**
+ * 選択されたページ種別を取得（選択されていない場合は全ページ）
+ */
+function getSelectedPageScope(): FeaturePageScope {
+  const selected = Array.from(
+    document.querySelectorAll<HTMLInputElement>('#hideRulePageTypes input:checked'),
+    (checkbox) => checkbox.value as PageType,
+  );
+  return selected.length > 0 ? selected : 'all';
+}
+
+/**
+ * 入力フォームからルールを追加
+ */
+async function handleAddRule(options: HideRuleEditorOptions): Promise<void> {
+  const form = document.getElementById('hideRuleForm') as HTMLFormElement | null;
+  const error = document.getElementById('hideRuleError');
+
+  const target = {
+    selector: getInputValue('hideRuleSelector'),
+    headingText: getInputValue('hideRuleHeadingText'),
+    hideAncestor: getInputValue('hideRuleAncestor'),
+  };
+  const problem = getHideRuleTargetProblem(target);
+  if (error) {
+    error.hidden = problem === null;
+    error.textContent = problem ?? '';
+  }
+  if (problem) {
+    return;
+  }
+
+  const rule: HideRule = {
+    id: createHideRuleId(),
+    name: (getInputValue('hideRuleName') ?? target.headingText ?? target.selector ?? '').slice(
+      0,
+      MAX_HIDE_RULE_TEXT_LENGTH,
+    ),
+    ...target,
+    pageScope: getSelectedPageScope(),
+    enabled: true,
+  };
+
+  const result = await addHideRule(rule);
+  if (result.isErr()) {
+    console.error('[Better Niconico] 非表示ルール保存エラー:', result.error);
+    reportError(result.error, 'options');
+    options.showStatus('非表示ルールの保存に失敗しました', 3000);
+    return;
+  }
+
+  form?.reset();
+  options.showStatus('ルールを追加しました');
+}
+
+/**
+ * ルールを読み込み、非表示ルール編集UIを設定
+ */
+export async function setupHideRuleEditor(options: HideRuleEditorOptions): Promise<void> {
+  renderPageScopeOptions();
+
+  const rulesResult = await loadHideRules();
+  if (rulesResult.isErr()) {
+    console.error('[Better Niconico] 非表示ルールの読み込みに失敗しました:', rulesResult.error);
+    options.showStatus('非表示ルールの読み込みに失敗しました', 3000);
+  } else {
+    rules = rulesResult.value;
+  }
+
+  renderRules(options);
+
+  document.getElementById('hideRuleForm')?.addEventListener('submit', (event) => {
+    event.preventDefault();
+    void handleAddRule(options);
+  });
+
+  // 要素ピッカーなど他の画面での変更を反映する
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if ((areaName === 'sync' || areaName === 'local') && changes[HIDE_RULES_KEY]) {
+      const parsed = parseHideRules(changes[HIDE_RULES_KEY].newValue);
+      if (parsed.isOk()) {
+        rules = parsed.value;
+        renderRules(options);
+      }
+    }
+  });
+}
@@ -0,0 +1,177 @@
+// Better Niconico Options Page - Settings Import/Export
+// 設定のJSONファイルへの書き出しと、差分を確認した上での読み込みを行う
+// （ポップアップはファイル選択ダイアログを開くと閉じてしまうため、読み込みは設定ページで行う）
+import type { BetterNiconicoSettings } from '../types/settings';
+import type { ImportError } from '../types/errors';
+import type { SettingsChange } from '../utils/settingsTransfer';
+import { saveSettings } from '../utils/storage';
+import { reportError } from '../utils/errorLog';
+import { downloadSettingsExport, readSettingsImportFile, diffSettings } from '../utils/settingsTransfer';
+
+/**
+ * インポート・エクスポートUIが必要とする設定ページ側の処理
+ */
+export interface ImportExportOptions {
+  // 現在の設定を取得
+  getCurrentSettings(): BetterNiconicoSettings;
+  // インポートした設定の保存後に呼ばれる
+  onImported(settings: BetterNiconicoSettings): void;
+  // ステータスメッセージを表示
+  showStatus(message: string, duration?: number): void;
+}
+
+// プレビュー中のインポート内容
+let pendingImport: BetterNiconicoSettings | null = null;
+
+/**
+ * 設定値を表示用の文字列に変換
+ */
+function formatSettingValue(value: unknown): string {
+  if (typeof value === 'boolean') {
+    return value ? 'ON' : 'OFF';
+  }
+  if (value === undefined) {
+    return '（なし）';
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * インポートエラーを表示用のメッセージに変換
+ */
+function getImportErrorMessage(error: ImportError): string {
+  switch (error.type) {
+    case 'import_read_failed':
+      return 'ファイルを読み込めませんでした';
+    case 'import_invalid_json':
+      return 'JSONファイルの形式が正しくありません';
+    case 'import_invalid_format':
+      return 'Better Niconicoの設定ファイルではありません';
+    case 'import_unsupported_version':
+      return 'より新しいバージョンで作成された設定ファイルです';
+    case 'import_invalid_settings':
+      return error.field ? `設定「${error.field}」の値が不正です` : '設定の内容が不正です';
+  }
+}
+
+/**
+ * インポート内容の差分プレビューを表示
+ */
+function showImportPreview(changes: SettingsChange[]): void {
+  const preview = document.getElementById('importPreview');
+  const diffList = document.getElementById('importDiff');
+  const applyButton = document.getElementById('importApply') as HTMLButtonElement | null;
+  if (!preview || !diffList) {
+    return;
+  }
+
+  if (changes.length === 0) {
+    const item = document.createElement('li');
+    item.className = 'import-diff-empty';
+    item.textContent = '現在の設定から変更される項目はありません';
+    diffList.replaceChildren(item);
+  } else {
+    diffList.replaceChildren(
+      ...changes.map((change) => {
+        const item = document.createElement('li');
+        item.className = 'import-diff-item';
+
+        const label = document.createElement('span');
+        label.className = 'import-diff-label';
+        label.textContent = change.label;
+
+        const values = document.createElement('span');
+        values.className = 'import-diff-values';
+        values.textContent = `${formatSettingValue(change.before)} → ${formatSettingValue(change.after)}`;
+
+        item.appendChild(label);
+        item.appendChild(values);
+        return item;
+      }),
+    );
+  }
+
+  if (applyButton) {
+    applyButton.disabled = changes.length === 0;
+  }
+  preview.hidden = false;
+}
+
+/**
+ * インポート内容の差分プレビューを閉じる
+ */
+function hideImportPreview(): void {
+  pendingImport = null;
+  const preview = document.getElementById('importPreview');
+  if (preview) {
+    preview.hidden = true;
+  }
+}
+
+/**
+ * 選択されたファイルを読み込み、差分プレビューを表示
+ */
+async function handleImportFile(file: File, options: ImportExportOptions): Promise<void> {
+  const result = await readSettingsImportFile(file);
+  if (result.isErr()) {
+    console.error('[Better Niconico] 設定のインポートに失敗しました:', result.error);
+    hideImportPreview();
+    options.showStatus(getImportErrorMessage(result.error), 3000);
+    return;
+  }
+
+  pendingImport = result.value;
+  showImportPreview(diffSettings(options.getCurrentSettings(), result.value));
+}
+
+/**
+ * プレビュー中のインポート内容を保存
+ */
+async function applyPendingImport(options: ImportExportOptions): Promise<void> {
+  if (!pendingImport) {
+    return;
+  }
+
+  const settings = pendingImport;
+  const result = await saveSettings(settings);
+  if (result.isErr()) {
+    console.error('[Better Niconico] 設定保存エラー:', result.error);
+    reportError(result.error, 'options');
+    options.showStatus('設定の保存に失敗しました', 3000);
+    return;
+  }
+
+  hideImportPreview();
+  options.onImported(settings);
+  options.showStatus('設定をインポートしました');
+}
+
+/**
+ * インポート・エクスポートUIのイベントを設定
+ */
+export function setupImportExport(options: ImportExportOptions): void {
+  const exportButton = document.getElementById('exportButton');
+  const importButton = document.getElementById('importButton');
+  const importFile = document.getElementById('importFile') as HTMLInputElement | null;
+  const applyButton = document.getElementById('importApply');
+  const cancelButton = document.getElementById('importCancel');
+
+  exportButton?.addEventListener('click', () => {
+    downloadSettingsExport(options.getCurrentSettings());
+    options.showStatus('設定をエクスポートしました');
+  });
+
+  importButton?.addEventListener('click', () => importFile?.click());
+
+  importFile?.addEventListener('change', () => {
+    const file = importFile.files?.[0];
+    // 同じファイルを再度選択できるようにリセット
+    importFile.value = '';
+    if (file) {
+      void handleImportFile(file, options);
+    }
+  });
+
+  applyButton?.addEventListener('click', () => void applyPendingImport(options));
+  cancelButton?.addEventListener('click', hideImportPreview);
+}
@@ -0,0 +1,362 @@
+// Better Niconico Options Page Script
+// 機能をカテゴリごとに表示し、検索・カテゴリ単位での既定値へのリセットを行う
+import type { BetterNiconicoSettings } from '../types/settings';
+import type { FeatureCategoryDefinition, FeatureDefinition, FeatureKey } from '../types/features';
+import { DEFAULT_SETTINGS, STORAGE_KEY } from '../types/settings';
+import { FEATURE_CATEGORIES, FEATURE_DEFINITIONS } from '../types/features';
+import { PAGE_TYPES, PAGE_TYPE_LABELS } from '../types/pages';
+import { loadSettings, saveSettings } from '../utils/storage';
+import { parseSettings } from '../utils/settingsSchema';
+import { setPageOverride } from '../utils/pageClassifier';
+import { reportError } from '../utils/errorLog';
+import { setupShortcutEditor } from './shortcuts';
+import { setupHideRuleEditor } from './hideRules';
+import { setupVideoFilterEditor } from './videoFilters';
+import { setupCommentFilterEditor } from './commentFilters';
+import { setupResumePlaybackEditor } from './resumePlayback';
+import { setupUpscalingEditor } from './upscaling';
+import { setupImportExport } from './importExport';
+
+const statusMessage = document.getElementById('statusMessage') as HTMLDivElement;
+const categoryNav = document.getElementById('categoryNav') as HTMLElement;
+const categorySections = document.getElementById('categorySections') as HTMLDivElement;
+const searchInput = document.getElementById('searchInput') as HTMLInputElement;
+const searchEmpty = document.getElementById('searchEmpty') as HTMLParagraphElement;
+
+// 現在の設定
+let currentSettings: BetterNiconicoSettings = DEFAULT_SETTINGS;
+
+/**
+ * ステータスメッセージを表示
+ */
+function showStatusMessage(message: string, duration = 2000): void {
+  if (statusMessage) {
+    statusMessage.textContent = message;
+    statusMessage.classList.add('show');
+
+    setTimeout(() => {
+      statusMessage.classList.remove('show');
+    }, duration);
+  }
+}
+
+/**
+ * 分類に属する機能の定義を取得
+ */
+function getCategoryFeatures(category: FeatureCategoryDefinition): FeatureDefinition<FeatureKey>[] {
+  return FEATURE_DEFINITIONS.filter((feature) => feature.category === category.key);
+}
+
+/**
+ * 検索用に文字列を正規化（全角・半角と大文字・小文字の違いを無視する）
+ */
+function normalizeSearchText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 機能定義から設定項目を作成
+ */
+function createFeatureItem(feature: FeatureDefinition<FeatureKey>, category: FeatureCategoryDefinition): HTMLElement {
+  const item = document.createElement('div');
+  item.className = 'option-item';
+  item.dataset.feature = feature.key;
+  item.dataset.search = normalizeSearchText(
+    [feature.label, feature.description, category.label].join(' '),
+  );
+
+  const info = document.createElement('div');
+  info.className = 'option-info';
+
+  const label = document.createElement('label');
+  label.className = 'option-label';
+  label.htmlFor = feature.key;
+  label.textContent = feature.label;
+
+  const description = document.createElement('p');
+  description.className = 'option-description';
+  description.textContent = feature.description;
+
+  // ページ種別ごとの上書きがある場合の表示
+  const override = document.createElement('p');
+  override.className = 'option-override';
+  override.hidden = true;
+
+  info.appendChild(label);
+  info.appendChild(description);
+  info.appendChild(override);
+
+  if (feature.preview) {
+    const preview = document.createElement('img');
+    preview.className = 'option-preview';
+    preview.src = feature.preview;
+    preview.alt = `${feature.label}のプレビュー`;
+    preview.loading = 'lazy';
+    info.appendChild(preview);
+  }
+
+  const toggle = document.createElement('label');
+  toggle.className = 'toggle';
+
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.id = feature.key;
+  checkbox.addEventListener('change', () => void handleSettingChange(feature));
+
+  const slider = document.createElement('span');
+  slider.className = 'toggle-slider';
+
+  toggle.appendChild(checkbox);
+  toggle.appendChild(slider);
+
+  item.appendChild(info);
+  item.appendChild(toggle);
+
+  return item;
+}
+
+/**
+ * 分類のセクションを作成
+ */
+function createCategorySection(
+  category: FeatureCategoryDefinition,
+  features: FeatureDefinition<FeatureKey>[],
+): HTMLElement {
+  const section = document.createElement('section');
+  section.className = 'category';
+  section.id = `category-${category.key}`;
+
+  const header = document.createElement('div');
+  header.className = 'category-header';
+
+  const headings = document.createElement('div');
+  const title = document.createElement('h2');
+  title.className = 'category-title';
+  title.textContent = category.label;
+  const description = document.createElement('p');
+  description.className = 'category-description';
+  description.textContent = category.description;
+  headings.appendChild(title);
+  headings.appendChild(description);
+
+  const resetButton = document.createElement('button');
+  resetButton.type = 'button';
+  resetButton.className = 'button';
+  resetButton.textContent = '既定値に戻す';
+  resetButton.addEventListener('click', () => void handleCategoryReset(category));
+
+  header.appendChild(headings);
+  header.appendChild(resetButton);
+
+  section.appendChild(header);
+  for (const feature of features) {
+    section.appendChild(createFeatureItem(feature, category));
+  }
+
+  return section;
+}
+
+/**
+ * すべての分類のセクションとナビゲーションを描画
+ * 機能がない分類は表示しない
+ */
+function renderOptions(): void {
+  const sections: HTMLElement[] = [];
+  const links: HTMLElement[] = [];
+
+  for (const category of FEATURE_CATEGORIES) {
+    const features = getCategoryFeatures(category);
+    if (features.length === 0) {
+      continue;
+    }
+
+    sections.push(createCategorySection(category, features));
+
+    const link = document.createElement('a');
+    link.className = 'category-link';
+    link.href = `#category-${category.key}`;
+    link.textContent = category.label;
+    link.dataset.category = category.key;
+    links.push(link);
+  }
+
+  categorySections?.replaceChildren(...sections);
+  categoryNav?.replaceChildren(...links);
+}
+
+/**
+ * UIを設定で更新
+ */
+function updateUI(settings: BetterNiconicoSettings): void {
+  currentSettings = settings;
+
+  for (const feature of FEATURE_DEFINITIONS) {
+    const checkbox = document.getElementById(feature.key) as HTMLInputElement | null;
+    if (!checkbox) {
+      continue;
+    }
+
+    checkbox.checked = settings[feature.key];
+
+    // ポップアップでページ種別ごとに上書きしている場合は、そのページ種別を表示する
+    const overriddenPages = PAGE_TYPES.filter(
+      (pageType) => settings.pageOverrides[pageType]?.[feature.key] !== undefined,
+    );
+    const override = checkbox.closest('.option-item')?.querySelector<HTMLElement>('.option-override');
+    if (override) {
+      override.hidden = overriddenPages.length === 0;
+      override.textContent = `上書き中: ${overriddenPages.map((pageType) => PAGE_TYPE_LABELS[pageType]).join('、')}`;
+    }
+  }
+}
+
+/**
+ * 設定を保存してUIに反映する（失敗時は保存前の表示に戻す）
+ */
+async function saveAndUpdate(newSettings: BetterNiconicoSettings, successMessage: string): Promise<void> {
+  const result = await saveSettings(newSettings);
+  if (result.isOk()) {
+    updateUI(newSettings);
+    showStatusMessage(successMessage);
+  } else {
+    console.error('[Better Niconico] 設定保存エラー:', result.error);
+    reportError(result.error, 'options');
+    updateUI(currentSettings);
+    showStatusMessage('設定の保存に失敗しました', 3000);
+  }
+}
+
+/**
+ * チェックボックスの変更時に設定を保存
+ */
+async function handleSettingChange(feature: FeatureDefinition<FeatureKey>): Promise<void> {
+  const checkbox = document.getElementById(feature.key) as HTMLInputElement | null;
+  const enabled = checkbox?.checked ?? currentSettings[feature.key];
+
+  await saveAndUpdate({ ...currentSettings, [feature.key]: enabled }, '設定を保存しました');
+}
+
+/**
+ * 分類に属する機能を既定値に戻す（ページ種別ごとの上書きも取り除く）
+ */
+async function handleCategoryReset(category: FeatureCategoryDefinition): Promise<void> {
+  let newSettings = currentSettings;
+
+  for (const feature of getCategoryFeatures(category)) {
+    newSettings = { ...newSettings, [feature.key]: feature.defaultValue };
+    for (const pageType of PAGE_TYPES) {
+      newSettings = setPageOverride(newSettings, pageType, feature.key, undefined);
+    }
+  }
+
+  await saveAndUpdate(newSettings, `「${category.label}」を既定値に戻しました`);
+}
+
+/**
+ * 検索語に一致する設定項目のみを表示
+ * 設定項目がすべて非表示になった分類はセクションごと非表示にする
+ */
+function applySearch(query: string): void {
+  const terms = normalizeSearchText(query).split(/\s+/).filter((term) => term !== '');
+  let visibleCount = 0;
+
+  for (const section of categorySections?.querySelectorAll<HTMLElement>('.category') ?? []) {
+    let sectionVisible = false;
+
+    for (const item of section.querySelectorAll<HTMLElement>('.option-item')) {
+      const text = item.dataset.search ?? '';
+      const matched = terms.every((term) => text.includes(term));
+      item.hidden = !matched;
+      sectionVisible ||= matched;
+      if (matched) {
+        visibleCount++;
+      }
+    }
+
+    section.hidden = !sectionVisible;
+    const category = section.id.replace('category-', '');
+    categoryNav
+      ?.querySelector<HTMLElement>(`[data-category="${category}"]`)
+      ?.classList.toggle('disabled', !sectionVisible);
+  }
+
+  if (searchEmpty) {
+    searchEmpty.hidden = visibleCount > 0;
+  }
+}
+
+/**
+ * 初期化（Result型を使用）
+ */
+async function initialize(): Promise<void> {
+  try {
+    renderOptions();
+
+    const settingsResult = await loadSettings();
+    if (settingsResult.isErr()) {
+      console.error('[Better Niconico] 設定の読み込みに失敗しました:', settingsResult.error);
+      reportError(settingsResult.error, 'settings');
+      showStatusMessage('設定の読み込みに失敗しました', 3000);
+      // エラー時はデフォルト設定を使用
+      updateUI(DEFAULT_SETTINGS);
+      return;
+    }
+
+    updateUI(settingsResult.value);
+
+    searchInput?.addEventListener('input', () => applySearch(searchInput.value));
+
+    // ユーザー定義の非表示ルール
+    await setupHideRuleEditor({ showStatus: showStatusMessage });
+
+    // 動画一覧のNGフィルタ
+    await setupVideoFilterEditor({ showStatus: showStatusMessage });
+
+    // コメントのNGフィルタ
+    await setupCommentFilterEditor({ showStatus: showStatusMessage });
+
+    // 続きから再生
+    await setupResumePlaybackEditor({ showStatus: showStatusMessage });
+
+    // 動画アップスケーリング
+    await setupUpscalingEditor({ showStatus: showStatusMessage });
+
+    // キーボードショートカット
+    await setupShortcutEditor({ showStatus: showStatusMessage });
+
+    // 設定のインポート・エクスポート
+    setupImportExport({
+      getCurrentSettings: () => currentSettings,
+      onImported: updateUI,
+      showStatus: showStatusMessage,
+    });
+
+    // ポップアップから開かれた場合など、URLで指定されたセクションを表示する
+    // （カテゴリのセクションは読み込み後に生成されるため、ブラウザによるスクロール位置がずれる）
+    if (location.hash) {
+      document.getElementById(location.hash.slice(1))?.scrollIntoView();
+    }
+
+    // ポップアップなど他の画面での変更を反映する
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if ((areaName === 'sync' || areaName === 'local') && changes[STORAGE_KEY]) {
+        const parsed = parseSettings(changes[STORAGE_KEY].newValue);
+        if (parsed.isOk()) {
+          updateUI(parsed.value);
+        }
+      }
+    });
+
+    console.log('[Better Niconico] Options page initialized');
+  } catch (error) {
+    console.error('[Better Niconico] Options page initialization error:', error);
+    showStatusMessage('エラーが発生しました', 3000);
+  }
+}
+
+// DOMが読み込まれたら初期化
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', () => void initialize());
+} else {
+  void initialize();
+}
@@ -0,0 +1,111 @@
+// Better Niconico Options Page - Resume Playback Editor
+// 続きから再生する機能の動作（ボタンを表示・自動で再生）と再生位置を保存しておく日数を編集する
+import type { ResumePlaybackMode, ResumePlaybackSettings } from '../types/resumePlayback';
+import {
+  DEFAULT_RESUME_PLAYBACK_SETTINGS,
+  MAX_RESUME_EXPIRE_DAYS,
+  MIN_RESUME_EXPIRE_DAYS,
+  RESUME_PLAYBACK_KEY,
+} from '../types/resumePlayback';
+import { clearResumePositions, loadResumePlaybackSettings, saveResumePlaybackSettings } from '../utils/storage';
+import { isValidResumeExpireDays, parseResumePlaybackSettings } from '../utils/resumePlayback';
+import { reportError } from '../utils/errorLog';
+
+/**
+ * 続きから再生の編集UIが必要とする設定ページ側の処理
+ */
+export interface ResumePlaybackEditorOptions {
+  // ステータスメッセージを表示
+  showStatus(message: string, duration?: number): void;
+}
+
+/**
+ * 設定を入力欄に表示
+ */
+function renderSettings(settings: ResumePlaybackSettings): void {
+  const modeSelect = document.getElementById('resumePlaybackMode') as HTMLSelectElement | null;
+  if (modeSelect) {
+    modeSelect.value = settings.mode;
+  }
+
+  const expireDaysInput = document.getElementById('resumePlaybackExpireDays') as HTMLInputElement | null;
+  if (expireDaysInput) {
+    expireDaysInput.value = String(settings.expireDays);
+  }
+}
+
+/**
+ * 入力された設定を確認して保存する
+ */
+async function handleSave(options: ResumePlaybackEditorOptions): Promise<void> {
+  const modeSelect = document.getElementById('resumePlaybackMode') as HTMLSelectElement | null;
+  const expireDaysInput = document.getElementById('resumePlaybackExpireDays') as HTMLInputElement | null;
+  const settings: ResumePlaybackSettings = {
+    mode: (modeSelect?.value ?? DEFAULT_RESUME_PLAYBACK_SETTINGS.mode) as ResumePlaybackMode,
+    expireDays: Number(expireDaysInput?.value.trim() ?? ''),
+  };
+
+  const valid = isValidResumeExpireDays(settings.expireDays);
+  const error = document.getElementById('resumePlaybackError');
+  if (error) {
+    error.hidden = valid;
+    error.textContent = valid ? '' : `保存期間は${MIN_RESUME_EXPIRE_DAYS}〜${MAX_RESUME_EXPIRE_DAYS}日の整数で入力してください`;
+  }
+  if (!valid) {
+    return;
+  }
+
+  const result = await saveResumePlaybackSettings(settings);
+  if (result.isErr()) {
+    console.error('[Better Niconico] 続きから再生の設定保存エラー:', result.error);
+    reportError(result.error, 'options');
+    options.showStatus('続きから再生の設定の保存に失敗しました', 3000);
+    return;
+  }
+
+  options.showStatus('続きから再生の設定を保存しました');
+}
+
+/**
+ * 保存したすべての再生位置を削除する
+ */
+async function handleClear(options: ResumePlaybackEditorOptions): Promise<void> {
+  const result = await clearResumePositions();
+  if (result.isErr()) {
+    console.error('[Better Niconico] 再生位置の削除エラー:', result.error);
+    reportError(result.error, 'options');
+    options.showStatus('再生位置の削除に失敗しました', 3000);
+    return;
+  }
+
+  options.showStatus('保存した再生位置を削除しました');
+}
+
+/**
+ * 設定を読み込み、続きから再生の編集UIを設定
+ */
+export async function setupResumePlaybackEditor(options: ResumePlaybackEditorOptions): Promise<void> {
+  const settingsResult = await loadResumePlaybackSettings();
+  if (settingsResult.isErr()) {
+    console.error('[Better Niconico] 続きから再生の設定の読み込みに失敗しました:', settingsResult.error);
+    options.showStatus('続きから再生の設定の読み込みに失敗しました', 3000);
+  }
+
+  renderSettings(settingsResult.unwrapOr(DEFAULT_RESUME_PLAYBACK_SETTINGS));
+
+  document.getElementById('resumePlaybackForm')?.addEventListener('submit', (event) => {
+    event.preventDefault();
+    void handleSave(options);
+  });
+  document.getElementById('clearResumePositionsButton')?.addEventListener('click', () => void handleClear(options));
+
+  // 設定の読み込み（インポート）など他の画面での変更を反映する
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if ((areaName === 'sync' || areaName === 'local') && changes[RESUME_PLAYBACK_KEY]) {
+      const parsed = parseResumePlaybackSettings(changes[RESUME_PLAYBACK_KEY].newValue);
+      if (parsed.isOk()) {
+        renderSettings(parsed.value);
+      }
+    }
+  });
+}
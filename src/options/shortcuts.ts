@@ -0,0 +1,250 @@
+// Better Niconico Options Page - Shortcut Editor
+// ページ内ショートカットの割り当てを編集し、chrome.commands のショートカットを一覧表示する
+import type { FeatureDefinition, FeatureKey } from '../types/features';
+import type { ShortcutBindings } from '../types/shortcuts';
+import { FEATURE_DEFINITIONS } from '../types/features';
+import { loadShortcuts, saveShortcuts } from '../utils/storage';
+import { findShortcutConflict, getShortcutFromEvent } from '../utils/shortcuts';
+import { reportError } from '../utils/errorLog';
+
+/**
+ * ショートカット編集UIが必要とする設定ページ側の処理
+ */
+export interface ShortcutEditorOptions {
+  // ステータスメッセージを表示
+  showStatus(message: string, duration?: number): void;
+}
+
+// 現在の割り当て
+let bindings: ShortcutBindings = {};
+
+// chrome.commands で使用中のショートカット（ショートカット → 説明）
+let commandShortcuts = new Map<string, string>();
+
+// キー入力を待っている機能
+let recordingFeature: FeatureKey | null = null;
+
+/**
+ * 機能のショートカットのボタンを取得
+ */
+function getKeyButton(feature: FeatureKey): HTMLButtonElement | null {
+  return document.querySelector<HTMLButtonElement>(`.shortcut-key[data-feature="${feature}"]`);
+}
+
+/**
+ * 機能の競合メッセージの表示を更新
+ */
+function setShortcutError(feature: FeatureKey, message: string | null): void {
+  const error = document.querySelector<HTMLElement>(`.shortcut-error[data-feature="${feature}"]`);
+  if (error) {
+    error.hidden = message === null;
+    error.textContent = message ?? '';
+  }
+}
+
+/**
+ * 割り当ての表示を更新
+ */
+function updateShortcutUI(): void {
+  for (const feature of FEATURE_DEFINITIONS) {
+    const button = getKeyButton(feature.key);
+    if (!button) {
+      continue;
+    }
+
+    const shortcut = bindings[feature.key];
+    const recording = recordingFeature === feature.key;
+    button.textContent = recording ? 'キーを押してください…' : (shortcut ?? '未設定');
+    button.classList.toggle('recording', recording);
+    button.classList.toggle('unset', !recording && !shortcut);
+
+    const clearButton = document.querySelector<HTMLButtonElement>(
+      `.shortcut-clear[data-feature="${feature.key}"]`,
+    );
+    if (clearButton) {
+      clearButton.disabled = !shortcut;
+    }
+  }
+}
+
+/**
+ * 割り当てを保存して表示に反映する
+ */
+async function saveBindings(newBindings: ShortcutBindings, options: ShortcutEditorOptions): Promise<void> {
+  const result = await saveShortcuts(newBindings);
+  if (result.isErr()) {
+    console.error('[Better Niconico] ショートカット保存エラー:', result.error);
+    reportError(result.error, 'options');
+    options.showStatus('ショートカットの保存に失敗しました', 3000);
+    return;
+  }
+
+  bindings = newBindings;
+  updateShortcutUI();
+  options.showStatus('ショートカットを保存しました');
+}
+
+/**
+ * 機能のショートカットを取り除く
+ */
+async function clearShortcut(feature: FeatureKey, options: ShortcutEditorOptions): Promise<void> {
+  const newBindings = { ...bindings };
+  delete newBindings[feature];
+  setShortcutError(feature, null);
+  await saveBindings(newBindings, options);
+}
+
+/**
+ * キー入力の待ち受け中に押されたキーを割り当てる
+ * Escape で取り消し、Backspace / Delete で割り当てを取り除く
+ */
+function handleRecordingKeydown(event: KeyboardEvent, options: ShortcutEditorOptions): void {
+  const feature = recordingFeature;
+  if (!feature) {
+    return;
+  }
+
+  event.preventDefault();
+  event.stopPropagation();
+
+  if (event.key === 'Escape') {
+    recordingFeature = null;
+    updateShortcutUI();
+    return;
+  }
+
+  if ((event.key === 'Backspace' || event.key === 'Delete') && !event.ctrlKey && !event.altKey) {
+    recordingFeature = null;
+    void clearShortcut(feature, options);
+    return;
+  }
+
+  // 修飾キーのみの入力中は待ち続ける
+  const shortcut = getShortcutFromEvent(event);
+  if (!shortcut) {
+    return;
+  }
+
+  recordingFeature = null;
+  const conflict = findShortcutConflict(bindings, feature, shortcut, commandShortcuts);
+  setShortcutError(feature, conflict ? `${shortcut}: ${conflict}` : null);
+  if (conflict) {
+    updateShortcutUI();
+    return;
+  }
+
+  void saveBindings({ ...bindings, [feature]: shortcut }, options);
+}
+
+/**
+ * 機能のショートカットの行を作成
+ */
+function createShortcutItem(feature: FeatureDefinition<FeatureKey>, options: ShortcutEditorOptions): HTMLElement {
+  const item = document.createElement('div');
+  item.className = 'shortcut-item';
+
+  const info = document.createElement('div');
+  const label = document.createElement('p');
+  label.className = 'shortcut-label';
+  label.textContent = feature.label;
+  const error = document.createElement('p');
+  error.className = 'shortcut-error';
+  error.dataset.feature = feature.key;
+  error.hidden = true;
+  info.appendChild(label);
+  info.appendChild(error);
+
+  const controls = document.createElement('div');
+  controls.className = 'shortcut-controls';
+
+  const keyButton = document.createElement('button');
+  keyButton.type = 'button';
+  keyButton.className = 'shortcut-key';
+  keyButton.dataset.feature = feature.key;
+  keyButton.addEventListener('click', () => {
+    recordingFeature = recordingFeature === feature.key ? null : feature.key;
+    updateShortcutUI();
+  });
+  // 待ち受け中にフォーカスが外れたら取り消す
+  keyButton.addEventListener('blur', () => {
+    if (recordingFeature === feature.key) {
+      recordingFeature = null;
+      updateShortcutUI();
+    }
+  });
+
+  const clearButton = document.createElement('button');
+  clearButton.type = 'button';
+  clearButton.className = 'button shortcut-clear';
+  clearButton.dataset.feature = feature.key;
+  clearButton.textContent = '解除';
+  clearButton.addEventListener('click', () => void clearShortcut(feature.key, options));
+
+  controls.appendChild(keyButton);
+  controls.appendChild(clearButton);
+
+  item.appendChild(info);
+  item.appendChild(controls);
+
+  return item;
+}
+
+/**
+ * chrome.commands のショートカットを表示し、競合検出用に保持する
+ */
+async function renderCommands(): Promise<void> {
+  const commandList = document.getElementById('commandList');
+  const commands = await chrome.commands.getAll();
+
+  commandShortcuts = new Map();
+  const items: HTMLElement[] = [];
+  for (const command of commands) {
+    // _execute_action など拡張機能の操作以外のコマンドは表示しない
+    if (!command.name || command.name.startsWith('_')) {
+      continue;
+    }
+
+    if (command.shortcut) {
+      commandShortcuts.set(command.shortcut, command.description ?? command.name);
+    }
+
+    const item = document.createElement('li');
+    item.className = 'command-item';
+    const description = document.createElement('span');
+    description.textContent = command.description ?? command.name;
+    const key = document.createElement('span');
+    key.className = 'command-key';
+    key.textContent = command.shortcut || '未設定';
+    item.appendChild(description);
+    item.appendChild(key);
+    items.push(item);
+  }
+
+  commandList?.replaceChildren(...items);
+}
+
+/**
+ * 割り当てを読み込み、ショートカット編集UIを設定
+ */
+export async function setupShortcutEditor(options: ShortcutEditorOptions): Promise<void> {
+  const shortcutList = document.getElementById('shortcutList');
+  shortcutList?.replaceChildren(...FEATURE_DEFINITIONS.map((feature) => createShortcutItem(feature, options)));
+
+  const bindingsResult = await loadShortcuts();
+  if (bindingsResult.isErr()) {
+    console.error('[Better Niconico] ショートカットの読み込みに失敗しました:', bindingsResult.error);
+    options.showStatus('ショートカットの読み込みに失敗しました', 3000);
+  } else {
+    bindings = bindingsResult.value;
+  }
+
+  updateShortcutUI();
+  await renderCommands();
+
+  // キー入力の待ち受け中は、ページ上のすべてのキー入力を割り当てに使う
+  window.addEventListener('keydown', (event) => handleRecordingKeydown(event, options), true);
+
+  document.getElementById('openCommandSettings')?.addEventListener('click', () => {
+    void chrome.tabs.create({ url: 'chrome://extensions/shortcuts' });
+  });
+}
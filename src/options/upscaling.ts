@@ -0,0 +1,115 @@
+// Better Niconico Options Page - Video Upscaling Editor
+// 動画アップスケーリングで使用する Anime4K のパイプラインと出力解像度、動画の解像度・描画の負荷による切り替えを編集する
+import type { UpscalingPipeline, UpscalingScale, UpscalingSettings } from '../types/upscaling';
+import { DEFAULT_UPSCALING_SETTINGS, UPSCALING_SETTINGS_KEY } from '../types/upscaling';
+import { loadUpscalingSettings, saveUpscalingSettings } from '../utils/storage';
+import { parseUpscalingSettings } from '../utils/upscaling';
+import { reportError } from '../utils/errorLog';
+
+/**
+ * 動画アップスケーリングの編集UIが必要とする設定ページ側の処理
+ */
+export interface UpscalingEditorOptions {
+  // ステータスメッセージを表示
+  showStatus(message: string, duration?: number): void;
+}
+
+/**
+ * 設定を入力欄に表示
+ */
+function renderSettings(settings: UpscalingSettings): void {
+  const pipelineSelect = document.getElementById('upscalingPipeline') as HTMLSelectElement | null;
+  if (pipelineSelect) {
+    pipelineSelect.value = settings.pipeline;
+  }
+
+  const scaleSelect = document.getElementById('upscalingScale') as HTMLSelectElement | null;
+  if (scaleSelect) {
+    scaleSelect.value = settings.scale;
+  }
+
+  const maxSourceHeightSelect = document.getElementById('upscalingMaxSourceHeight') as HTMLSelectElement | null;
+  if (maxSourceHeightSelect) {
+    maxSourceHeightSelect.value = String(settings.maxSourceHeight);
+  }
+
+  const largeSourceSelect = document.getElementById('upscalingLargeSourcePipeline') as HTMLSelectElement | null;
+  if (largeSourceSelect) {
+    largeSourceSelect.value = settings.largeSourcePipeline ?? '';
+  }
+
+  const adaptiveCheckbox = document.getElementById('upscalingAdaptive') as HTMLInputElement | null;
+  if (adaptiveCheckbox) {
+    adaptiveCheckbox.checked = settings.adaptive;
+  }
+}
+
+/**
+ * 480p を超える動画で使うパイプラインの選択肢を、パイプラインの選択肢から作成する
+ */
+function renderLargeSourcePipelineOptions(): void {
+  const pipelineSelect = document.getElementById('upscalingPipeline') as HTMLSelectElement | null;
+  const largeSourceSelect = document.getElementById('upscalingLargeSourcePipeline') as HTMLSelectElement | null;
+  if (!pipelineSelect || !largeSourceSelect) {
+    return;
+  }
+
+  largeSourceSelect.append(...Array.from(pipelineSelect.children, (child) => child.cloneNode(true)));
+}
+
+/**
+ * 入力された設定を保存する
+ */
+async function handleSave(options: UpscalingEditorOptions): Promise<void> {
+  const pipelineSelect = document.getElementById('upscalingPipeline') as HTMLSelectElement | null;
+  const scaleSelect = document.getElementById('upscalingScale') as HTMLSelectElement | null;
+  const maxSourceHeightSelect = document.getElementById('upscalingMaxSourceHeight') as HTMLSelectElement | null;
+  const largeSourceSelect = document.getElementById('upscalingLargeSourcePipeline') as HTMLSelectElement | null;
+  const adaptiveCheckbox = document.getElementById('upscalingAdaptive') as HTMLInputElement | null;
+  const settings: UpscalingSettings = {
+    pipeline: (pipelineSelect?.value ?? DEFAULT_UPSCALING_SETTINGS.pipeline) as UpscalingPipeline,
+    scale: (scaleSelect?.value ?? DEFAULT_UPSCALING_SETTINGS.scale) as UpscalingScale,
+    maxSourceHeight: Number(maxSourceHeightSelect?.value ?? DEFAULT_UPSCALING_SETTINGS.maxSourceHeight),
+    largeSourcePipeline: (largeSourceSelect?.value || null) as UpscalingPipeline | null,
+    adaptive: adaptiveCheckbox?.checked ?? DEFAULT_UPSCALING_SETTINGS.adaptive,
+  };
+
+  const result = await saveUpscalingSettings(settings);
+  if (result.isErr()) {
+    console.error('[Better Niconico] 動画アップスケーリングの設定保存エラー:', result.error);
+    reportError(result.error, 'options');
+    options.showStatus('動画アップスケーリングの設定の保存に失敗しました', 3000);
+    return;
+  }
+
+  options.showStatus('動画アップスケーリングの設定を保存しました');
+}
+
+/**
+ * 設定を読み込み、動画アップスケーリングの編集UIを設定
+ */
+export async function setupUpscalingEditor(options: UpscalingEditorOptions): Promise<void> {
+  const settingsResult = await loadUpscalingSettings();
+  if (settingsResult.isErr()) {
+    console.error('[Better Niconico] 動画アップスケーリングの設定の読み込みに失敗しました:', settingsResult.error);
+    options.showStatus('動画アップスケーリングの設定の読み込みに失敗しました', 3000);
+  }
+
+  renderLargeSourcePipelineOptions();
+  renderSettings(settingsResult.unwrapOr(DEFAULT_UPSCALING_SETTINGS));
+
+  document.getElementById('upscalingForm')?.addEventListener('submit', (event) => {
+    event.preventDefault();
+    void handleSave(options);
+  });
+
+  // 設定の読み込み（インポート）など他の画面での変更を反映する
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if ((areaName === 'sync' || areaName === 'local') && changes[UPSCALING_SETTINGS_KEY]) {
+      const parsed = parseUpscalingSettings(changes[UPSCALING_SETTINGS_KEY].newValue);
+      if (parsed.isOk()) {
+        renderSettings(parsed.value);
+      }
+    }
+  });
+}
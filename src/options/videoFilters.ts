@@ -0,0 +1,211 @@
+// Better Niconico Options Page - Video Filter Editor
+// 動画一覧のNGフィルタのルールを一覧表示し、追加・有効/無効の切り替え・削除と、一致した動画の扱いの変更を行う
+import type { VideoFilterAction, VideoFilterRule, VideoFilterSettings, VideoFilterType } from '../types/videoFilters';
+import {
+  DEFAULT_VIDEO_FILTER_SETTINGS,
+  MAX_VIDEO_FILTER_RULES,
+  VIDEO_FILTERS_KEY,
+  VIDEO_FILTER_TYPES,
+  VIDEO_FILTER_TYPE_LABELS,
+} from '../types/videoFilters';
+import { addVideoFilterRule, loadVideoFilters, saveVideoFilters } from '../utils/storage';
+import { getVideoFilterRuleProblem, parseVideoFilterSettings } from '../utils/videoFilters';
+import { reportError } from '../utils/errorLog';
+
+/**
+ * NGフィルタ編集UIが必要とする設定ページ側の処理
+ */
+export interface VideoFilterEditorOptions {
+  // ステータスメッセージを表示
+  showStatus(message: string, duration?: number): void;
+}
+
+// 現在の設定
+let filters: VideoFilterSettings = DEFAULT_VIDEO_FILTER_SETTINGS;
+
+/**
+ * 設定を保存する（表示は chrome.storage.onChanged 経由で更新する）
+ */
+async function saveFilters(
+  newFilters: VideoFilterSettings,
+  message: string,
+  options: VideoFilterEditorOptions,
+): Promise<void> {
+  const result = await saveVideoFilters(newFilters);
+  if (result.isErr()) {
+    console.error('[Better Niconico] NGフィルタ保存エラー:', result.error);
+    reportError(result.error, 'options');
+    options.showStatus('NGフィルタの保存に失敗しました', 3000);
+    return;
+  }
+
+  options.showStatus(message);
+}
+
+/**
+ * ルールの行を作成
+ */
+function createRuleItem(rule: VideoFilterRule, options: VideoFilterEditorOptions): HTMLElement {
+  const item = document.createElement('div');
+  item.className = 'rule-item';
+
+  const info = document.createElement('div');
+  info.className = 'rule-info';
+  const name = document.createElement('p');
+  name.className = 'rule-name';
+  name.textContent = rule.value;
+  const target = document.createElement('p');
+  target.className = 'rule-target';
+  target.textContent = VIDEO_FILTER_TYPE_LABELS[rule.type];
+  info.appendChild(name);
+  info.appendChild(target);
+
+  const controls = document.createElement('div');
+  controls.className = 'rule-controls';
+
+  const toggle = document.createElement('label');
+  toggle.className = 'toggle';
+  toggle.title = '有効/無効';
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.checked = rule.enabled;
+  checkbox.addEventListener('change', () => {
+    const rules = filters.rules.map((item) => (item.id === rule.id ? { ...item, enabled: checkbox.checked } : item));
+    void saveFilters(
+      { ...filters, rules },
+      checkbox.checked ? 'ルールを有効にしました' : 'ルールを無効にしました',
+      options,
+    );
+  });
+  const slider = document.createElement('span');
+  slider.className = 'toggle-slider';
+  toggle.appendChild(checkbox);
+  toggle.appendChild(slider);
+
+  const deleteButton = document.createElement('button');
+  deleteButton.type = 'button';
+  deleteButton.className = 'button';
+  deleteButton.textContent = '削除';
+  deleteButton.addEventListener('click', () => {
+    const rules = filters.rules.filter((item) => item.id !== rule.id);
+    void saveFilters({ ...filters, rules }, 'ルールを削除しました', options);
+  });
+
+  controls.appendChild(toggle);
+  controls.appendChild(deleteButton);
+
+  item.appendChild(info);
+  item.appendChild(controls);
+
+  return item;
+}
+
+/**
+ * 設定を表示
+ */
+function renderFilters(options: VideoFilterEditorOptions): void {
+  const list = document.getElementById('videoFilterList');
+  const empty = document.getElementById('videoFilterEmpty');
+  const addButton = document.getElementById('addVideoFilterButton') as HTMLButtonElement | null;
+  const actionSelect = document.getElementById('videoFilterAction') as HTMLSelectElement | null;
+
+  list?.replaceChildren(...filters.rules.map((rule) => createRuleItem(rule, options)));
+  if (empty) {
+    empty.hidden = filters.rules.length > 0;
+  }
+  if (addButton) {
+    addButton.disabled = filters.rules.length >= MAX_VIDEO_FILTER_RULES;
+  }
+  if (actionSelect) {
+    actionSelect.value = filters.action;
+  }
+}
+
+/**
+ * ルールの種類の選択肢を作成
+ */
+function renderTypeOptions(): void {
+  const select = document.getElementById('videoFilterType');
+  select?.replaceChildren(
+    ...VIDEO_FILTER_TYPES.map((type) => {
+      const option = document.createElement('option');
+      option.value = type;
+      option.textContent = VIDEO_FILTER_TYPE_LABELS[type];
+      return option;
+    }),
+  );
+}
+
+/**
+ * 入力フォームからルールを追加
+ */
+async function handleAddRule(options: VideoFilterEditorOptions): Promise<void> {
+  const form = document.getElementById('videoFilterForm') as HTMLFormElement | null;
+  const typeSelect = document.getElementById('videoFilterType') as HTMLSelectElement | null;
+  const valueInput = document.getElementById('videoFilterValue') as HTMLInputElement | null;
+  const error = document.getElementById('videoFilterError');
+  if (!typeSelect || !valueInput) {
+    return;
+  }
+
+  const type = typeSelect.value as VideoFilterType;
+  // 正規表現は前後の空白も意味を持つため、そのまま保存する
+  const value = type === 'regex' ? valueInput.value : valueInput.value.trim();
+  const problem = getVideoFilterRuleProblem(type, value);
+  if (error) {
+    error.hidden = problem === null;
+    error.textContent = problem ?? '';
+  }
+  if (problem) {
+    return;
+  }
+
+  const result = await addVideoFilterRule(type, value);
+  if (result.isErr()) {
+    console.error('[Better Niconico] NGフィルタ保存エラー:', result.error);
+    reportError(result.error, 'options');
+    options.showStatus('NGフィルタの保存に失敗しました', 3000);
+    return;
+  }
+
+  form?.reset();
+  options.showStatus('ルールを追加しました');
+}
+
+/**
+ * 設定を読み込み、NGフィルタ編集UIを設定
+ */
+export async function setupVideoFilterEditor(options: VideoFilterEditorOptions): Promise<void> {
+  renderTypeOptions();
+
+  const filtersResult = await loadVideoFilters();
+  if (filtersResult.isErr()) {
+    console.error('[Better Niconico] NGフィルタの読み込みに失敗しました:', filtersResult.error);
+    options.showStatus('NGフィルタの読み込みに失敗しました', 3000);
+  } else {
+    filters = filtersResult.value;
+  }
+
+  renderFilters(options);
+
+  document.getElementById('videoFilterAction')?.addEventListener('change', (event) => {
+    const action = (event.target as HTMLSelectElement).value as VideoFilterAction;
+    void saveFilters({ ...filters, action }, '一致した動画の扱いを変更しました', options);
+  });
+
+  document.getElementById('videoFilterForm')?.addEventListener('submit', (event) => {
+    event.preventDefault();
+    void handleAddRule(options);
+  });
+
+  // コンテキストメニューなど他の画面での変更を反映する
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if ((areaName === 'sync' || areaName === 'local') && changes[VIDEO_FILTERS_KEY]) {
+      const parsed = parseVideoFilterSettings(changes[VIDEO_FILTERS_KEY].newValue);
+      if (parsed.isOk()) {
+        filters = parsed.value;
+        renderFilters(options);
+      }
+    }
+  });
+}
@@ -0,0 +1,160 @@
+// Better Niconico Popup - Error Log Viewer
+// 保存されたエラーログを表示し、DevToolsを開かずにバグ報告用の文章をコピーできるようにする
+import type { ErrorLogEntry } from '../types/errorLog';
+import { ERROR_LOG_KEY } from '../types/errorLog';
+import { loadErrorLog, clearErrorLog } from '../utils/storage';
+import { formatBugReport } from '../utils/errorLog';
+import { parseErrorLog } from '../utils/errorLogSchema';
+
+// ポップアップに表示する最大件数（コピーは全件）
+const MAX_VISIBLE_ENTRIES = 20;
+
+/**
+ * エラーログUIが必要とするポップアップ側の処理
+ */
+export interface ErrorLogOptions {
+  // ステータスメッセージを表示
+  showStatus(message: string, duration?: number): void;
+}
+
+// 現在表示しているエラーログ（古い順）
+let entries: ErrorLogEntry[] = [];
+
+/**
+ * 日時を表示用の文字列に変換
+ */
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleString('ja-JP');
+}
+
+/**
+ * エラーログの1件の要素を作成
+ */
+function createEntryItem(entry: ErrorLogEntry): HTMLLIElement {
+  const item = document.createElement('li');
+  item.className = 'error-log-item';
+
+  const header = document.createElement('div');
+  header.className = 'error-log-header';
+  const type = document.createElement('span');
+  type.className = 'error-log-type';
+  type.textContent = entry.errorType;
+  const time = document.createElement('span');
+  time.className = 'error-log-time';
+  time.textContent = formatTimestamp(entry.timestamp);
+  header.append(type, time);
+
+  const message = document.createElement('p');
+  message.className = 'error-log-message';
+  message.textContent = `${entry.source}: ${entry.message}`;
+  item.append(header, message);
+
+  if (entry.url) {
+    const url = document.createElement('p');
+    url.className = 'error-log-url';
+    url.textContent = entry.url;
+    url.title = entry.url;
+    item.appendChild(url);
+  }
+
+  return item;
+}
+
+/**
+ * エラーログの表示を更新（新しい順）
+ */
+function renderErrorLog(): void {
+  const count = document.getElementById('errorLogCount');
+  const list = document.getElementById('errorLogList');
+  const copyButton = document.getElementById('copyBugReport') as HTMLButtonElement | null;
+  const clearButton = document.getElementById('clearErrorLog') as HTMLButtonElement | null;
+
+  if (count) {
+    count.textContent = `${entries.length}件`;
+  }
+  if (copyButton) {
+    copyButton.disabled = entries.length === 0;
+  }
+  if (clearButton) {
+    clearButton.disabled = entries.length === 0;
+  }
+  if (!list) {
+    return;
+  }
+
+  list.replaceChildren();
+
+  if (entries.length === 0) {
+    const empty = document.createElement('li');
+    empty.className = 'error-log-empty';
+    empty.textContent = 'エラーは記録されていません';
+    list.appendChild(empty);
+    return;
+  }
+
+  const oldestVisible = Math.max(0, entries.length - MAX_VISIBLE_ENTRIES);
+  for (let i = entries.length - 1; i >= oldestVisible; i--) {
+    list.appendChild(createEntryItem(entries[i]));
+  }
+}
+
+/**
+ * エラーログをバグ報告用の文章としてクリップボードにコピー
+ */
+async function copyBugReport(options: ErrorLogOptions): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(formatBugReport(entries));
+    options.showStatus('バグ報告をコピーしました');
+  } catch (error) {
+    console.error('[Better Niconico] バグ報告のコピーに失敗しました:', error);
+    options.showStatus('コピーに失敗しました', 3000);
+  }
+}
+
+/**
+ * エラーログを削除
+ */
+async function handleClear(options: ErrorLogOptions): Promise<void> {
+  const result = await clearErrorLog();
+  if (result.isErr()) {
+    console.error('[Better Niconico] エラーログの削除に失敗しました:', result.error);
+    options.showStatus('エラーログの削除に失敗しました', 3000);
+    return;
+  }
+
+  entries = [];
+  renderErrorLog();
+  options.showStatus('エラーログを削除しました');
+}
+
+/**
+ * エラーログを読み込み、エラーログUIのイベントを設定
+ */
+export async function setupErrorLog(options: ErrorLogOptions): Promise<void> {
+  const logResult = await loadErrorLog();
+  if (logResult.isErr()) {
+    console.error('[Better Niconico] エラーログの読み込みに失敗しました:', logResult.error);
+  } else {
+    entries = logResult.value;
+  }
+
+  renderErrorLog();
+
+  document.getElementById('copyBugReport')?.addEventListener('click', () => void copyBugReport(options));
+  document.getElementById('clearErrorLog')?.addEventListener('click', () => void handleClear(options));
+
+  // ポップアップを開いている間に記録されたエラーも表示する
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    const change = changes[ERROR_LOG_KEY];
+    if (areaName !== 'local' || !change) {
+      return;
+    }
+
+    const parsed = parseErrorLog(change.newValue);
+    if (parsed.isOk()) {
+      entries = parsed.value;
+      renderErrorLog();
+    }
+  });
+}
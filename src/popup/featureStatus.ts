@@ -0,0 +1,110 @@
+// Better Niconico Popup - Feature Status
+// 現在のタブで各機能が実際に何をしたかを、トグルの横に表示する
+import type { FeatureStatus } from '../types/featureStatus';
+import { FEATURE_APPLY_STATUS_LABELS } from '../types/featureStatus';
+import { STORAGE_KEY } from '../types/settings';
+import { sendTabMessage } from '../utils/messaging';
+
+// 設定の変更からコンテンツスクリプトが再適用するまでの待ち時間
+const SETTINGS_CHANGE_REFRESH_DELAY_MS = 300;
+
+// 処理中の機能がある間に状態を問い合わせ直す間隔
+const PENDING_REFRESH_INTERVAL_MS = 1000;
+
+// 状態を問い合わせるタブ
+let targetTabId: number | null = null;
+
+// 予約中の問い合わせのタイマー
+let refreshTimer: number | null = null;
+
+/**
+ * 機能の状態の表示要素を取得
+ */
+function getStatusElement(feature: FeatureStatus['feature']): HTMLElement | null {
+  return document.getElementById(feature)?.closest('.setting-item')?.querySelector<HTMLElement>('.setting-status') ?? null;
+}
+
+/**
+ * 機能の状態を表示
+ * まだ適用していない機能は表示しない
+ */
+function renderFeatureStatus(status: FeatureStatus): void {
+  const element = getStatusElement(status.feature);
+  if (!element) {
+    return;
+  }
+
+  element.hidden = status.status === null;
+  if (status.status === null) {
+    return;
+  }
+
+  const label = FEATURE_APPLY_STATUS_LABELS[status.status];
+  element.dataset.status = status.status;
+  element.textContent = status.message ? `${label}: ${status.message}` : label;
+  element.title = element.textContent;
+}
+
+/**
+ * すべての機能の状態の表示を消す（コンテンツスクリプトに問い合わせできない場合）
+ */
+function hideFeatureStatus(): void {
+  for (const element of document.querySelectorAll<HTMLElement>('.setting-status')) {
+    element.hidden = true;
+  }
+}
+
+/**
+ * 状態の問い合わせを予約する（予約済みの場合は予約し直す）
+ */
+function scheduleRefresh(delay: number): void {
+  if (refreshTimer !== null) {
+    clearTimeout(refreshTimer);
+  }
+
+  refreshTimer = window.setTimeout(() => {
+    refreshTimer = null;
+    void refreshFeatureStatus();
+  }, delay);
+}
+
+/**
+ * 現在のタブのコンテンツスクリプトに各機能の状態を問い合わせて表示する
+ * 処理中の機能がある場合は、完了するまで問い合わせ直す
+ */
+async function refreshFeatureStatus(): Promise<void> {
+  if (targetTabId === null) {
+    return;
+  }
+
+  const result = await sendTabMessage(targetTabId, { action: 'getFeatureStatus' });
+  result.match(
+    (report) => {
+      report.features.forEach(renderFeatureStatus);
+      if (report.features.some((feature) => feature.status === 'pending')) {
+        scheduleRefresh(PENDING_REFRESH_INTERVAL_MS);
+      }
+    },
+    (error) => {
+      // コンテンツスクリプトの読み込み前やページの再読み込み中は応答がない
+      console.warn('[Better Niconico] 機能の状態を取得できませんでした:', error);
+      hideFeatureStatus();
+    },
+  );
+}
+
+/**
+ * 現在のタブの機能の状態の表示を設定
+ * 設定が変わった場合は、コンテンツスクリプトが再適用した後に問い合わせ直す
+ */
+export async function setupFeatureStatus(tabId: number): Promise<void> {
+  targetTabId = tabId;
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if ((areaName === 'sync' || areaName === 'local') && changes[STORAGE_KEY]) {
+      scheduleRefresh(SETTINGS_CHANGE_REFRESH_DELAY_MS);
+    }
+  });
+
+  await refreshFeatureStatus();
+}
@@ -1,9 +1,37 @@
 // Better Niconico Popup Script
 import type { BetterNiconicoSettings } from '../types/settings';
+import type { FeatureDefinition, FeatureKey } from '../types/features';
+import type { PageType } from '../types/pages';
 import { DEFAULT_SETTINGS } from '../types/settings';
-import { loadSettings, saveSettings } from '../utils/storage';
+import { FEATURE_DEFINITIONS, isPageInScope } from '../types/features';
+import { PAGE_TYPE_LABELS } from '../types/pages';
+import { WATCH_HISTORY_PAGE_PATH } from '../types/watchHistory';
+import { loadSettings, saveSettings, getActiveStorageBackend } from '../utils/storage';
+import { classifyPage, resolveFeatureSettings, setPageOverride } from '../utils/pageClassifier';
+import { reportError } from '../utils/errorLog';
+import { sendTabMessage } from '../utils/messaging';
+import { downloadSettingsExport, SETTINGS_IMPORT_PAGE_PATH } from '../utils/settingsTransfer';
+import { setupPresets, refreshPresets } from './presets';
+import { setupErrorLog } from './errorLog';
+import { setupFeatureStatus } from './featureStatus';
 
 const statusMessage = document.getElementById('statusMessage') as HTMLDivElement;
+const featureList = document.getElementById('featureList') as HTMLDivElement;
+const storageBackend = document.getElementById('storageBackend') as HTMLParagraphElement;
+
+// 現在の設定（トグル・プリセット・インポートの基準）
+let currentSettings: BetterNiconicoSettings = DEFAULT_SETTINGS;
+
+// 編集中の範囲（null: 全ページ共通、PageType: そのページ種別の上書き）
+let editScope: PageType | null = null;
+
+/**
+ * 現在のタブ（ニコニコ動画のページの場合）
+ */
+interface ActiveNiconicoTab {
+  tabId: number;
+  pageType: PageType;
+}
 
 /**
  * ステータスメッセージを表示
@@ -20,74 +48,247 @@ function showStatusMessage(message: string, duration = 2000): void {
 }
 
 /**
- * UIを設定で更新
+ * 現在の設定の保存先を表示
  */
-function updateUI(settings: BetterNiconicoSettings): void {
-  const hidePremiumCheckbox = document.getElementById('hidePremiumSection') as HTMLInputElement;
-  const hideOnAirAnimeCheckbox = document.getElementById('hideOnAirAnime') as HTMLInputElement;
-  const restoreClassicVideoLayoutCheckbox = document.getElementById('restoreClassicVideoLayout') as HTMLInputElement;
-  const enableVideoUpscalingCheckbox = document.getElementById('enableVideoUpscaling') as HTMLInputElement;
-  const showNicoRankButtonCheckbox = document.getElementById('showNicoRankButton') as HTMLInputElement;
-  const squareProfileIconsCheckbox = document.getElementById('squareProfileIcons') as HTMLInputElement;
-  const hideSupporterButtonCheckbox = document.getElementById('hideSupporterButton') as HTMLInputElement;
-  const hideNicoAdsCheckbox = document.getElementById('hideNicoAds') as HTMLInputElement;
-
-  if (hidePremiumCheckbox) {
-    hidePremiumCheckbox.checked = settings.hidePremiumSection;
+function updateStorageBackend(): void {
+  if (!storageBackend) {
+    return;
   }
 
-  if (hideOnAirAnimeCheckbox) {
-    hideOnAirAnimeCheckbox.checked = settings.hideOnAirAnime;
-  }
+  const backend = getActiveStorageBackend();
+  storageBackend.textContent =
+    backend === 'sync' ? '保存先: Chrome同期ストレージ' : '保存先: この端末のみ（同期ストレージが利用できません）';
+  storageBackend.classList.toggle('local', backend === 'local');
+}
 
-  if (restoreClassicVideoLayoutCheckbox) {
-    restoreClassicVideoLayoutCheckbox.checked = settings.restoreClassicVideoLayout;
-  }
+/**
+ * 機能定義からトグル項目を作成
+ */
+function createSettingItem(feature: FeatureDefinition): HTMLElement {
+  const item = document.createElement('div');
+  item.className = 'setting-item';
+
+  const info = document.createElement('div');
+  info.className = 'setting-info';
+
+  const label = document.createElement('label');
+  label.className = 'setting-label';
+  label.htmlFor = feature.key;
+  label.textContent = feature.label;
+
+  const description = document.createElement('p');
+  description.className = 'setting-description';
+  description.textContent = feature.description;
+
+  // ページ種別ごとの上書き中の表示（編集範囲がページ種別の場合のみ）
+  const override = document.createElement('p');
+  override.className = 'setting-override';
+  override.hidden = true;
+
+  const overrideText = document.createElement('span');
+  overrideText.textContent = 'このページ種別で上書き中';
+
+  const resetButton = document.createElement('button');
+  resetButton.type = 'button';
+  resetButton.className = 'setting-override-reset';
+  resetButton.textContent = '共通設定に戻す';
+  resetButton.addEventListener('click', () => void handleOverrideReset(feature.key as FeatureKey));
+
+  override.appendChild(overrideText);
+  override.appendChild(resetButton);
+
+  // 現在のタブでの適用結果（コンテンツスクリプトから取得できた場合のみ）
+  const status = document.createElement('p');
+  status.className = 'setting-status';
+  status.hidden = true;
+
+  info.appendChild(label);
+  info.appendChild(description);
+  info.appendChild(override);
+  info.appendChild(status);
 
-  if (enableVideoUpscalingCheckbox) {
-    enableVideoUpscalingCheckbox.checked = settings.enableVideoUpscaling;
+  const toggle = document.createElement('label');
+  toggle.className = 'toggle';
+
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.id = feature.key;
+
+  const slider = document.createElement('span');
+  slider.className = 'toggle-slider';
+
+  toggle.appendChild(checkbox);
+  toggle.appendChild(slider);
+
+  item.appendChild(info);
+  item.appendChild(toggle);
+
+  return item;
+}
+
+/**
+ * すべての機能のトグルを描画
+ */
+function renderSettings(): void {
+  if (!featureList) {
+    return;
   }
 
-  if (showNicoRankButtonCheckbox) {
-    showNicoRankButtonCheckbox.checked = settings.showNicoRankButton;
+  featureList.replaceChildren(...FEATURE_DEFINITIONS.map(createSettingItem));
+}
+
+/**
+ * 機能のチェックボックスを取得
+ */
+function getFeatureCheckbox(feature: FeatureDefinition): HTMLInputElement | null {
+  return document.getElementById(feature.key) as HTMLInputElement | null;
+}
+
+/**
+ * UIを設定で更新
+ * 編集範囲がページ種別の場合は、上書きを反映した値と上書きの有無を表示する
+ */
+function updateUI(settings: BetterNiconicoSettings): void {
+  currentSettings = settings;
+  const toggles = editScope ? resolveFeatureSettings(settings, editScope) : settings;
+
+  for (const feature of FEATURE_DEFINITIONS) {
+    const checkbox = getFeatureCheckbox(feature);
+    if (!checkbox) {
+      continue;
+    }
+
+    // 編集中のページ種別が対象外の機能は操作できないようにする
+    const inScope = editScope === null || isPageInScope(feature.pageScope, editScope);
+    const overridden = editScope !== null && settings.pageOverrides[editScope]?.[feature.key] !== undefined;
+
+    checkbox.checked = toggles[feature.key];
+    checkbox.disabled = !inScope;
+
+    const item = checkbox.closest('.setting-item');
+    item?.classList.toggle('not-applicable', !inScope);
+    const override = item?.querySelector<HTMLElement>('.setting-override');
+    if (override) {
+      override.hidden = !overridden;
+    }
   }
+}
 
-  if (squareProfileIconsCheckbox) {
-    squareProfileIconsCheckbox.checked = settings.squareProfileIcons;
+/**
+ * 現在の設定を取得
+ */
+function getCurrentSettings(): BetterNiconicoSettings {
+  return currentSettings;
+}
+
+/**
+ * 設定を保存してUIに反映する（失敗時は保存前の表示に戻す）
+ */
+async function saveAndUpdate(newSettings: BetterNiconicoSettings): Promise<void> {
+  const result = await saveSettings(newSettings);
+  updateStorageBackend();
+  if (result.isOk()) {
+    updateUI(newSettings);
+    refreshPresets(newSettings);
+    showStatusMessage('設定を保存しました');
+  } else {
+    console.error('[Better Niconico] 設定保存エラー:', result.error);
+    reportError(result.error, 'popup');
+    updateUI(currentSettings);
+    showStatusMessage('設定の保存に失敗しました', 3000);
   }
+}
 
-  if (hideSupporterButtonCheckbox) {
-    hideSupporterButtonCheckbox.checked = settings.hideSupporterButton;
+/**
+ * チェックボックスの変更時に設定を保存
+ * 編集範囲がページ種別の場合は、そのページ種別の上書きとして保存する
+ */
+async function handleSettingChange(feature: FeatureDefinition<FeatureKey>): Promise<void> {
+  const enabled = getFeatureCheckbox(feature)?.checked ?? currentSettings[feature.key];
+  const newSettings = editScope
+    ? setPageOverride(currentSettings, editScope, feature.key, enabled)
+    : { ...currentSettings, [feature.key]: enabled };
+
+  await saveAndUpdate(newSettings);
+}
+
+/**
+ * ページ種別ごとの上書きを取り除き、全ページ共通の設定に戻す
+ */
+async function handleOverrideReset(key: FeatureKey): Promise<void> {
+  if (!editScope) {
+    return;
   }
 
-  if (hideNicoAdsCheckbox) {
-    hideNicoAdsCheckbox.checked = settings.hideNicoAds;
+  await saveAndUpdate(setPageOverride(currentSettings, editScope, key, undefined));
+}
+
+/**
+ * 現在のタブのIDとページ種別を取得
+ * ニコニコ動画以外のタブ（URLを取得できないタブ）では null を返す
+ */
+async function getActiveNiconicoTab(): Promise<ActiveNiconicoTab | null> {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id === undefined || !tab.url) {
+      return null;
+    }
+
+    const url = new URL(tab.url);
+    if (url.hostname !== 'nicovideo.jp' && !url.hostname.endsWith('.nicovideo.jp')) {
+      return null;
+    }
+
+    return { tabId: tab.id, pageType: classifyPage(url) };
+  } catch (error) {
+    console.error('[Better Niconico] タブ情報の取得に失敗しました:', error);
+    return null;
   }
 }
 
 /**
- * UIから設定を取得
+ * 編集範囲の切り替えUIを設定
+ * 現在のタブのページ種別の上書きを編集できるようにする
  */
-function getSettingsFromUI(): BetterNiconicoSettings {
-  const hidePremiumCheckbox = document.getElementById('hidePremiumSection') as HTMLInputElement;
-  const hideOnAirAnimeCheckbox = document.getElementById('hideOnAirAnime') as HTMLInputElement;
-  const restoreClassicVideoLayoutCheckbox = document.getElementById('restoreClassicVideoLayout') as HTMLInputElement;
-  const enableVideoUpscalingCheckbox = document.getElementById('enableVideoUpscaling') as HTMLInputElement;
-  const showNicoRankButtonCheckbox = document.getElementById('showNicoRankButton') as HTMLInputElement;
-  const squareProfileIconsCheckbox = document.getElementById('squareProfileIcons') as HTMLInputElement;
-  const hideSupporterButtonCheckbox = document.getElementById('hideSupporterButton') as HTMLInputElement;
-  const hideNicoAdsCheckbox = document.getElementById('hideNicoAds') as HTMLInputElement;
-
-  return {
-    hidePremiumSection: hidePremiumCheckbox?.checked ?? DEFAULT_SETTINGS.hidePremiumSection,
-    hideOnAirAnime: hideOnAirAnimeCheckbox?.checked ?? DEFAULT_SETTINGS.hideOnAirAnime,
-    restoreClassicVideoLayout: restoreClassicVideoLayoutCheckbox?.checked ?? DEFAULT_SETTINGS.restoreClassicVideoLayout,
-    enableVideoUpscaling: enableVideoUpscalingCheckbox?.checked ?? DEFAULT_SETTINGS.enableVideoUpscaling,
-    showNicoRankButton: showNicoRankButtonCheckbox?.checked ?? DEFAULT_SETTINGS.showNicoRankButton,
-    squareProfileIcons: squareProfileIconsCheckbox?.checked ?? DEFAULT_SETTINGS.squareProfileIcons,
-    hideSupporterButton: hideSupporterButtonCheckbox?.checked ?? DEFAULT_SETTINGS.hideSupporterButton,
-    hideNicoAds: hideNicoAdsCheckbox?.checked ?? DEFAULT_SETTINGS.hideNicoAds,
+function setupScopeSwitcher(pageType: PageType): void {
+  const scopeSection = document.getElementById('scopeSection');
+  const currentPageLabel = document.getElementById('currentPageType');
+  const globalButton = document.getElementById('scopeGlobal');
+  const pageButton = document.getElementById('scopePage');
+  if (!scopeSection || !currentPageLabel || !globalButton || !pageButton) {
+    return;
+  }
+
+  currentPageLabel.textContent = `現在のタブ: ${PAGE_TYPE_LABELS[pageType]}`;
+  pageButton.textContent = `${PAGE_TYPE_LABELS[pageType]}のみ`;
+  scopeSection.hidden = false;
+
+  const selectScope = (scope: PageType | null): void => {
+    editScope = scope;
+    globalButton.classList.toggle('active', scope === null);
+    pageButton.classList.toggle('active', scope !== null);
+    updateUI(currentSettings);
   };
+
+  globalButton.addEventListener('click', () => selectScope(null));
+  pageButton.addEventListener('click', () => selectScope(pageType));
+}
+
+/**
+ * 要素ピッカーの起動ボタンを設定
+ * 要素を選べるよう、起動後はポップアップを閉じる
+ */
+function setupElementPickerButton(tabId: number): void {
+  const button = document.getElementById('startElementPicker');
+  button?.addEventListener('click', () => {
+    void sendTabMessage(tabId, { action: 'startElementPicker' }).match(
+      () => window.close(),
+      (error) => {
+        console.error('[Better Niconico] 要素ピッカーを起動できませんでした:', error);
+        showStatusMessage('ページを再読み込みしてから実行してください', 3000);
+      },
+    );
+  });
 }
 
 /**
@@ -95,11 +296,15 @@ function getSettingsFromUI(): BetterNiconicoSettings {
  */
 async function initialize(): Promise<void> {
   try {
+    renderSettings();
+
     // 設定を読み込んでUIに反映
     const settingsResult = await loadSettings();
+    updateStorageBackend();
 
     if (settingsResult.isErr()) {
       console.error('[Better Niconico] 設定の読み込みに失敗しました:', settingsResult.error);
+      reportError(settingsResult.error, 'settings');
       showStatusMessage('設定の読み込みに失敗しました', 3000);
       // エラー時はデフォルト設定を使用
       updateUI(DEFAULT_SETTINGS);
@@ -110,118 +315,47 @@ async function initialize(): Promise<void> {
     updateUI(settings);
 
     // チェックボックスの変更を監視
-    const hidePremiumCheckbox = document.getElementById('hidePremiumSection') as HTMLInputElement;
-    const hideOnAirAnimeCheckbox = document.getElementById('hideOnAirAnime') as HTMLInputElement;
-    const restoreClassicVideoLayoutCheckbox = document.getElementById('restoreClassicVideoLayout') as HTMLInputElement;
-    const enableVideoUpscalingCheckbox = document.getElementById('enableVideoUpscaling') as HTMLInputElement;
-    const showNicoRankButtonCheckbox = document.getElementById('showNicoRankButton') as HTMLInputElement;
-    const squareProfileIconsCheckbox = document.getElementById('squareProfileIcons') as HTMLInputElement;
-    const hideSupporterButtonCheckbox = document.getElementById('hideSupporterButton') as HTMLInputElement;
-    const hideNicoAdsCheckbox = document.getElementById('hideNicoAds') as HTMLInputElement;
-
-    if (hidePremiumCheckbox) {
-      hidePremiumCheckbox.addEventListener('change', async () => {
-        const newSettings = getSettingsFromUI();
-        const result = await saveSettings(newSettings);
-        if (result.isOk()) {
-          showStatusMessage('設定を保存しました');
-        } else {
-          console.error('[Better Niconico] 設定保存エラー:', result.error);
-          showStatusMessage('設定の保存に失敗しました', 3000);
-        }
-      });
+    for (const feature of FEATURE_DEFINITIONS) {
+      getFeatureCheckbox(feature)?.addEventListener('change', () => void handleSettingChange(feature));
     }
 
-    if (hideOnAirAnimeCheckbox) {
-      hideOnAirAnimeCheckbox.addEventListener('change', async () => {
-        const newSettings = getSettingsFromUI();
-        const result = await saveSettings(newSettings);
-        if (result.isOk()) {
-          showStatusMessage('設定を保存しました');
-        } else {
-          console.error('[Better Niconico] 設定保存エラー:', result.error);
-          showStatusMessage('設定の保存に失敗しました', 3000);
-        }
-      });
+    // 現在のタブがニコニコ動画のページであれば、編集範囲（全ページ共通 / 現在のタブのページ種別）と
+    // 各機能の適用結果を表示する
+    const activeTab = await getActiveNiconicoTab();
+    if (activeTab) {
+      setupScopeSwitcher(activeTab.pageType);
+      setupElementPickerButton(activeTab.tabId);
+      await setupFeatureStatus(activeTab.tabId);
     }
 
-    if (restoreClassicVideoLayoutCheckbox) {
-      restoreClassicVideoLayoutCheckbox.addEventListener('change', async () => {
-        const newSettings = getSettingsFromUI();
-        const result = await saveSettings(newSettings);
-        if (result.isOk()) {
-          showStatusMessage('設定を保存しました');
-        } else {
-          console.error('[Better Niconico] 設定保存エラー:', result.error);
-          showStatusMessage('設定の保存に失敗しました', 3000);
-        }
-      });
-    }
+    // 名前付きプリセット
+    await setupPresets({
+      getCurrentSettings,
+      onApplied: updateUI,
+      showStatus: showStatusMessage,
+    });
 
-    if (enableVideoUpscalingCheckbox) {
-      enableVideoUpscalingCheckbox.addEventListener('change', async () => {
-        const newSettings = getSettingsFromUI();
-        const result = await saveSettings(newSettings);
-        if (result.isOk()) {
-          showStatusMessage('設定を保存しました');
-        } else {
-          console.error('[Better Niconico] 設定保存エラー:', result.error);
-          showStatusMessage('設定の保存に失敗しました', 3000);
-        }
-      });
-    }
+    // 設定のエクスポート
+    document.getElementById('exportButton')?.addEventListener('click', () => {
+      downloadSettingsExport(getCurrentSettings());
+      showStatusMessage('設定をエクスポートしました');
+    });
 
-    if (showNicoRankButtonCheckbox) {
-      showNicoRankButtonCheckbox.addEventListener('change', async () => {
-        const newSettings = getSettingsFromUI();
-        const result = await saveSettings(newSettings);
-        if (result.isOk()) {
-          showStatusMessage('設定を保存しました');
-        } else {
-          console.error('[Better Niconico] 設定保存エラー:', result.error);
-          showStatusMessage('設定の保存に失敗しました', 3000);
-        }
-      });
-    }
+    // 設定のインポート（ファイル選択ダイアログを開くとポップアップが閉じるため、設定ページで行う）
+    document
+      .getElementById('importButton')
+      ?.addEventListener('click', () => void chrome.tabs.create({ url: chrome.runtime.getURL(SETTINGS_IMPORT_PAGE_PATH) }));
 
-    if (squareProfileIconsCheckbox) {
-      squareProfileIconsCheckbox.addEventListener('change', async () => {
-        const newSettings = getSettingsFromUI();
-        const result = await saveSettings(newSettings);
-        if (result.isOk()) {
-          showStatusMessage('設定を保存しました');
-        } else {
-          console.error('[Better Niconico] 設定保存エラー:', result.error);
-          showStatusMessage('設定の保存に失敗しました', 3000);
-        }
-      });
-    }
+    // 詳細設定ページ
+    document.getElementById('openOptions')?.addEventListener('click', () => void chrome.runtime.openOptionsPage());
 
-    if (hideSupporterButtonCheckbox) {
-      hideSupporterButtonCheckbox.addEventListener('change', async () => {
-        const newSettings = getSettingsFromUI();
-        const result = await saveSettings(newSettings);
-        if (result.isOk()) {
-          showStatusMessage('設定を保存しました');
-        } else {
-          console.error('[Better Niconico] 設定保存エラー:', result.error);
-          showStatusMessage('設定の保存に失敗しました', 3000);
-        }
-      });
-    }
+    // 視聴履歴ページ
+    document
+      .getElementById('openHistory')
+      ?.addEventListener('click', () => void chrome.tabs.create({ url: chrome.runtime.getURL(WATCH_HISTORY_PAGE_PATH) }));
 
-    if (hideNicoAdsCheckbox) {
-      hideNicoAdsCheckbox.addEventListener('change', async () => {
-        const newSettings = getSettingsFromUI();
-        const result = await saveSettings(newSettings);
-        if (result.isOk()) {
-          showStatusMessage('設定を保存しました');
-        } else {
-          console.error('[Better Niconico] 設定保存エラー:', result.error);
-          showStatusMessage('設定の保存に失敗しました', 3000);
-        }
-      });
-    }
+    // エラーログ
+    await setupErrorLog({ showStatus: showStatusMessage });
 
     console.log('[Better Niconico] Popup initialized');
   } catch (error) {
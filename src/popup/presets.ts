@@ -0,0 +1,176 @@
+// Better Niconico Popup - Settings Presets
+// 現在の設定を名前付きプリセットとして保存し、ワンクリックで切り替える
+import type { BetterNiconicoSettings, SettingsPreset } from '../types/settings';
+import { loadPresets, savePresets, saveSettings } from '../utils/storage';
+import { reportError } from '../utils/errorLog';
+
+// プリセット名の最大文字数
+const MAX_PRESET_NAME_LENGTH = 30;
+
+/**
+ * プリセットUIが必要とするポップアップ側の処理
+ */
+export interface PresetOptions {
+  // 現在の設定を取得
+  getCurrentSettings(): BetterNiconicoSettings;
+  // プリセットの設定を保存した後に呼ばれる
+  onApplied(settings: BetterNiconicoSettings): void;
+  // ステータスメッセージを表示
+  showStatus(message: string, duration?: number): void;
+}
+
+// 読み込み済みのプリセット一覧
+let presets: SettingsPreset[] = [];
+
+// setupPresets() で渡されたポップアップ側の処理
+let presetOptions: PresetOptions | null = null;
+
+/**
+ * 2つの設定が同じ内容かを判定
+ */
+function isSameSettings(a: BetterNiconicoSettings, b: BetterNiconicoSettings): boolean {
+  return (Object.keys(a) as (keyof BetterNiconicoSettings)[]).every(
+    (key) => JSON.stringify(a[key]) === JSON.stringify(b[key]),
+  );
+}
+
+/**
+ * プリセット一覧を描画
+ * 現在の設定と一致するプリセットを選択中として表示する
+ */
+export function refreshPresets(currentSettings: BetterNiconicoSettings): void {
+  const list = document.getElementById('presetList');
+  const options = presetOptions;
+  if (!list || !options) {
+    return;
+  }
+
+  if (presets.length === 0) {
+    const empty = document.createElement('li');
+    empty.className = 'preset-empty';
+    empty.textContent = '保存されたプリセットはありません';
+    list.replaceChildren(empty);
+    return;
+  }
+
+  list.replaceChildren(
+    ...presets.map((preset) => {
+      const item = document.createElement('li');
+      item.className = 'preset-item';
+
+      const applyButton = document.createElement('button');
+      applyButton.type = 'button';
+      applyButton.className = 'preset-apply';
+      applyButton.textContent = preset.name;
+      applyButton.title = `「${preset.name}」に切り替える`;
+      applyButton.classList.toggle('active', isSameSettings(preset.settings, currentSettings));
+      applyButton.addEventListener('click', () => void applyPreset(preset, options));
+
+      const deleteButton = document.createElement('button');
+      deleteButton.type = 'button';
+      deleteButton.className = 'preset-delete';
+      deleteButton.textContent = '×';
+      deleteButton.title = `「${preset.name}」を削除`;
+      deleteButton.addEventListener('click', () => void deletePreset(preset.name, options));
+
+      item.appendChild(applyButton);
+      item.appendChild(deleteButton);
+      return item;
+    }),
+  );
+}
+
+/**
+ * プリセットに切り替える
+ * 保存された設定は chrome.storage.onChanged 経由でコンテンツスクリプトに即座に反映される
+ */
+async function applyPreset(preset: SettingsPreset, options: PresetOptions): Promise<void> {
+  const result = await saveSettings(preset.settings);
+  if (result.isErr()) {
+    console.error('[Better Niconico] 設定保存エラー:', result.error);
+    reportError(result.error, 'popup');
+    options.showStatus('設定の保存に失敗しました', 3000);
+    return;
+  }
+
+  options.onApplied(preset.settings);
+  refreshPresets(preset.settings);
+  options.showStatus(`「${preset.name}」に切り替えました`);
+}
+
+/**
+ * 現在の設定をプリセットとして保存する（同名のプリセットは上書き）
+ */
+async function saveCurrentAsPreset(name: string, options: PresetOptions): Promise<void> {
+  const settings = options.getCurrentSettings();
+  const nextPresets = presets.some((preset) => preset.name === name)
+    ? presets.map((preset) => (preset.name === name ? { name, settings } : preset))
+    : [...presets, { name, settings }];
+
+  const result = await savePresets(nextPresets);
+  if (result.isErr()) {
+    console.error('[Better Niconico] プリセット保存エラー:', result.error);
+    reportError(result.error, 'popup');
+    options.showStatus('プリセットの保存に失敗しました', 3000);
+    return;
+  }
+
+  presets = nextPresets;
+  refreshPresets(settings);
+  options.showStatus(`「${name}」を保存しました`);
+}
+
+/**
+ * プリセットを削除する
+ */
+async function deletePreset(name: string, options: PresetOptions): Promise<void> {
+  const nextPresets = presets.filter((preset) => preset.name !== name);
+
+  const result = await savePresets(nextPresets);
+  if (result.isErr()) {
+    console.error('[Better Niconico] プリセット保存エラー:', result.error);
+    reportError(result.error, 'popup');
+    options.showStatus('プリセットの削除に失敗しました', 3000);
+    return;
+  }
+
+  presets = nextPresets;
+  refreshPresets(options.getCurrentSettings());
+  options.showStatus(`「${name}」を削除しました`);
+}
+
+/**
+ * プリセットを読み込み、プリセットUIのイベントを設定
+ */
+export async function setupPresets(options: PresetOptions): Promise<void> {
+  presetOptions = options;
+  const nameInput = document.getElementById('presetName') as HTMLInputElement | null;
+  const saveButton = document.getElementById('savePresetButton');
+
+  const presetsResult = await loadPresets();
+  if (presetsResult.isErr()) {
+    console.error('[Better Niconico] プリセットの読み込みに失敗しました:', presetsResult.error);
+    options.showStatus('プリセットの読み込みに失敗しました', 3000);
+  } else {
+    presets = presetsResult.value;
+  }
+
+  refreshPresets(options.getCurrentSettings());
+
+  if (nameInput) {
+    nameInput.maxLength = MAX_PRESET_NAME_LENGTH;
+  }
+
+  saveButton?.addEventListener('click', () => {
+    const name = nameInput?.value.trim() ?? '';
+    if (name === '') {
+      options.showStatus('プリセット名を入力してください', 3000);
+      return;
+    }
+
+    if (nameInput) {
+      nameInput.value = '';
+    }
+    void saveCurrentAsPreset(name, options);
+  });
+}
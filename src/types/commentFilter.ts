@@ -0,0 +1,88 @@
+// Better Niconico Comment Filter Definitions
+// 動画視聴ページのコメントを、コメントAPI（nvcomment）の応答の時点で取り除くNGフィルタ
+
+// コメントのNGフィルタの設定（STORAGE_KEY と並べて保存する）
+export const COMMENT_FILTERS_KEY = 'betterNiconicoCommentFilters';
+
+// 各リストに保存できる最大件数
+export const MAX_COMMENT_FILTER_ENTRIES = 500;
+
+// 各項目の最大文字数
+export const MAX_COMMENT_FILTER_ENTRY_LENGTH = 200;
+
+// 文字数の上限として指定できる最大値
+export const MAX_COMMENT_LENGTH_LIMIT = 1000;
+
+/**
+ * コメントのNGフィルタの設定
+ * 単語・コマンドは全角・半角と大文字・小文字の違いを無視し、正規表現は大文字・小文字の違いを無視する
+ */
+export interface CommentFilterSettings {
+  // 本文に含まれる単語
+  words: string[];
+  // 本文に一致する正規表現
+  regexes: string[];
+  // 投稿者のユーザーID（nvcomment の userId）
+  userIds: string[];
+  // コメントのコマンド（big, ue, shita, red など）
+  commands: string[];
+  // 本文の最大文字数（超えるコメントを取り除く。null の場合は制限しない）
+  maxLength: number | null;
+}
+
+export const DEFAULT_COMMENT_FILTER_SETTINGS: CommentFilterSettings = {
+  words: [],
+  regexes: [],
+  userIds: [],
+  commands: [],
+  maxLength: null,
+};
+
+/**
+ * コメントを取り除いた理由
+ */
+export type CommentFilterReason = 'word' | 'regex' | 'userId' | 'command' | 'length';
+
+export const COMMENT_FILTER_REASON_LABELS: Record<CommentFilterReason, string> = {
+  word: 'NGワード',
+  regex: '正規表現',
+  userId: 'ユーザーID',
+  command: 'コマンド',
+  length: '文字数',
+};
+
+/**
+ * コメントAPIの1回の応答に対するフィルタの結果
+ */
+export interface CommentFilterResult {
+  // 応答に含まれていたコメント数
+  total: number;
+  // 取り除いたコメント数
+  removed: number;
+  // 理由ごとの取り除いたコメント数
+  byReason: Record<CommentFilterReason, number>;
+}
+
+/**
+ * コメントAPI（https://public.nvcomment.nicovideo.jp/v1/threads）の応答のコメント
+ * フィルタに使う項目のみ（その他の項目はそのまま残す）
+ */
+export interface NvComment {
+  id: string;
+  body: string;
+  commands: string[];
+  userId: string;
+}
+
+/**
+ * ページのコンテキストで動くフック（commentFilterHook.ts）とコンテンツスクリプトの間のイベント
+ * 実行環境（world）をまたぐため、detail はJSON文字列で渡す
+ * - ready: フックの読み込み完了（フック → コンテンツスクリプト）
+ * - config: フィルタの設定。null の場合はフィルタしない（コンテンツスクリプト → フック）
+ * - result: コメントAPIの応答ごとの CommentFilterResult（フック → コンテンツスクリプト）
+ */
+export const COMMENT_FILTER_EVENTS = {
+  ready: 'bn:comment-filter-ready',
+  config: 'bn:comment-filter-config',
+  result: 'bn:comment-filter-result',
+} as const;
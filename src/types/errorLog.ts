@@ -0,0 +1,32 @@
+// Better Niconico Error Log Type Definitions
+// chrome.storage.local に保存するエラーログ
+
+import type { AppError } from './errors';
+import type { FeatureKey } from './features';
+
+/**
+ * エラーの発生元
+ * 機能モジュール内のエラーは機能の設定キーで記録する
+ */
+export type ErrorSource = FeatureKey | 'settings' | 'content' | 'popup' | 'options' | 'history' | 'background';
+
+/**
+ * エラーログの1件
+ */
+export interface ErrorLogEntry {
+  // 発生日時（ISO 8601）
+  timestamp: string;
+  errorType: AppError['type'];
+  message: string;
+  source: ErrorSource;
+  // 発生したページのURL（ポップアップ・設定ページ・バックグラウンドでは null）
+  url: string | null;
+  // エラー固有の追加情報（field, selector など。cause は文字列にして保存する）
+  details: Record<string, string | number | boolean>;
+}
+
+// エラーログ（local のみに保存する）
+export const ERROR_LOG_KEY = 'betterNiconicoErrorLog';
+
+// 保存するエラーログの最大件数（超えた場合は古いものから削除する）
+export const MAX_ERROR_LOG_ENTRIES = 100;
@@ -7,7 +7,8 @@
 export type StorageError =
   | { type: 'storage_get_failed'; message: string }
   | { type: 'storage_set_failed'; message: string }
-  | { type: 'storage_sync_unavailable'; message: string };
+  | { type: 'storage_sync_unavailable'; message: string }
+  | { type: 'storage_data_corrupted'; message: string; field?: string };
 
 /**
  * WebGPU initialization and processing errors
@@ -40,8 +41,37 @@ export type PageError =
  */
 export type MessageError =
   | { type: 'invalid_message_action'; message: string; action: string }
+  | { type: 'invalid_message_payload'; message: string; action: string; cause?: unknown }
   | { type: 'message_response_failed'; message: string; cause?: unknown };
 
+/**
+ * Settings import errors
+ */
+export type ImportError =
+  | { type: 'import_read_failed'; message: string; cause?: unknown }
+  | { type: 'import_invalid_json'; message: string; cause?: unknown }
+  | { type: 'import_invalid_format'; message: string }
+  | { type: 'import_unsupported_version'; message: string; version: number }
+  | { type: 'import_invalid_settings'; message: string; field?: string };
+
+/**
+ * Watch history database (IndexedDB) errors
+ */
+export type HistoryError =
+  | { type: 'history_db_open_failed'; message: string; cause?: unknown }
+  | { type: 'history_request_failed'; message: string; cause?: unknown }
+  | { type: 'history_entry_invalid'; message: string; field?: string };
+
+/**
+ * Feature module errors
+ */
+export type FeatureError = {
+  type: 'feature_apply_failed';
+  message: string;
+  feature: string;
+  cause?: unknown;
+};
+
 /**
  * Union of all application errors
  */
@@ -50,7 +80,10 @@ export type AppError =
   | WebGPUError
   | VideoError
   | PageError
-  | MessageError;
+  | MessageError
+  | ImportError
+  | HistoryError
+  | FeatureError;
 
 /**
  * Helper function to create StorageError
@@ -67,6 +100,10 @@ export function storageSyncUnavailableError(message: string): StorageError {
   return { type: 'storage_sync_unavailable', message };
 }
 
+export function storageDataCorruptedError(message: string, field?: string): StorageError {
+  return { type: 'storage_data_corrupted', message, field };
+}
+
 /**
  * Helper function to create WebGPUError
  */
@@ -131,6 +168,59 @@ export function invalidMessageActionError(message: string, action: string): Mess
   return { type: 'invalid_message_action', message, action };
 }
 
+export function invalidMessagePayloadError(
+  message: string,
+  action: string,
+  cause?: unknown,
+): MessageError {
+  return { type: 'invalid_message_payload', message, action, cause };
+}
+
 export function messageResponseFailedError(message: string, cause?: unknown): MessageError {
   return { type: 'message_response_failed', message, cause };
 }
+
+/**
+ * Helper function to create ImportError
+ */
+export function importReadFailedError(message: string, cause?: unknown): ImportError {
+  return { type: 'import_read_failed', message, cause };
+}
+
+export function importInvalidJsonError(message: string, cause?: unknown): ImportError {
+  return { type: 'import_invalid_json', message, cause };
+}
+
+export function importInvalidFormatError(message: string): ImportError {
+  return { type: 'import_invalid_format', message };
+}
+
+export function importUnsupportedVersionError(message: string, version: number): ImportError {
+  return { type: 'import_unsupported_version', message, version };
+}
+
+export function importInvalidSettingsError(message: string, field?: string): ImportError {
+  return { type: 'import_invalid_settings', message, field };
+}
+
+/**
+ * Helper function to create HistoryError
+ */
+export function historyDbOpenFailedError(message: string, cause?: unknown): HistoryError {
+  return { type: 'history_db_open_failed', message, cause };
+}
+
+export function historyRequestFailedError(message: string, cause?: unknown): HistoryError {
+  return { type: 'history_request_failed', message, cause };
+}
+
+export function historyEntryInvalidError(message: string, field?: string): HistoryError {
+  return { type: 'history_entry_invalid', message, field };
+}
+
+/**
+ * Helper function to create FeatureError
+ */
+export function featureApplyFailedError(message: string, feature: string, cause?: unknown): FeatureError {
+  return { type: 'feature_apply_failed', message, feature, cause };
+}
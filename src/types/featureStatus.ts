@@ -0,0 +1,63 @@
+// Better Niconico Feature Status Definitions
+// 各機能が現在のタブで実際に何をしたか（ポップアップに表示する）
+
+import type { FeatureKey } from './features';
+import type { PageType } from './pages';
+
+/**
+ * 機能の適用結果
+ * - applied: 適用済み
+ * - disabled: 設定でオフ（元の表示に戻した）
+ * - pending: 処理中・要素の読み込み待ち（非同期の処理や、内容の読み込み前の要素）
+ * - target_not_found: 対象の要素が見つからない
+ * - not_applicable: 現在のページ種別が対象外（コンテンツスクリプトが設定する）、または機能の条件により現在の動画には適用しない（非同期処理が設定する）
+ * - error: 適用中にエラーが発生した（コンテンツスクリプト・非同期処理が設定する）
+ */
+export type FeatureApplyStatus =
+  | 'applied'
+  | 'disabled'
+  | 'pending'
+  | 'target_not_found'
+  | 'not_applicable'
+  | 'error';
+
+/**
+ * 機能モジュールの apply() が返す適用結果
+ */
+export type FeatureApplyResult = Exclude<FeatureApplyStatus, 'not_applicable' | 'error'>;
+
+/**
+ * 適用結果の表示名
+ */
+export const FEATURE_APPLY_STATUS_LABELS: Record<FeatureApplyStatus, string> = {
+  applied: '適用中',
+  disabled: 'オフ',
+  pending: '処理中',
+  target_not_found: '対象が見つかりません',
+  not_applicable: 'このページは対象外',
+  error: 'エラー',
+};
+
+/**
+ * 機能ごとの現在のタブでの状態
+ */
+export interface FeatureStatus {
+  feature: FeatureKey;
+  // ページ種別ごとの上書きを反映した設定値
+  enabled: boolean;
+  // 現在のページ種別が機能の対象範囲に含まれるか
+  inScope: boolean;
+  // 適用結果（まだ適用していない場合は null）
+  status: FeatureApplyStatus | null;
+  // エラーの内容など、適用結果の補足
+  message?: string;
+}
+
+/**
+ * タブ内のすべての機能の状態
+ */
+export interface FeatureStatusReport {
+  url: string;
+  pageType: PageType;
+  features: FeatureStatus[];
+}
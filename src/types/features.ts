@@ -0,0 +1,212 @@
+// Better Niconico Feature Definitions
+// 各機能のメタデータ（設定キー・表示名・説明・既定値・対象ページ）を一元管理する
+// ポップアップからも参照されるため、DOM操作や機能の実装はここに含めない
+
+import type { PageType } from './pages';
+
+/**
+ * 機能が動作するページの範囲
+ * - all: すべてのページ
+ * - PageType の配列: 指定したページ種別のみ（src/utils/pageClassifier.ts で判定）
+ */
+export type FeaturePageScope = 'all' | readonly PageType[];
+
+/**
+ * 設定ページでの機能の分類
+ */
+export type FeatureCategory = 'layout' | 'hiding' | 'player' | 'upscaling';
+
+/**
+ * 機能の分類の定義
+ */
+export interface FeatureCategoryDefinition {
+  key: FeatureCategory;
+  // 設定ページのセクション名
+  label: string;
+  // 設定ページのセクションの説明文
+  description: string;
+}
+
+/**
+ * すべての分類の定義
+ * 配列の順序が設定ページのセクションの表示順になる
+ */
+export const FEATURE_CATEGORIES: readonly FeatureCategoryDefinition[] = [
+  { key: 'layout', label: 'レイアウト', description: 'ページの配置や見た目を変更します' },
+  { key: 'hiding', label: '非表示', description: '不要なセクションやボタンを非表示にします' },
+  { key: 'player', label: 'プレイヤー', description: '動画プレイヤーの動作を変更します' },
+  { key: 'upscaling', label: 'アップスケーリング', description: '動画を高画質に変換して表示します' },
+];
+
+/**
+ * 機能の宣言的な定義
+ */
+export interface FeatureDefinition<K extends string = string> {
+  // 設定キー（BetterNiconicoSettings のプロパティ名・ポップアップのチェックボックスIDを兼ねる）
+  key: K;
+  // ポップアップに表示する機能名
+  label: string;
+  // ポップアップに表示する説明文
+  description: string;
+  // 既定値
+  defaultValue: boolean;
+  // 対象ページ
+  pageScope: FeaturePageScope;
+  // 設定ページでの分類
+  category: FeatureCategory;
+  // 設定ページに表示するプレビュー画像（public/ からのパス）
+  preview?: string;
+}
+
+/**
+ * すべての機能の定義
+ * 配列の順序がポップアップの表示順・コンテンツスクリプトでの適用順になる
+ */
+export const FEATURE_DEFINITIONS = [
+  {
+    // プレミアム会員セクションを非表示
+    key: 'hidePremiumSection',
+    label: 'プレミアム会員セクションを非表示',
+    description: '「プレミアム会員なら動画が見放題！」のセクションを非表示にします',
+    defaultValue: true,
+    pageScope: 'all',
+    category: 'hiding',
+  },
+  {
+    // TV放送中のアニメセクションを非表示
+    key: 'hideOnAirAnime',
+    label: 'TV放送中のアニメセクションを非表示',
+    description: '「TV放送中のアニメ」のセクションを非表示にします',
+    defaultValue: true,
+    pageScope: 'all',
+    category: 'hiding',
+  },
+  {
+    // 動画情報を従来のレイアウト（上部）に戻す
+    key: 'restoreClassicVideoLayout',
+    label: '動画情報を上部に表示（クラシックレイアウト）',
+    description: '動画視聴ページで、タイトルやタグなどの情報を動画プレイヤーの上に表示します',
+    defaultValue: false,
+    pageScope: ['watch'],
+    category: 'layout',
+    preview: '/previews/restoreClassicVideoLayout.svg',
+  },
+  {
+    // 動画アップスケーリング（Anime4K-WebGPU）を有効化
+    key: 'enableVideoUpscaling',
+    label: '動画アップスケーリング（Anime4K）',
+    description: 'Anime4K-WebGPUを使用して動画を高画質にアップスケーリングします（WebGPU対応ブラウザが必要）',
+    defaultValue: false,
+    pageScope: ['watch'],
+    category: 'upscaling',
+  },
+  {
+    // コメントのNGフィルタ
+    key: 'commentFilter',
+    label: 'コメントのNGフィルタ',
+    description: '動画視聴ページで、NGワード・正規表現・ユーザーID・コマンド・文字数で指定したコメントを表示しません',
+    defaultValue: true,
+    pageScope: ['watch'],
+    category: 'player',
+  },
+  {
+    // 視聴履歴を記録
+    key: 'recordWatchHistory',
+    label: '視聴履歴を記録',
+    description: '動画視聴ページを開いた記録（タイトル・投稿者・タグ・再生位置）を拡張機能内に保存し、視聴履歴ページで検索できるようにします',
+    defaultValue: false,
+    pageScope: ['watch'],
+    category: 'player',
+  },
+  {
+    // 続きから再生
+    key: 'resumePlayback',
+    label: '前回の続きから再生',
+    description: '動画ごとに再生位置を保存し、同じ動画を開き直したときに前回の続きから再生できるようにします（動作と保存期間は詳細設定で変更できます）',
+    defaultValue: true,
+    pageScope: ['watch'],
+    category: 'player',
+  },
+  {
+    // 「あとで見る」キュー
+    key: 'watchLaterQueue',
+    label: '「あとで見る」キュー',
+    description: '動画一覧に「あとで見る」ボタンを追加し、動画視聴ページのサイドバーに並べ替えできるキューを表示します。再生が終わるとキューの次の動画に移動します',
+    defaultValue: false,
+    pageScope: ['watch', 'video_top', 'ranking', 'search', 'tag'],
+    category: 'player',
+  },
+  {
+    // サイドバーにnico-rank.comへのボタンを追加
+    key: 'showNicoRankButton',
+    label: 'サイドバーにニコランボタンを表示',
+    description: 'video_topページの左サイドバーにnico-rank.comへのボタンを追加します',
+    defaultValue: true,
+    pageScope: ['video_top'],
+    category: 'layout',
+    preview: '/previews/showNicoRankButton.svg',
+  },
+  {
+    // プロフィールアイコンを丸型から四角型に変更
+    key: 'squareProfileIcons',
+    label: 'プロフィールアイコンを四角型に変更',
+    description: 'プロフィールアイコンの形状を丸型から角丸の四角型に変更します',
+    defaultValue: false,
+    pageScope: 'all',
+    category: 'layout',
+    preview: '/previews/squareProfileIcons.svg',
+  },
+  {
+    // サポーターボタンを非表示
+    key: 'hideSupporterButton',
+    label: 'サポーターボタンを非表示',
+    description: '動画視聴ページの「サポート」ボタンとサポーター勧誘を非表示にします',
+    defaultValue: false,
+    pageScope: 'all',
+    category: 'hiding',
+  },
+  {
+    // ニコニ広告セクションを非表示
+    key: 'hideNicoAds',
+    label: 'ニコニ広告セクションを非表示',
+    description: '動画プレーヤーの下部に表示される「ニコニ広告」のセクション全体を非表示にします',
+    defaultValue: false,
+    pageScope: 'all',
+    category: 'hiding',
+  },
+  {
+    // ユーザー定義の非表示ルール
+    key: 'customHideRules',
+    label: 'ユーザー定義の非表示ルールを適用',
+    description: '要素ピッカーや詳細設定で作成したルールで、指定した要素を非表示にします',
+    defaultValue: true,
+    pageScope: 'all',
+    category: 'hiding',
+  },
+  {
+    // 動画一覧のNGフィルタ
+    key: 'videoFilter',
+    label: '動画一覧のNGフィルタ',
+    description: '投稿者・タイトルのキーワード・タグで指定した動画を、動画一覧で非表示または折りたたみにします',
+    defaultValue: true,
+    pageScope: ['video_top', 'ranking', 'search', 'tag'],
+    category: 'hiding',
+  },
+] as const satisfies readonly FeatureDefinition[];
+
+/**
+ * 機能の設定キー
+ */
+export type FeatureKey = (typeof FEATURE_DEFINITIONS)[number]['key'];
+
+/**
+ * 機能ごとのオン/オフ設定
+ */
+export type FeatureToggleSettings = Record<FeatureKey, boolean>;
+
+/**
+ * ページ種別が機能の対象範囲に含まれるかを判定
+ */
+export function isPageInScope(scope: FeaturePageScope, pageType: PageType): boolean {
+  return scope === 'all' || scope.includes(pageType);
+}
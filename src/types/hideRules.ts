@@ -0,0 +1,38 @@
+// Better Niconico Hide Rule Definitions
+// ユーザーが定義する「要素を探して、そのブロックを非表示にする」ルール
+
+import type { FeaturePageScope } from './features';
+
+// 非表示ルールの一覧（STORAGE_KEY と並べて保存する）
+export const HIDE_RULES_KEY = 'betterNiconicoHideRules';
+
+// 保存できるルールの最大数（chrome.storage.sync の容量を超えないようにする）
+export const MAX_HIDE_RULES = 50;
+
+// 見出しのテキストで探す場合に、セレクタを省略したときの見出し要素
+export const DEFAULT_HEADING_SELECTOR = 'h1, h2, h3';
+
+/**
+ * 要素の探し方
+ * - selector のみ: セレクタに一致する要素
+ * - headingText あり: セレクタ（省略時は DEFAULT_HEADING_SELECTOR）に一致し、テキストを含む要素
+ * hideAncestor を指定した場合は、見つかった要素から closest() でたどった祖先を非表示にする
+ */
+export interface HideRuleTarget {
+  selector: string | null;
+  headingText: string | null;
+  hideAncestor: string | null;
+}
+
+/**
+ * ユーザー定義の非表示ルール
+ */
+export interface HideRule extends HideRuleTarget {
+  id: string;
+  // 一覧に表示する名前
+  name: string;
+  // ルールを適用するページ
+  pageScope: FeaturePageScope;
+  // false の場合はルールを残したまま適用しない
+  enabled: boolean;
+}
@@ -0,0 +1,66 @@
+// Better Niconico Message Type Definitions
+// ポップアップ・設定ページ・バックグラウンド・コンテンツスクリプトの間でやり取りするメッセージ
+
+import type { AppError } from './errors';
+import type { BetterNiconicoSettings } from './settings';
+import type { ErrorLogEntry } from './errorLog';
+import type { FeatureKey } from './features';
+import type { FeatureStatusReport } from './featureStatus';
+import type { VideoFilterRule } from './videoFilters';
+import type { WatchHistoryEntry } from './watchHistory';
+import type { SelectorHealthReport } from './selectorHealth';
+
+/**
+ * ショートカットで機能を切り替えた結果
+ */
+export interface FeatureToggleResult {
+  feature: FeatureKey;
+  // 切り替え後の現在のページ種別での値
+  enabled: boolean;
+}
+
+/**
+ * メッセージ（action で判別する）
+ * - getSettings / updateSettings / getSelectorHealth / getFeatureStatus / toggleFeature / startElementPicker / addUploaderFilter:
+ *   コンテンツスクリプト宛て（chrome.tabs.sendMessage）
+ * - logError / setErrorBadge / recordWatchHistory: バックグラウンド宛て（chrome.runtime.sendMessage）
+ */
+export type Message =
+  | { action: 'getSettings' }
+  | { action: 'updateSettings'; data: BetterNiconicoSettings }
+  | { action: 'getSelectorHealth' }
+  | { action: 'getFeatureStatus' }
+  | { action: 'toggleFeature'; feature: FeatureKey }
+  | { action: 'startElementPicker' }
+  | { action: 'addUploaderFilter' }
+  | { action: 'logError'; entry: ErrorLogEntry }
+  | { action: 'setErrorBadge'; errorCount: number }
+  | { action: 'recordWatchHistory'; entry: WatchHistoryEntry };
+
+/**
+ * メッセージの種類
+ */
+export type MessageAction = Message['action'];
+
+/**
+ * メッセージごとの応答データ
+ */
+export interface MessageResponseDataMap {
+  getSettings: BetterNiconicoSettings;
+  updateSettings: null;
+  getSelectorHealth: SelectorHealthReport;
+  getFeatureStatus: FeatureStatusReport;
+  toggleFeature: FeatureToggleResult;
+  startElementPicker: null;
+  addUploaderFilter: VideoFilterRule;
+  logError: null;
+  setErrorBadge: null;
+  recordWatchHistory: null;
+}
+
+/**
+ * メッセージへの応答
+ */
+export type MessageResponse<A extends MessageAction = MessageAction> =
+  | { success: true; data: MessageResponseDataMap[A] }
+  | { success: false; error: AppError };
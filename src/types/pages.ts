@@ -0,0 +1,48 @@
+// Better Niconico Page Type Definitions
+// ニコニコ動画の主なページ種別（ルートのまとまり）
+
+import type { FeatureToggleSettings } from './features';
+
+/**
+ * ページ種別
+ * - watch: 動画視聴ページ（/watch/）
+ * - video_top: 動画トップページ（/video_top）
+ * - ranking: ランキングページ（/ranking）
+ * - search: キーワード検索ページ（/search/）
+ * - tag: タグ検索ページ（/tag/）
+ * - user: ユーザーページ・マイページ（/user/, /my）
+ * - other: 上記以外（他のサブドメインを含む）
+ */
+export type PageType = 'watch' | 'video_top' | 'ranking' | 'search' | 'tag' | 'user' | 'other';
+
+/**
+ * すべてのページ種別（表示順）
+ */
+export const PAGE_TYPES: readonly PageType[] = [
+  'watch',
+  'video_top',
+  'ranking',
+  'search',
+  'tag',
+  'user',
+  'other',
+];
+
+/**
+ * ページ種別の表示名
+ */
+export const PAGE_TYPE_LABELS: Record<PageType, string> = {
+  watch: '動画視聴ページ',
+  video_top: '動画トップ',
+  ranking: 'ランキング',
+  search: 'キーワード検索',
+  tag: 'タグ検索',
+  user: 'ユーザーページ',
+  other: 'その他のページ',
+};
+
+/**
+ * ページ種別ごとの機能のオン/オフの上書き
+ * 上書きされていない機能は全ページ共通の設定に従う
+ */
+export type PageOverrides = Partial<Record<PageType, Partial<FeatureToggleSettings>>>;
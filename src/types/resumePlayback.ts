@@ -0,0 +1,56 @@
+// Better Niconico Resume Playback Definitions
+// 動画視聴ページで、前回の再生位置から続きを再生する機能の設定と保存する再生位置
+
+// 続きから再生する機能の設定（STORAGE_KEY と並べて保存する）
+export const RESUME_PLAYBACK_KEY = 'betterNiconicoResumePlayback';
+
+// 動画ごとの再生位置のキーの接頭辞（端末ごとの情報のため、local のみに保存する）
+// 複数のタブからの保存が互いに上書きし合わないよう、動画ごとに別のキーに保存する
+export const RESUME_POSITION_KEY_PREFIX = 'betterNiconicoResumePosition:';
+
+// 保存する再生位置の最大数（超えた場合は古いものから削除する）
+export const MAX_RESUME_POSITIONS = 1000;
+
+// 再生位置を保存しておく日数の範囲
+export const MIN_RESUME_EXPIRE_DAYS = 1;
+export const MAX_RESUME_EXPIRE_DAYS = 365;
+
+/**
+ * 同じ動画を開き直したときの動作
+ * - prompt: 「続きから再生」のボタンを表示する
+ * - auto: 自動で前回の位置から再生する
+ */
+export type ResumePlaybackMode = 'prompt' | 'auto';
+
+export const RESUME_PLAYBACK_MODES: readonly ResumePlaybackMode[] = ['prompt', 'auto'];
+
+/**
+ * 続きから再生する機能の設定
+ */
+export interface ResumePlaybackSettings {
+  mode: ResumePlaybackMode;
+  // 再生位置を保存しておく日数（過ぎたものは削除する）
+  expireDays: number;
+}
+
+export const DEFAULT_RESUME_PLAYBACK_SETTINGS: ResumePlaybackSettings = {
+  mode: 'prompt',
+  expireDays: 30,
+};
+
+/**
+ * 動画の再生位置
+ */
+export interface ResumePosition {
+  // 再生位置（秒）
+  position: number;
+  // 動画の長さ（秒）
+  duration: number;
+  // 保存した日時（ミリ秒）
+  savedAt: number;
+}
+
+/**
+ * 動画IDごとの再生位置
+ */
+export type ResumePositions = Record<string, ResumePosition>;
@@ -0,0 +1,47 @@
+// Better Niconico Selector Health Type Definitions
+// セレクタのヘルスチェック（src/content/selectorHealth.ts）の結果（メッセージでポップアップなどに返す）
+
+import type { FeatureKey } from './features';
+import type { PageType } from './pages';
+
+/**
+ * 要素を探す方法（src/content/selectors.ts の SelectorStrategy の kind）
+ */
+export type SelectorStrategyKind = 'class' | 'aria' | 'heading' | 'structural';
+
+/**
+ * 対象要素ごとの検査結果
+ */
+export interface TargetHealth {
+  // セレクタ登録のキー（src/content/selectors.ts の SELECTOR_TARGETS のキー）
+  key: string;
+  description: string;
+  // 現在のページに存在するはずか（optional な要素・対象外のページでは false）
+  expected: boolean;
+  resolved: boolean;
+  // 要素が見つかった探し方
+  strategy: SelectorStrategyKind | null;
+  // 優先順位1位以外の探し方で見つかったか（主セレクタが壊れている可能性がある）
+  fallback: boolean;
+  count: number;
+}
+
+/**
+ * 機能ごとの検査結果
+ */
+export interface FeatureHealth {
+  feature: FeatureKey;
+  label: string;
+  inScope: boolean;
+  targets: TargetHealth[];
+}
+
+/**
+ * ヘルスチェックの結果
+ */
+export interface SelectorHealthReport {
+  url: string;
+  pageType: PageType;
+  checkedAt: string;
+  features: FeatureHealth[];
+}
@@ -1,34 +1,45 @@
 // Better Niconico Settings Type Definitions
+import type { FeatureToggleSettings } from './features';
+import type { PageOverrides } from './pages';
+import { FEATURE_DEFINITIONS } from './features';
 
-export interface BetterNiconicoSettings {
-  // プレミアム会員セクションを非表示
-  hidePremiumSection: boolean;
-  // TV放送中のアニメセクションを非表示
-  hideOnAirAnime: boolean;
-  // 動画情報を従来のレイアウト（上部）に戻す
-  restoreClassicVideoLayout: boolean;
-  // 動画アップスケーリング（Anime4K-WebGPU）を有効化
-  enableVideoUpscaling: boolean;
-  // サイドバーにnico-rank.comへのボタンを追加
-  showNicoRankButton: boolean;
-  // プロフィールアイコンを丸型から四角型に変更
-  squareProfileIcons: boolean;
-  // サポーターボタンを非表示
-  hideSupporterButton: boolean;
-  // ニコニ広告セクションを非表示
-  hideNicoAds: boolean;
-  // 今後追加する機能のための拡張性
+/**
+ * 拡張機能の設定
+ * 機能のオン/オフは src/types/features.ts の FEATURE_DEFINITIONS から自動的に導出される
+ */
+export interface BetterNiconicoSettings extends FeatureToggleSettings {
+  // ページ種別ごとの機能のオン/オフの上書き
+  pageOverrides: PageOverrides;
 }
 
 export const DEFAULT_SETTINGS: BetterNiconicoSettings = {
-  hidePremiumSection: true,
-  hideOnAirAnime: true,
-  restoreClassicVideoLayout: false,
-  enableVideoUpscaling: false,
-  showNicoRankButton: true,
-  squareProfileIcons: false,
-  hideSupporterButton: false,
-  hideNicoAds: false,
+  ...(Object.fromEntries(
+    FEATURE_DEFINITIONS.map((feature) => [feature.key, feature.defaultValue]),
+  ) as FeatureToggleSettings),
+  pageOverrides: {},
 };
 
 export const STORAGE_KEY = 'betterNiconicoSettings';
+
+/**
+ * 名前付きの設定プリセット
+ */
+export interface SettingsPreset {
+  name: string;
+  settings: BetterNiconicoSettings;
+}
+
+// プリセット一覧（STORAGE_KEY と並べて保存する）
+export const PRESETS_KEY = 'betterNiconicoPresets';
+
+// 設定スキーマのバージョン（STORAGE_KEY と並べて保存する）
+// 設定の構造を変更した場合はこの値を上げ、src/utils/settingsSchema.ts にマイグレーションを追加する
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+export const SCHEMA_VERSION_KEY = 'betterNiconicoSchemaVersion';
+
+// 設定の最終更新時刻（同期ストレージとローカルストレージの整合に使用）
+export const SETTINGS_UPDATED_AT_KEY = 'betterNiconicoSettingsUpdatedAt';
+
+// sync に反映されていない変更がローカルにあることを示すフラグ（local のみに保存）
+export const PENDING_SYNC_KEY = 'betterNiconicoPendingSync';
@@ -0,0 +1,43 @@
+// Better Niconico Keyboard Shortcut Definitions
+// 機能のオン/オフを切り替えるキーボードショートカット
+
+import type { FeatureKey } from './features';
+
+/**
+ * ページ内ショートカットの割り当て（機能の設定キー → "Ctrl+Alt+Shift+U" 形式のキー）
+ * 設定のプリセットで切り替わらないよう、設定とは別のキーに保存する
+ */
+export type ShortcutBindings = Partial<Record<FeatureKey, string>>;
+
+// ページ内ショートカットの割り当て（STORAGE_KEY と並べて保存する）
+export const SHORTCUTS_KEY = 'betterNiconicoShortcuts';
+
+/**
+ * chrome.commands のコマンド名と切り替える機能の対応
+ * manifest.json の commands と一致させること（キーの変更は chrome://extensions/shortcuts で行う）
+ */
+export const COMMAND_FEATURES: Readonly<Record<string, FeatureKey>> = {
+  'toggle-video-upscaling': 'enableVideoUpscaling',
+  'toggle-classic-layout': 'restoreClassicVideoLayout',
+};
+
+/**
+ * ニコニコ動画のプレイヤーが使用するキー（ページ内ショートカットとの競合検出用）
+ */
+export const NICONICO_PLAYER_KEYS: ReadonlyMap<string, string> = new Map([
+  ['Space', '再生/一時停止'],
+  ['K', '再生/一時停止'],
+  ['ArrowLeft', '巻き戻し'],
+  ['ArrowRight', '早送り'],
+  ['Shift+ArrowLeft', '巻き戻し'],
+  ['Shift+ArrowRight', '早送り'],
+  ['J', '巻き戻し'],
+  ['L', '早送り'],
+  ['ArrowUp', '音量を上げる'],
+  ['ArrowDown', '音量を下げる'],
+  ['M', 'ミュート'],
+  ['F', 'フルスクリーン'],
+  ['C', 'コメントの表示/非表示'],
+  ['Home', '先頭に移動'],
+  ['End', '末尾に移動'],
+]);
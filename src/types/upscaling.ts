@@ -0,0 +1,112 @@
+// Better Niconico Video Upscaling Definitions
+// 動画アップスケーリングで使用する Anime4K のパイプラインと出力解像度の設定
+
+// 動画アップスケーリングの設定（STORAGE_KEY と並べて保存する）
+export const UPSCALING_SETTINGS_KEY = 'betterNiconicoUpscaling';
+
+/**
+ * 使用する Anime4K のパイプライン
+ * - modeA〜modeCA: Anime4K のプリセット（出力解像度に合わせて拡大・縮小まで行う）
+ * - cnnx2m〜ganx4uul: 単体のアップスケーラー（固定の倍率で拡大し、足りない場合は2回まで重ねる）
+ */
+export type UpscalingPipeline =
+  | 'modeA'
+  | 'modeB'
+  | 'modeC'
+  | 'modeAA'
+  | 'modeBB'
+  | 'modeCA'
+  | 'cnnx2m'
+  | 'cnnx2vl'
+  | 'cnnx2ul'
+  | 'denoiseCnnx2vl'
+  | 'ganx3l'
+  | 'ganx4uul';
+
+export const UPSCALING_PIPELINES: readonly UpscalingPipeline[] = [
+  'modeA',
+  'modeB',
+  'modeC',
+  'modeAA',
+  'modeBB',
+  'modeCA',
+  'cnnx2m',
+  'cnnx2vl',
+  'cnnx2ul',
+  'denoiseCnnx2vl',
+  'ganx3l',
+  'ganx4uul',
+];
+
+/**
+ * パイプラインの表示名（描画が間に合わずに切り替えたときの通知に使う）
+ */
+export const UPSCALING_PIPELINE_LABELS: Record<UpscalingPipeline, string> = {
+  modeA: 'Mode A',
+  modeB: 'Mode B',
+  modeC: 'Mode C',
+  modeAA: 'Mode A+A',
+  modeBB: 'Mode B+B',
+  modeCA: 'Mode C+A',
+  cnnx2m: 'CNNx2M',
+  cnnx2vl: 'CNNx2VL',
+  cnnx2ul: 'CNNx2UL',
+  denoiseCnnx2vl: 'Denoise CNNx2VL',
+  ganx3l: 'GANx3L',
+  ganx4uul: 'GANx4UUL',
+};
+
+/**
+ * 描画が間に合わない場合に切り替える、1段階軽いパイプライン（null: これ以上軽くできないため停止する）
+ */
+export const CHEAPER_UPSCALING_PIPELINES: Record<UpscalingPipeline, UpscalingPipeline | null> = {
+  modeAA: 'modeA',
+  modeBB: 'modeB',
+  modeCA: 'modeC',
+  modeA: 'modeC',
+  modeB: 'modeC',
+  modeC: 'cnnx2m',
+  ganx4uul: 'cnnx2ul',
+  ganx3l: 'cnnx2vl',
+  cnnx2ul: 'cnnx2vl',
+  denoiseCnnx2vl: 'cnnx2m',
+  cnnx2vl: 'cnnx2m',
+  cnnx2m: null,
+};
+
+// この高さ（px）以下の動画を低解像度の動画として扱う（largeSourcePipeline の判定に使う）
+export const SMALL_SOURCE_MAX_HEIGHT = 480;
+
+// アップスケーリングする動画の高さの上限として選べる値（0: 制限しない）
+export const UPSCALING_MAX_SOURCE_HEIGHTS: readonly number[] = [0, 360, 480, 720, 1080];
+
+/**
+ * 出力解像度
+ * - x2 / x4: 動画の解像度の2倍・4倍
+ * - fit: プレイヤーの表示サイズ（デバイスピクセル）に合わせる
+ */
+export type UpscalingScale = 'x2' | 'x4' | 'fit';
+
+export const UPSCALING_SCALES: readonly UpscalingScale[] = ['x2', 'x4', 'fit'];
+
+/**
+ * 動画アップスケーリングの設定
+ */
+export interface UpscalingSettings {
+  pipeline: UpscalingPipeline;
+  scale: UpscalingScale;
+  // この高さ（px）を超える動画はアップスケーリングしない（0: 制限しない）
+  maxSourceHeight: number;
+  // SMALL_SOURCE_MAX_HEIGHT を超える動画で使うパイプライン（null: pipeline と同じ）
+  largeSourcePipeline: UpscalingPipeline | null;
+  // 描画が間に合わない状態が続いた場合に、軽いパイプラインへの切り替え・停止を自動で行う
+  adaptive: boolean;
+}
+
+export const DEFAULT_UPSCALING_SETTINGS: UpscalingSettings = {
+  pipeline: 'modeA',
+  scale: 'x2',
+  maxSourceHeight: 0,
+  largeSourcePipeline: null,
+  adaptive: true,
+};
@@ -0,0 +1,74 @@
+// Better Niconico Video Filter Definitions
+// 動画一覧（トップ・ランキング・検索・タグ）の動画カードを、投稿者・タイトル・タグで非表示にするNGフィルタ
+
+// NGフィルタの設定（STORAGE_KEY と並べて保存する）
+export const VIDEO_FILTERS_KEY = 'betterNiconicoVideoFilters';
+
+// 保存できるルールの最大数
+export const MAX_VIDEO_FILTER_RULES = 300;
+
+/**
+ * ルールの種類
+ * - uploaderId: 投稿者のユーザーID・チャンネルID（完全一致）
+ * - uploaderName: 投稿者名（完全一致）
+ * - keyword: タイトルに含まれる文字列
+ * - regex: タイトルに一致する正規表現
+ * - tag: タグ（完全一致、タグが表示される一覧のみ）
+ * 正規表現以外は全角・半角と大文字・小文字の違いを無視する
+ */
+export type VideoFilterType = 'uploaderId' | 'uploaderName' | 'keyword' | 'regex' | 'tag';
+
+export const VIDEO_FILTER_TYPES: readonly VideoFilterType[] = ['uploaderId', 'uploaderName', 'keyword', 'regex', 'tag'];
+
+/**
+ * ルールの種類の表示名
+ */
+export const VIDEO_FILTER_TYPE_LABELS: Record<VideoFilterType, string> = {
+  uploaderId: '投稿者ID',
+  uploaderName: '投稿者名',
+  keyword: 'タイトルのキーワード',
+  regex: 'タイトルの正規表現',
+  tag: 'タグ',
+};
+
+/**
+ * NGフィルタのルール
+ */
+export interface VideoFilterRule {
+  id: string;
+  type: VideoFilterType;
+  value: string;
+  // false の場合はルールを残したまま適用しない
+  enabled: boolean;
+}
+
+/**
+ * 一致した動画カードの扱い
+ * - hide: 完全に非表示にする
+ * - collapse: 折りたたみ、「表示する」ボタンを表示する
+ */
+export type VideoFilterAction = 'hide' | 'collapse';
+
+/**
+ * NGフィルタの設定
+ */
+export interface VideoFilterSettings {
+  action: VideoFilterAction;
+  rules: VideoFilterRule[];
+}
+
+export const DEFAULT_VIDEO_FILTER_SETTINGS: VideoFilterSettings = {
+  action: 'collapse',
+  rules: [],
+};
+
+/**
+ * 動画カードから読み取った情報（読み取れない項目は null / 空配列）
+ */
+export interface VideoCardInfo {
+  videoId: string;
+  title: string;
+  uploaderId: string | null;
+  uploaderName: string | null;
+  tags: string[];
+}
@@ -0,0 +1,54 @@
+// Better Niconico Watch History Definitions
+// 動画視聴ページの訪問ごとの記録（拡張機能の IndexedDB に保存する）
+
+// データベース名とバージョン
+export const WATCH_HISTORY_DB_NAME = 'betterNiconicoHistory';
+export const WATCH_HISTORY_DB_VERSION = 1;
+
+// 視聴履歴のオブジェクトストア
+export const WATCH_HISTORY_STORE = 'watchHistory';
+
+// 保存する最大件数（超えた場合は古いものから削除する）
+export const MAX_WATCH_HISTORY_ENTRIES = 10000;
+
+// 1件に保存するタグの最大数
+export const MAX_WATCH_HISTORY_TAGS = 50;
+
+// 視聴履歴ページ（拡張機能内のパス。vite.config.ts でビルドの入力に加える）
+export const WATCH_HISTORY_PAGE_PATH = 'src/history/history.html';
+
+/**
+ * 視聴履歴の1件（動画視聴ページの1回の訪問）
+ * 同じ動画を開き直した場合は別の記録になる
+ */
+export interface WatchHistoryEntry {
+  // 訪問ごとのID
+  id: string;
+  videoId: string;
+  // 読み取れなかった場合は空文字列
+  title: string;
+  uploaderId: string | null;
+  uploaderName: string | null;
+  tags: string[];
+  // 動画の長さ（秒。読み取れなかった場合は null）
+  duration: number | null;
+  // 最後の再生位置（秒。再生していない場合は null）
+  position: number | null;
+  // 訪問した日時（ミリ秒）
+  watchedAt: number;
+  // 最後に記録を更新した日時（ミリ秒）
+  updatedAt: number;
+}
+
+/**
+ * 視聴履歴の検索条件
+ */
+export interface WatchHistoryQuery {
+  // タイトル・投稿者・タグ・動画IDに含まれる語（空白区切りですべてを含むものを探す）
+  text?: string;
+  // 訪問した日時の範囲（ミリ秒。null の場合は制限しない）
+  from?: number | null;
+  to?: number | null;
+  // 最大件数（新しい順）
+  limit?: number;
+}
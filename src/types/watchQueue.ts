@@ -0,0 +1,20 @@
+// Better Niconico Watch Queue Definitions
+// 拡張機能内に保存する「あとで見る」キュー（動画視聴ページで再生が終わると次の動画に移動する）
+
+// キュー（端末ごとの情報で並べ替えのたびに書き込むため、local のみに保存する）
+export const WATCH_QUEUE_KEY = 'betterNiconicoWatchQueue';
+
+// キューに追加できる動画の最大数
+export const MAX_WATCH_QUEUE_ENTRIES = 200;
+
+/**
+ * キューの1件
+ */
+export interface WatchQueueEntry {
+  videoId: string;
+  // 読み取れなかった場合は空文字列
+  title: string;
+  uploaderName: string | null;
+  // 追加した日時（ミリ秒）
+  addedAt: number;
+}
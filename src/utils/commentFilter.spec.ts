@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { CommentFilterSettings } from '../types/commentFilter';
+import { DEFAULT_COMMENT_FILTER_SETTINGS } from '../types/commentFilter';
+import { compileCommentFilter, filterThreadsResponse } from './commentFilter';
+import threadsResponse from './__fixtures__/nvcommentThreads.json';
+
+const SETTINGS: CommentFilterSettings = {
+  words: ['www'],
+  regexes: ['再生数\\d+', '('],
+  userIds: ['ng-user-id'],
+  commands: ['red'],
+  maxLength: 30,
+};
+
+type Thread = (typeof threadsResponse.data.threads)[number];
+
+function getThreads(response: unknown): Thread[] {
+  return (response as typeof threadsResponse).data.threads;
+}
+
+function getCommentIds(thread: Thread): string[] {
+  return thread.comments.map((comment) => comment.id);
+}
+
+describe('filterThreadsResponse', () => {
+  it('removes matching comments from the recorded threads response', () => {
+    const filtered = filterThreadsResponse(threadsResponse, compileCommentFilter(SETTINGS));
+
+    expect(filtered?.result).toEqual({
+      total: 8,
+      removed: 6,
+      byReason: { word: 2, regex: 1, userId: 1, command: 1, length: 1 },
+    });
+
+    const [owner, main, easy] = getThreads(filtered?.response);
+    expect(getCommentIds(owner)).toEqual(['1']);
+    expect(getCommentIds(main)).toEqual(['1001']);
+    expect(getCommentIds(easy)).toEqual(['2001']);
+  });
+
+  it('updates commentCount of each filtered thread', () => {
+    const filtered = filterThreadsResponse(threadsResponse, compileCommentFilter(SETTINGS));
+
+    expect(getThreads(filtered?.response).map((thread) => thread.commentCount)).toEqual([1, 1, 1]);
+  });
+
+  it('decreases the total comment count by the number of removed comments', () => {
+    const filtered = filterThreadsResponse(threadsResponse, compileCommentFilter(SETTINGS));
+
+    expect((filtered?.response as typeof threadsResponse).data.globalComments).toEqual([{ count: 3 }]);
+  });
+
+  it('keeps the original response unchanged', () => {
+    const original = structuredClone(threadsResponse);
+    filterThreadsResponse(threadsResponse, compileCommentFilter(SETTINGS));
+
+    expect(threadsResponse).toEqual(original);
+  });
+
+  it('removes nothing with empty settings', () => {
+    const filtered = filterThreadsResponse(threadsResponse, compileCommentFilter(DEFAULT_COMMENT_FILTER_SETTINGS));
+
+    expect(filtered?.result.removed).toBe(0);
+    expect(filtered?.response).toEqual(threadsResponse);
+  });
+
+  it('returns null for a response without threads', () => {
+    const matcher = compileCommentFilter(SETTINGS);
+
+    expect(filterThreadsResponse({ meta: { status: 200 } }, matcher)).toBeNull();
+    expect(filterThreadsResponse(null, matcher)).toBeNull();
+  });
+});
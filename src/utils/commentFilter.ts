@@ -0,0 +1,149 @@
+// Comment filter utilities
+// コメントAPI（nvcomment）の応答から、NGフィルタに一致するコメントを取り除く
+// ページのコンテキストで動くフック（content/commentFilterHook.ts）からも読み込むため、
+// chrome API や neverthrow に依存しない純粋な関数のみを置く
+
+import type {
+  CommentFilterReason,
+  CommentFilterResult,
+  CommentFilterSettings,
+  NvComment,
+} from '../types/commentFilter';
+import { isRecord } from './typeGuards';
+
+/**
+ * 照合用の関数（一致した理由を返し、一致しない場合は null）
+ */
+export type CommentMatcher = (comment: NvComment) => CommentFilterReason | null;
+
+// フィルタしないスレッド（投稿者コメント）
+const OWNER_THREAD_FORK = 'owner';
+
+/**
+ * 照合用に文字列を正規化（全角・半角と大文字・小文字の違いを無視する）
+ */
+function normalizeCommentText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 正規表現を作成（解釈できない場合は null）
+ */
+export function createCommentFilterRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 設定に一致したコメントの理由を返す関数を作成する
+ * 正規表現は作成時に1度だけ解釈し、解釈できないものは無視する
+ */
+export function compileCommentFilter(settings: CommentFilterSettings): CommentMatcher {
+  const words = settings.words.map(normalizeCommentText).filter((word) => word !== '');
+  const regexes = settings.regexes
+    .map(createCommentFilterRegExp)
+    .filter((regExp): regExp is RegExp => regExp !== null);
+  const userIds = new Set(settings.userIds);
+  const commands = new Set(settings.commands.map(normalizeCommentText));
+  const { maxLength } = settings;
+
+  return (comment) => {
+    if (userIds.has(comment.userId)) {
+      return 'userId';
+    }
+    if (comment.commands.some((command) => commands.has(normalizeCommentText(command)))) {
+      return 'command';
+    }
+    if (maxLength !== null && comment.body.length > maxLength) {
+      return 'length';
+    }
+    const body = normalizeCommentText(comment.body);
+    if (words.some((word) => body.includes(word))) {
+      return 'word';
+    }
+    if (regexes.some((regExp) => regExp.test(comment.body))) {
+      return 'regex';
+    }
+    return null;
+  };
+}
+
+/**
+ * 空のフィルタ結果を作成
+ */
+export function createEmptyCommentFilterResult(): CommentFilterResult {
+  return {
+    total: 0,
+    removed: 0,
+    byReason: { word: 0, regex: 0, userId: 0, command: 0, length: 0 },
+  };
+}
+
+/**
+ * フィルタに使う項目が揃っているコメントか
+ */
+function isNvComment(value: unknown): value is NvComment {
+  return (
+    isRecord(value) &&
+    typeof value.body === 'string' &&
+    typeof value.userId === 'string' &&
+    Array.isArray(value.commands) &&
+    value.commands.every((command) => typeof command === 'string')
+  );
+}
+
+/**
+ * コメントAPI（/v1/threads）の応答からNGフィルタに一致するコメントを取り除く
+ * 元の応答は変更せず、コメントを取り除いた応答と結果を返す
+ * 投稿者コメントのスレッドと、想定と異なる形のコメントはそのまま残す
+ * 各スレッドの commentCount と、動画全体のコメント数（globalComments の count）は取り除いたコメントの数だけ減らす
+ * 応答の形が想定と異なる場合は null を返す（応答はそのまま使う）
+ */
+export function filterThreadsResponse(
+  response: unknown,
+  matcher: CommentMatcher,
+): { response: unknown; result: CommentFilterResult } | null {
+  if (!isRecord(response) || !isRecord(response.data) || !Array.isArray(response.data.threads)) {
+    return null;
+  }
+
+  const result = createEmptyCommentFilterResult();
+  const threads = response.data.threads.map((thread: unknown) => {
+    if (!isRecord(thread) || !Array.isArray(thread.comments) || thread.fork === OWNER_THREAD_FORK) {
+      return thread;
+    }
+
+    const comments = thread.comments.filter((comment: unknown) => {
+      result.total++;
+      const reason = isNvComment(comment) ? matcher(comment) : null;
+      if (reason === null) {
+        return true;
+      }
+      result.removed++;
+      result.byReason[reason]++;
+      return false;
+    });
+
+    // スレッドのコメント数も取り除いた分だけ減らす（プレイヤーのコメント数の表示と合わせる）
+    const removedCount = thread.comments.length - comments.length;
+    if (typeof thread.commentCount === 'number') {
+      return { ...thread, comments, commentCount: Math.max(0, thread.commentCount - removedCount) };
+    }
+    return { ...thread, comments };
+  });
+
+  // 動画全体のコメント数も取り除いた分だけ減らす（プレイヤーに表示される総数と合わせる）
+  const data: Record<string, unknown> = { ...response.data, threads };
+  if (Array.isArray(response.data.globalComments)) {
+    data.globalComments = response.data.globalComments.map((globalComment: unknown) =>
+      isRecord(globalComment) && typeof globalComment.count === 'number'
+        ? { ...globalComment, count: Math.max(0, globalComment.count - result.removed) }
+        : globalComment,
+    );
+  }
+
+  return { response: { ...response, data }, result };
+}
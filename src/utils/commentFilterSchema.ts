@@ -0,0 +1,90 @@
+// Comment filter schema
+// 保存されたコメントのNGフィルタの設定の検証と、設定ページで入力された値の確認を行う
+
+import { Result, ok, err } from 'neverthrow';
+import type { StorageError } from '../types/errors';
+import type { CommentFilterSettings } from '../types/commentFilter';
+import {
+  DEFAULT_COMMENT_FILTER_SETTINGS,
+  MAX_COMMENT_FILTER_ENTRIES,
+  MAX_COMMENT_FILTER_ENTRY_LENGTH,
+  MAX_COMMENT_LENGTH_LIMIT,
+} from '../types/commentFilter';
+import { storageDataCorruptedError } from '../types/errors';
+import { createCommentFilterRegExp } from './commentFilter';
+import { isRecord } from './typeGuards';
+
+// 文字列のリストで保存する項目
+const LIST_FIELDS = ['words', 'regexes', 'userIds', 'commands'] as const;
+
+function isEntryList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length <= MAX_COMMENT_FILTER_ENTRIES &&
+    value.every((entry) => typeof entry === 'string' && entry !== '' && entry.length <= MAX_COMMENT_FILTER_ENTRY_LENGTH)
+  );
+}
+
+function isMaxLength(value: unknown): value is number | null {
+  return value === null || (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_COMMENT_LENGTH_LIMIT);
+}
+
+/**
+ * 保存されたコメントのNGフィルタの設定を検証する
+ * Returns Result<CommentFilterSettings, StorageError>
+ */
+export function parseCommentFilterSettings(raw: unknown): Result<CommentFilterSettings, StorageError> {
+  if (raw === undefined) {
+    return ok({ ...DEFAULT_COMMENT_FILTER_SETTINGS });
+  }
+
+  if (!isRecord(raw)) {
+    return err(storageDataCorruptedError('Stored comment filters is not an object', 'commentFilters'));
+  }
+
+  const data = raw;
+  for (const field of LIST_FIELDS) {
+    if (!isEntryList(data[field])) {
+      return err(storageDataCorruptedError('Stored comment filter list is not a valid array', `commentFilters.${field}`));
+    }
+  }
+
+  if (!isMaxLength(data.maxLength)) {
+    return err(storageDataCorruptedError('Invalid comment max length', 'commentFilters.maxLength'));
+  }
+
+  return ok({
+    words: [...(data.words as string[])],
+    regexes: [...(data.regexes as string[])],
+    userIds: [...(data.userIds as string[])],
+    commands: [...(data.commands as string[])],
+    maxLength: data.maxLength,
+  });
+}
+
+/**
+ * 入力された設定の問題点を取得（問題がない場合は null）
+ * 設定ページで保存前の確認に使う
+ */
+export function getCommentFilterProblem(settings: CommentFilterSettings): string | null {
+  for (const field of LIST_FIELDS) {
+    const entries = settings[field];
+    if (entries.length > MAX_COMMENT_FILTER_ENTRIES) {
+      return `各項目は${MAX_COMMENT_FILTER_ENTRIES}件以内で入力してください`;
+    }
+    if (entries.some((entry) => entry.length > MAX_COMMENT_FILTER_ENTRY_LENGTH)) {
+      return `各行は${MAX_COMMENT_FILTER_ENTRY_LENGTH}文字以内で入力してください`;
+    }
+  }
+
+  const invalidRegex = settings.regexes.find((pattern) => !createCommentFilterRegExp(pattern));
+  if (invalidRegex !== undefined) {
+    return `正規表現が正しくありません: ${invalidRegex}`;
+  }
+
+  if (!isMaxLength(settings.maxLength)) {
+    return `文字数の上限は1〜${MAX_COMMENT_LENGTH_LIMIT}の整数で入力してください`;
+  }
+
+  return null;
+}
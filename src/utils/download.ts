@@ -0,0 +1,19 @@
+// Download utilities
+// 拡張機能のページで作成した内容をファイルとしてダウンロードさせる
+
+/**
+ * 文字列をファイルとしてダウンロードさせる
+ * @param content - ファイルの内容
+ * @param type - MIME タイプ
+ * @param fileName - 保存するファイル名
+ */
+export function downloadFile(content: string, type: string, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,100 @@
+// Error log utilities
+// AppError をエラーログの形式に変換してバックグラウンドに送り、保存されたログをバグ報告用の文章にする
+
+import type { AppError } from '../types/errors';
+import type { ErrorLogEntry, ErrorSource } from '../types/errorLog';
+import { sendMessage } from './messaging';
+
+/**
+ * エラーの原因を保存できる文字列に変換
+ */
+function describeCause(cause: unknown): string {
+  if (cause instanceof Error) {
+    return `${cause.name}: ${cause.message}`;
+  }
+  return typeof cause === 'string' ? cause : JSON.stringify(cause) ?? String(cause);
+}
+
+/**
+ * エラー固有の追加情報を取り出す（type と message 以外のフィールド）
+ */
+function getErrorDetails(error: AppError): ErrorLogEntry['details'] {
+  const details: ErrorLogEntry['details'] = {};
+
+  for (const [key, value] of Object.entries(error)) {
+    if (key === 'type' || key === 'message' || value === undefined) {
+      continue;
+    }
+
+    if (key === 'cause') {
+      details.cause = describeCause(value);
+    } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      details[key] = value;
+    } else {
+      details[key] = JSON.stringify(value);
+    }
+  }
+
+  return details;
+}
+
+/**
+ * AppError からエラーログの1件を作成する
+ */
+export function createErrorLogEntry(
+  error: AppError,
+  source: ErrorSource,
+  url: string | null,
+): ErrorLogEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    errorType: error.type,
+    message: error.message,
+    source,
+    url,
+    details: getErrorDetails(error),
+  };
+}
+
+/**
+ * エラーをバックグラウンドに送り、エラーログに記録する
+ * 記録に失敗しても呼び出し元の処理には影響させない
+ */
+export function reportError(error: AppError, source: ErrorSource): void {
+  // ポップアップ・設定ページなど拡張機能のページでは、ページのURLは記録しない
+  const url = window.location.protocol === 'chrome-extension:' ? null : window.location.href;
+
+  void sendMessage({ action: 'logError', entry: createErrorLogEntry(error, source, url) }).mapErr((sendError) => {
+    console.warn('[Better Niconico] エラーログを記録できませんでした:', sendError);
+  });
+}
+
+/**
+ * エラーログをバグ報告用のMarkdownに変換する
+ */
+export function formatBugReport(entries: readonly ErrorLogEntry[]): string {
+  const lines = [
+    '## Better Niconico エラーレポート',
+    '',
+    `- 拡張機能のバージョン: ${chrome.runtime.getManifest().version}`,
+    `- ブラウザ: ${navigator.userAgent}`,
+    `- 作成日時: ${new Date().toISOString()}`,
+    `- 件数: ${entries.length}`,
+    '',
+  ];
+
+  for (const entry of entries) {
+    lines.push(`### ${entry.timestamp} \`${entry.errorType}\``);
+    lines.push(`- 発生元: ${entry.source}`);
+    if (entry.url) {
+      lines.push(`- URL: ${entry.url}`);
+    }
+    lines.push(`- メッセージ: ${entry.message}`);
+    for (const [key, value] of Object.entries(entry.details)) {
+      lines.push(`- ${key}: ${String(value)}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,71 @@
+// Error log schema
+// 保存・受信したエラーログの検証を行う
+
+import { Result, ok, err } from 'neverthrow';
+import type { StorageError } from '../types/errors';
+import type { ErrorLogEntry, ErrorSource } from '../types/errorLog';
+import { storageDataCorruptedError } from '../types/errors';
+import { FEATURE_DEFINITIONS } from '../types/features';
+import { isRecord } from './typeGuards';
+
+// 機能の設定キー以外のエラーの発生元
+const NON_FEATURE_SOURCES: ReadonlySet<string> = new Set([
+  'settings',
+  'content',
+  'popup',
+  'options',
+  'history',
+  'background',
+]);
+
+function isErrorSource(value: unknown): value is ErrorSource {
+  return (
+    typeof value === 'string' &&
+    (NON_FEATURE_SOURCES.has(value) || FEATURE_DEFINITIONS.some((feature) => feature.key === value))
+  );
+}
+
+function isDetails(value: unknown): value is ErrorLogEntry['details'] {
+  return (
+    isRecord(value) &&
+    Object.values(value).every((item) => ['string', 'number', 'boolean'].includes(typeof item))
+  );
+}
+
+/**
+ * エラーログの1件を検証する
+ */
+export function parseErrorLogEntry(raw: unknown): Result<ErrorLogEntry, StorageError> {
+  if (!isRecord(raw)) {
+    return err(storageDataCorruptedError('Error log entry is not an object', 'errorLog'));
+  }
+
+  const entry = raw;
+  if (
+    typeof entry.timestamp !== 'string' ||
+    typeof entry.errorType !== 'string' ||
+    typeof entry.message !== 'string' ||
+    !isErrorSource(entry.source) ||
+    (entry.url !== null && typeof entry.url !== 'string') ||
+    !isDetails(entry.details)
+  ) {
+    return err(storageDataCorruptedError('Invalid error log entry', 'errorLog'));
+  }
+
+  return ok(entry as unknown as ErrorLogEntry);
+}
+
+/**
+ * 保存されたエラーログを検証する
+ */
+export function parseErrorLog(raw: unknown): Result<ErrorLogEntry[], StorageError> {
+  if (raw === undefined) {
+    return ok([]);
+  }
+
+  if (!Array.isArray(raw)) {
+    return err(storageDataCorruptedError('Stored error log is not an array', 'errorLog'));
+  }
+
+  return Result.combine((raw as unknown[]).map(parseErrorLogEntry));
+}
@@ -0,0 +1,140 @@
+// Hide rule utilities
+// ユーザー定義の非表示ルールの検証と、保存されたルール一覧の検証を行う
+
+import { Result, ok, err } from 'neverthrow';
+import type { FeaturePageScope } from '../types/features';
+import type { HideRule, HideRuleTarget } from '../types/hideRules';
+import type { StorageError } from '../types/errors';
+import { MAX_HIDE_RULES } from '../types/hideRules';
+import { PAGE_TYPES } from '../types/pages';
+import { storageDataCorruptedError } from '../types/errors';
+import { isRecord } from './typeGuards';
+
+// ルール名・見出しのテキストの最大文字数
+export const MAX_HIDE_RULE_TEXT_LENGTH = 100;
+
+// セレクタの最大文字数
+const MAX_SELECTOR_LENGTH = 500;
+
+/**
+ * CSSセレクタとして解釈できるかを判定
+ * DOMに依存しないよう、空のDocumentFragmentに対して querySelector を実行する
+ */
+export function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 要素の探し方の問題点を取得（問題がない場合は null）
+ * 入力フォームと要素ピッカーで、保存前の確認に使う
+ */
+export function getHideRuleTargetProblem(target: HideRuleTarget): string | null {
+  if (!target.selector && !target.headingText) {
+    return 'セレクタか見出しのテキストのどちらかを入力してください';
+  }
+
+  if (target.selector && (target.selector.length > MAX_SELECTOR_LENGTH || !isValidSelector(target.selector))) {
+    return 'セレクタが正しくありません';
+  }
+
+  if (target.headingText && target.headingText.length > MAX_HIDE_RULE_TEXT_LENGTH) {
+    return `見出しのテキストは${MAX_HIDE_RULE_TEXT_LENGTH}文字以内で入力してください`;
+  }
+
+  if (
+    target.hideAncestor &&
+    (target.hideAncestor.length > MAX_SELECTOR_LENGTH || !isValidSelector(target.hideAncestor))
+  ) {
+    return '非表示にする祖先のセレクタが正しくありません';
+  }
+
+  return null;
+}
+
+/**
+ * 新しいルールのIDを作成
+ */
+export function createHideRuleId(): string {
+  return `rule-${crypto.randomUUID()}`;
+}
+
+function isNullableString(value: unknown, maxLength: number): value is string | null {
+  return value === null || (typeof value === 'string' && value !== '' && value.length <= maxLength);
+}
+
+function isPageScope(value: unknown): value is FeaturePageScope {
+  return (
+    value === 'all' ||
+    (Array.isArray(value) &&
+      value.length > 0 &&
+      value.every((pageType) => (PAGE_TYPES as readonly unknown[]).includes(pageType)))
+  );
+}
+
+/**
+ * 保存された1件のルールを検証する（不正な場合は null）
+ * セレクタの構文はDOMのないバックグラウンドでも検証できるよう、ここでは確認しない（適用時に確認する）
+ */
+function parseHideRule(raw: unknown): HideRule | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+
+  const rule = raw;
+  if (
+    typeof rule.id !== 'string' ||
+    rule.id === '' ||
+    typeof rule.name !== 'string' ||
+    rule.name.length > MAX_HIDE_RULE_TEXT_LENGTH ||
+    !isNullableString(rule.selector, MAX_SELECTOR_LENGTH) ||
+    !isNullableString(rule.headingText, MAX_HIDE_RULE_TEXT_LENGTH) ||
+    !isNullableString(rule.hideAncestor, MAX_SELECTOR_LENGTH) ||
+    (rule.selector === null && rule.headingText === null) ||
+    !isPageScope(rule.pageScope) ||
+    typeof rule.enabled !== 'boolean'
+  ) {
+    return null;
+  }
+
+  return {
+    id: rule.id,
+    name: rule.name,
+    selector: rule.selector,
+    headingText: rule.headingText,
+    hideAncestor: rule.hideAncestor,
+    pageScope: rule.pageScope,
+    enabled: rule.enabled,
+  };
+}
+
+/**
+ * 保存された非表示ルールの一覧を検証する
+ * Returns Result<HideRule[], StorageError>
+ */
+export function parseHideRules(raw: unknown): Result<HideRule[], StorageError> {
+  if (raw === undefined) {
+    return ok([]);
+  }
+
+  if (!Array.isArray(raw) || raw.length > MAX_HIDE_RULES) {
+    return err(storageDataCorruptedError('Stored hide rules is not a valid array', 'hideRules'));
+  }
+
+  const rules: HideRule[] = [];
+  const ids = new Set<string>();
+  for (const item of raw as unknown[]) {
+    const rule = parseHideRule(item);
+    if (!rule || ids.has(rule.id)) {
+      return err(storageDataCorruptedError('Invalid hide rule entry', 'hideRules'));
+    }
+    ids.add(rule.id);
+    rules.push(rule);
+  }
+
+  return ok(rules);
+}
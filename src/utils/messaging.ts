@@ -0,0 +1,136 @@
+// Messaging utilities with Result types
+// メッセージの検証と、型付きの送信・応答を行う
+//
+// 受信側は parseMessage() で検証してから action ごとに処理し、toMessageResponse() で応答する
+// 送信側は sendMessage() / sendTabMessage() を使い、応答データの型は action から決まる
+
+import { Result, ResultAsync, ok, err } from 'neverthrow';
+import type { AppError, MessageError } from '../types/errors';
+import type { Message, MessageAction, MessageResponse, MessageResponseDataMap } from '../types/messages';
+import {
+  invalidMessageActionError,
+  invalidMessagePayloadError,
+  messageResponseFailedError,
+} from '../types/errors';
+import { FEATURE_DEFINITIONS } from '../types/features';
+import { parseSettings } from './settingsSchema';
+import { parseErrorLogEntry } from './errorLogSchema';
+import { parseWatchHistoryEntry } from './watchHistory';
+import { isRecord } from './typeGuards';
+
+/**
+ * 受信したメッセージを検証する
+ * Returns Result<Message, MessageError>
+ */
+export function parseMessage(raw: unknown): Result<Message, MessageError> {
+  if (!isRecord(raw)) {
+    return err(invalidMessageActionError('Message is not an object', String(raw)));
+  }
+
+  const message = raw;
+  const action = message.action;
+  if (typeof action !== 'string') {
+    return err(invalidMessageActionError('Message has no action', String(action)));
+  }
+
+  switch (action) {
+    case 'getSettings':
+    case 'getSelectorHealth':
+    case 'getFeatureStatus':
+    case 'startElementPicker':
+    case 'addUploaderFilter':
+      return ok({ action });
+    case 'updateSettings':
+      return parseSettings(message.data)
+        .map((data): Message => ({ action, data }))
+        .mapErr((error) => invalidMessagePayloadError('Invalid settings payload', action, error));
+    case 'toggleFeature': {
+      const feature = FEATURE_DEFINITIONS.find((definition) => definition.key === message.feature);
+      if (!feature) {
+        return err(invalidMessagePayloadError(`Unknown feature: ${String(message.feature)}`, action));
+      }
+      return ok({ action, feature: feature.key });
+    }
+    case 'setErrorBadge':
+      if (typeof message.errorCount !== 'number' || !Number.isInteger(message.errorCount) || message.errorCount < 0) {
+        return err(invalidMessagePayloadError('Invalid error count', action));
+      }
+      return ok({ action, errorCount: message.errorCount });
+    case 'logError':
+      return parseErrorLogEntry(message.entry)
+        .map((entry): Message => ({ action, entry }))
+        .mapErr((error) => invalidMessagePayloadError('Invalid error log entry payload', action, error));
+    case 'recordWatchHistory':
+      return parseWatchHistoryEntry(message.entry)
+        .map((entry): Message => ({ action, entry }))
+        .mapErr((error) => invalidMessagePayloadError('Invalid watch history entry payload', action, error));
+    default:
+      return err(invalidMessageActionError(`Unknown message action: ${action}`, action));
+  }
+}
+
+/**
+ * 処理結果を応答の形式に変換する
+ */
+export function toMessageResponse<A extends MessageAction>(
+  result: Result<MessageResponseDataMap[A], AppError>,
+): MessageResponse<A> {
+  return result.match<MessageResponse<A>>(
+    (data) => ({ success: true, data }),
+    (error) => ({ success: false, error }),
+  );
+}
+
+/**
+ * 受け取った応答を検証する
+ * 応答データの中身は受信側で検証済みのため、成功・失敗の形式のみを確認する
+ */
+function parseMessageResponse<A extends MessageAction>(
+  action: A,
+  raw: unknown,
+): Result<MessageResponseDataMap[A], MessageError> {
+  if (!isRecord(raw) || typeof raw.success !== 'boolean') {
+    return err(messageResponseFailedError(`Invalid response to ${action}`, raw));
+  }
+
+  const response = raw as MessageResponse<A>;
+  if (!response.success) {
+    return err(messageResponseFailedError(`${action} failed: ${response.error.message}`, response.error));
+  }
+
+  return ok(response.data);
+}
+
+/**
+ * 送信処理の Promise を Result に変換する
+ */
+function toResponseResult<A extends MessageAction>(
+  action: A,
+  promise: Promise<unknown>,
+): ResultAsync<MessageResponseDataMap[A], MessageError> {
+  return ResultAsync.fromPromise(promise, (error) =>
+    messageResponseFailedError(`Failed to send ${action}`, error),
+  ).andThen((response) => parseMessageResponse(action, response));
+}
+
+/**
+ * 拡張機能内（バックグラウンド）にメッセージを送信する
+ * Returns Result<応答データ, MessageError>
+ */
+export function sendMessage<M extends Message>(
+  message: M,
+): ResultAsync<MessageResponseDataMap[M['action']], MessageError> {
+  return toResponseResult<M['action']>(message.action, chrome.runtime.sendMessage(message));
+}
+
+/**
+ * タブのコンテンツスクリプトにメッセージを送信する
+ * コンテンツスクリプトが読み込まれていないタブでは message_response_failed になる
+ * Returns Result<応答データ, MessageError>
+ */
+export function sendTabMessage<M extends Message>(
+  tabId: number,
+  message: M,
+): ResultAsync<MessageResponseDataMap[M['action']], MessageError> {
+  return toResponseResult<M['action']>(message.action, chrome.tabs.sendMessage(tabId, message));
+}
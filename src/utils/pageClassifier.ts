@@ -0,0 +1,124 @@
+// Page classifier utilities
+// URLからページ種別を判定し、ページ種別ごとの上書きを反映した設定を求める
+
+import type { PageType } from '../types/pages';
+import type { FeatureKey, FeatureToggleSettings } from '../types/features';
+import type { BetterNiconicoSettings } from '../types/settings';
+import { FEATURE_DEFINITIONS } from '../types/features';
+
+// ページ種別を判定する対象のホスト（これ以外のサブドメインは other とする）
+const NICOVIDEO_HOSTS = new Set(['www.nicovideo.jp', 'nicovideo.jp']);
+
+/**
+ * URLのページ種別を判定
+ * @param location - window.location または URL
+ */
+export function classifyPage(location: Pick<URL, 'hostname' | 'pathname'>): PageType {
+  if (!NICOVIDEO_HOSTS.has(location.hostname)) {
+    return 'other';
+  }
+
+  const { pathname } = location;
+
+  if (pathname.startsWith('/watch/')) {
+    return 'watch';
+  }
+  if (pathname.startsWith('/video_top')) {
+    return 'video_top';
+  }
+  if (pathname.startsWith('/ranking')) {
+    return 'ranking';
+  }
+  if (pathname.startsWith('/search/')) {
+    return 'search';
+  }
+  if (pathname.startsWith('/tag/')) {
+    return 'tag';
+  }
+  if (pathname.startsWith('/user/') || pathname === '/my' || pathname.startsWith('/my/')) {
+    return 'user';
+  }
+
+  return 'other';
+}
+
+/**
+ * 現在のページのページ種別を判定
+ */
+export function getCurrentPageType(): PageType {
+  return classifyPage(window.location);
+}
+
+/**
+ * ページ種別ごとの上書きを反映した、機能のオン/オフを求める
+ */
+export function resolveFeatureSettings(
+  settings: BetterNiconicoSettings,
+  pageType: PageType,
+): FeatureToggleSettings {
+  const overrides = settings.pageOverrides[pageType] ?? {};
+  const resolved = {} as FeatureToggleSettings;
+
+  for (const feature of FEATURE_DEFINITIONS) {
+    resolved[feature.key] = overrides[feature.key] ?? settings[feature.key];
+  }
+
+  return resolved;
+}
+
+/**
+ * ページ種別ごとの上書きを設定した新しい設定を返す
+ * 値が全ページ共通の設定と同じ場合、または undefined の場合は上書きを取り除く
+ */
+export function setPageOverride(
+  settings: BetterNiconicoSettings,
+  pageType: PageType,
+  key: FeatureKey,
+  enabled: boolean | undefined,
+): BetterNiconicoSettings {
+  const overrides: Partial<FeatureToggleSettings> = { ...settings.pageOverrides[pageType] };
+  if (enabled === undefined || enabled === settings[key]) {
+    delete overrides[key];
+  } else {
+    overrides[key] = enabled;
+  }
+
+  const pageOverrides = { ...settings.pageOverrides };
+  if (Object.keys(overrides).length === 0) {
+    delete pageOverrides[pageType];
+  } else {
+    pageOverrides[pageType] = overrides;
+  }
+
+  return { ...settings, pageOverrides };
+}
+
+/**
+ * 指定したページ種別での機能のオン/オフを反転した新しい設定を返す
+ * そのページ種別で上書き中の場合は上書きを、そうでない場合は全ページ共通の設定を反転する
+ */
+export function toggleFeatureForPage(
+  settings: BetterNiconicoSettings,
+  pageType: PageType,
+  key: FeatureKey,
+): BetterNiconicoSettings {
+  const enabled = resolveFeatureSettings(settings, pageType)[key];
+  if (settings.pageOverrides[pageType]?.[key] !== undefined) {
+    return setPageOverride(settings, pageType, key, !enabled);
+  }
+
+  return { ...settings, [key]: !enabled };
+}
+
+/**
+ * 動画視聴ページのURLから動画IDを取得
+ * 動画視聴ページ以外では null を返す
+ */
+export function getVideoId(location: Pick<URL, 'hostname' | 'pathname'>): string | null {
+  if (classifyPage(location) !== 'watch') {
+    return null;
+  }
+
+  const match = /^\/watch\/([^/]+)/.exec(location.pathname);
+  return match ? match[1] : null;
+}
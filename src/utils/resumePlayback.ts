@@ -0,0 +1,125 @@
+// Resume playback utilities
+// 続きから再生する機能の設定と、保存された再生位置の検証・期限切れの削除を行う
+
+import { Result, ok, err } from 'neverthrow';
+import type { StorageError } from '../types/errors';
+import type { ResumePlaybackSettings, ResumePosition, ResumePositions } from '../types/resumePlayback';
+import {
+  DEFAULT_RESUME_PLAYBACK_SETTINGS,
+  MAX_RESUME_EXPIRE_DAYS,
+  MAX_RESUME_POSITIONS,
+  MIN_RESUME_EXPIRE_DAYS,
+  RESUME_PLAYBACK_MODES,
+  RESUME_POSITION_KEY_PREFIX,
+} from '../types/resumePlayback';
+import { storageDataCorruptedError } from '../types/errors';
+import { isRecord } from './typeGuards';
+
+// 1日のミリ秒
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * 再生位置を保存しておく日数として有効か
+ */
+export function isValidResumeExpireDays(value: unknown): value is number {
+  return (
+    Number.isInteger(value) && (value as number) >= MIN_RESUME_EXPIRE_DAYS && (value as number) <= MAX_RESUME_EXPIRE_DAYS
+  );
+}
+
+/**
+ * 保存された続きから再生する機能の設定を検証する
+ * Returns Result<ResumePlaybackSettings, StorageError>
+ */
+export function parseResumePlaybackSettings(raw: unknown): Result<ResumePlaybackSettings, StorageError> {
+  if (raw === undefined) {
+    return ok({ ...DEFAULT_RESUME_PLAYBACK_SETTINGS });
+  }
+
+  if (!isRecord(raw)) {
+    return err(storageDataCorruptedError('Stored resume playback settings is not an object', 'resumePlayback'));
+  }
+
+  if (!RESUME_PLAYBACK_MODES.includes(raw.mode as ResumePlaybackSettings['mode'])) {
+    return err(storageDataCorruptedError('Invalid resume playback mode', 'resumePlayback.mode'));
+  }
+
+  if (!isValidResumeExpireDays(raw.expireDays)) {
+    return err(storageDataCorruptedError('Invalid resume playback expire days', 'resumePlayback.expireDays'));
+  }
+
+  return ok({ mode: raw.mode as ResumePlaybackSettings['mode'], expireDays: raw.expireDays });
+}
+
+/**
+ * 動画の再生位置を保存するキー
+ */
+export function getResumePositionKey(videoId: string): string {
+  return `${RESUME_POSITION_KEY_PREFIX}${videoId}`;
+}
+
+/**
+ * 保存された1つの動画の再生位置を検証する（保存されていない・形式が正しくない場合は null）
+ */
+export function parseResumePosition(raw: unknown): ResumePosition | null {
+  if (
+    isRecord(raw) &&
+    isNonNegativeNumber(raw.position) &&
+    isNonNegativeNumber(raw.duration) &&
+    isNonNegativeNumber(raw.savedAt)
+  ) {
+    return { position: raw.position, duration: raw.duration, savedAt: raw.savedAt };
+  }
+  return null;
+}
+
+/**
+ * chrome.storage.local の内容から、保存されたすべての再生位置を動画IDごとに取り出す
+ * 形式の正しくない再生位置は null とする（削除の対象にする）
+ */
+export function collectResumePositions(items: Record<string, unknown>): Record<string, ResumePosition | null> {
+  const positions: Record<string, ResumePosition | null> = {};
+  for (const [key, value] of Object.entries(items)) {
+    if (key.startsWith(RESUME_POSITION_KEY_PREFIX)) {
+      positions[key.slice(RESUME_POSITION_KEY_PREFIX.length)] = parseResumePosition(value);
+    }
+  }
+  return positions;
+}
+
+/**
+ * 再生位置が期限切れかどうか
+ */
+export function isResumePositionExpired(position: ResumePosition, now: number, expireDays: number): boolean {
+  return now - position.savedAt > expireDays * DAY_MS;
+}
+
+/**
+ * 削除する再生位置の動画IDを返す
+ * 形式の正しくないもの・期限切れのものと、MAX_RESUME_POSITIONS を超えた分の古いものを削除する
+ */
+export function findPrunableResumePositions(
+  positions: Record<string, ResumePosition | null>,
+  now: number,
+  expireDays: number,
+): string[] {
+  const prunable: string[] = [];
+  const kept: ResumePositions = {};
+  for (const [videoId, position] of Object.entries(positions)) {
+    if (!position || isResumePositionExpired(position, now, expireDays)) {
+      prunable.push(videoId);
+    } else {
+      kept[videoId] = position;
+    }
+  }
+
+  const overflow = Object.entries(kept)
+    .toSorted(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(MAX_RESUME_POSITIONS)
+    .map(([videoId]) => videoId);
+  return [...prunable, ...overflow];
+}
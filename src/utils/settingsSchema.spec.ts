@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, SETTINGS_SCHEMA_VERSION } from '../types/settings';
+import { migratePresets, migrateSettings, parseSchemaVersion, parseSettings } from './settingsSchema';
+
+describe('parseSettings', () => {
+  it('fills missing fields with defaults and drops unknown fields', () => {
+    const result = parseSettings({ hidePremiumSection: false, unknownField: 1 });
+
+    expect(result._unsafeUnwrap()).toEqual({ ...DEFAULT_SETTINGS, hidePremiumSection: false });
+  });
+
+  it('rejects fields with a mismatched type', () => {
+    const result = parseSettings({ hideOnAirAnime: 'yes' });
+
+    expect(result._unsafeUnwrapErr()).toMatchObject({ type: 'storage_data_corrupted', field: 'hideOnAirAnime' });
+  });
+
+  it('rejects page overrides for unknown page types', () => {
+    const result = parseSettings({ pageOverrides: { unknownPage: { hideOnAirAnime: false } } });
+
+    expect(result.isErr()).toBe(true);
+  });
+});
+
+describe('parseSchemaVersion', () => {
+  it('treats a missing version as the version before the schema was introduced', () => {
+    expect(parseSchemaVersion(undefined)._unsafeUnwrap()).toBe(0);
+  });
+
+  it('rejects a version that is not a non-negative integer', () => {
+    expect(parseSchemaVersion(1.5).isErr()).toBe(true);
+    expect(parseSchemaVersion(-1).isErr()).toBe(true);
+  });
+});
+
+describe('migrateSettings', () => {
+  it('migrates settings saved before the schema version was introduced', () => {
+    const result = migrateSettings({ hidePremiumSection: false }, 0);
+
+    expect(result._unsafeUnwrap()).toEqual({ ...DEFAULT_SETTINGS, hidePremiumSection: false });
+  });
+
+  it('adds empty page overrides when migrating v1 settings to v2', () => {
+    const v1Settings = { hidePremiumSection: true, hideOnAirAnime: false };
+
+    const result = migrateSettings(v1Settings, 1);
+
+    expect(result._unsafeUnwrap()).toEqual({ ...DEFAULT_SETTINGS, ...v1Settings, pageOverrides: {} });
+  });
+
+  it('keeps current settings unchanged', () => {
+    const settings = { ...DEFAULT_SETTINGS, pageOverrides: { watch: { hideOnAirAnime: false } } };
+
+    const result = migrateSettings(settings, SETTINGS_SCHEMA_VERSION);
+
+    expect(result._unsafeUnwrap()).toEqual(settings);
+  });
+
+  it('rejects stored settings that are not an object', () => {
+    expect(migrateSettings([], 1).isErr()).toBe(true);
+  });
+});
+
+describe('migratePresets', () => {
+  it('migrates the settings of each v1 preset', () => {
+    const result = migratePresets([{ name: 'シンプル', settings: { hideOnAirAnime: true } }], 1);
+
+    expect(result._unsafeUnwrap()).toEqual([
+      { name: 'シンプル', settings: { ...DEFAULT_SETTINGS, hideOnAirAnime: true, pageOverrides: {} } },
+    ]);
+  });
+
+  it('rejects presets without a name', () => {
+    expect(migratePresets([{ settings: {} }], 1).isErr()).toBe(true);
+  });
+});
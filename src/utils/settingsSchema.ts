@@ -0,0 +1,215 @@
+// Settings schema validation and migrations
+// 保存された設定を実行時に検証し、古いバージョンの設定を現在のスキーマに移行する
+
+import { Result, ok, err } from 'neverthrow';
+import type { BetterNiconicoSettings, SettingsPreset } from '../types/settings';
+import { DEFAULT_SETTINGS, SETTINGS_SCHEMA_VERSION } from '../types/settings';
+import type { PageOverrides } from '../types/pages';
+import { FEATURE_DEFINITIONS } from '../types/features';
+import { PAGE_TYPES } from '../types/pages';
+import type { StorageError } from '../types/errors';
+import { storageDataCorruptedError } from '../types/errors';
+import { isRecord } from './typeGuards';
+
+/**
+ * 検証前の設定オブジェクト
+ */
+export type RawSettings = Record<string, unknown>;
+
+/**
+ * 設定の各フィールドの検証関数
+ */
+type FieldValidator<T> = (value: unknown) => value is T;
+
+type SettingsValidators = {
+  [K in keyof BetterNiconicoSettings]: FieldValidator<BetterNiconicoSettings[K]>;
+};
+
+/**
+ * 1つ前のバージョンの設定を次のバージョンに変換する関数
+ */
+type SettingsMigration = (settings: RawSettings) => RawSettings;
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+/**
+ * ページ種別ごとの上書きを検証する
+ * 既知のページ種別・機能キーのみを許可し、値はすべて boolean であること
+ */
+function isPageOverrides(value: unknown): value is PageOverrides {
+  if (!isRecord(value)) {
+    return false;
+  }
+
+  const featureKeys = new Set<string>(FEATURE_DEFINITIONS.map((feature) => feature.key));
+  const pageTypes = new Set<string>(PAGE_TYPES);
+
+  return Object.entries(value).every(
+    ([pageType, overrides]) =>
+      pageTypes.has(pageType) &&
+      isRecord(overrides) &&
+      Object.entries(overrides).every(([key, enabled]) => featureKeys.has(key) && isBoolean(enabled)),
+  );
+}
+
+/**
+ * すべての設定フィールドの検証関数
+ * Mapped typeにより、設定にフィールドを追加した際の検証漏れを型エラーとして検出する
+ */
+const SETTINGS_VALIDATORS: SettingsValidators = {
+  ...(Object.fromEntries(FEATURE_DEFINITIONS.map((feature) => [feature.key, isBoolean])) as Omit<
+    SettingsValidators,
+    'pageOverrides'
+  >),
+  pageOverrides: isPageOverrides,
+};
+
+/**
+ * バージョンごとのマイグレーション
+ * キーは移行先のバージョン（キー - 1 → キー への変換）
+ */
+const SETTINGS_MIGRATIONS: Record<number, SettingsMigration> = {
+  // v0 → v1: スキーマバージョン導入前の設定
+  // キー構成は変わっていないため、そのまま引き継ぐ（不足しているキーは検証時にデフォルト値で補完される）
+  1: (settings) => settings,
+  // v1 → v2: ページ種別ごとの上書き（pageOverrides）の追加
+  // v1 の設定には上書きがないため、すべてのページで全体の設定に従う空の上書きを設定する
+  2: (settings) => ({ ...settings, pageOverrides: settings.pageOverrides ?? {} }),
+};
+
+/**
+ * 保存された設定を検証し、不足しているフィールドをデフォルト値で補完する
+ * - 未知のフィールドは取り除く
+ * - 型が一致しないフィールドがあれば storage_data_corrupted エラーを返す
+ */
+export function parseSettings(raw: unknown): Result<BetterNiconicoSettings, StorageError> {
+  if (raw === undefined) {
+    return ok({ ...DEFAULT_SETTINGS });
+  }
+
+  if (!isRecord(raw)) {
+    return err(storageDataCorruptedError('Stored settings is not an object'));
+  }
+
+  const settings: BetterNiconicoSettings = { ...DEFAULT_SETTINGS };
+
+  for (const [key, validate] of Object.entries(SETTINGS_VALIDATORS) as [
+    keyof BetterNiconicoSettings,
+    FieldValidator<unknown>,
+  ][]) {
+    const value = raw[key];
+    if (value === undefined) {
+      continue;
+    }
+
+    if (!validate(value)) {
+      return err(storageDataCorruptedError(`Invalid value for setting "${key}"`, key));
+    }
+
+    Object.assign(settings, { [key]: value });
+  }
+
+  return ok(settings);
+}
+
+/**
+ * 保存されたプリセット一覧を検証する
+ * 各プリセットの設定は parseSettings() と同じ規則で検証・補完する
+ */
+export function parsePresets(raw: unknown): Result<SettingsPreset[], StorageError> {
+  if (raw === undefined) {
+    return ok([]);
+  }
+
+  if (!Array.isArray(raw)) {
+    return err(storageDataCorruptedError('Stored presets is not an array', 'presets'));
+  }
+
+  const presets: SettingsPreset[] = [];
+  for (const item of raw as unknown[]) {
+    if (!isRecord(item) || typeof item.name !== 'string' || item.name.trim() === '') {
+      return err(storageDataCorruptedError('Invalid preset entry', 'presets'));
+    }
+
+    const settingsResult = parseSettings(item.settings);
+    if (settingsResult.isErr()) {
+      return err(settingsResult.error);
+    }
+
+    presets.push({ name: item.name, settings: settingsResult.value });
+  }
+
+  return ok(presets);
+}
+
+/**
+ * 保存されたスキーマバージョンを検証する
+ * バージョンが保存されていない場合は、バージョン管理導入前（v0）とみなす
+ */
+export function parseSchemaVersion(raw: unknown): Result<number, StorageError> {
+  if (raw === undefined) {
+    return ok(0);
+  }
+
+  if (typeof raw !== 'number' || !Number.isInteger(raw) || raw < 0) {
+    return err(storageDataCorruptedError('Invalid settings schema version', 'schemaVersion'));
+  }
+
+  return ok(raw);
+}
+
+/**
+ * 設定を指定したバージョンから現在のスキーマバージョンまで移行する
+ */
+export function migrateSettings(
+  raw: unknown,
+  fromVersion: number,
+): Result<BetterNiconicoSettings, StorageError> {
+  if (raw !== undefined && !isRecord(raw)) {
+    return err(storageDataCorruptedError('Stored settings is not an object'));
+  }
+
+  let settings: RawSettings = raw ?? {};
+  for (let version = fromVersion + 1; version <= SETTINGS_SCHEMA_VERSION; version++) {
+    const migration = SETTINGS_MIGRATIONS[version];
+    if (migration) {
+      settings = migration(settings);
+    }
+  }
+
+  return parseSettings(settings);
+}
+
+/**
+ * プリセット一覧を指定したバージョンから現在のスキーマバージョンまで移行する
+ */
+export function migratePresets(
+  raw: unknown,
+  fromVersion: number,
+): Result<SettingsPreset[], StorageError> {
+  if (raw === undefined) {
+    return ok([]);
+  }
+
+  if (!Array.isArray(raw)) {
+    return err(storageDataCorruptedError('Stored presets is not an array', 'presets'));
+  }
+
+  const migrated: unknown[] = [];
+  for (const item of raw as unknown[]) {
+    if (!isRecord(item)) {
+      return err(storageDataCorruptedError('Invalid preset entry', 'presets'));
+    }
+
+    const settingsResult = migrateSettings(item.settings, fromVersion);
+    if (settingsResult.isErr()) {
+      return err(settingsResult.error);
+    }
+
+    migrated.push({ ...item, settings: settingsResult.value });
+  }
+
+  return parsePresets(migrated);
+}
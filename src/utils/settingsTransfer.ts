@@ -0,0 +1,171 @@
+// Settings import/export utilities
+// 設定をJSONファイルとして書き出し、検証した上で読み込む
+
+import { Result, err, ResultAsync } from 'neverthrow';
+import type { BetterNiconicoSettings } from '../types/settings';
+import { SETTINGS_SCHEMA_VERSION } from '../types/settings';
+import { FEATURE_DEFINITIONS } from '../types/features';
+import { PAGE_TYPES, PAGE_TYPE_LABELS } from '../types/pages';
+import type { ImportError } from '../types/errors';
+import {
+  importReadFailedError,
+  importInvalidJsonError,
+  importInvalidFormatError,
+  importUnsupportedVersionError,
+  importInvalidSettingsError,
+} from '../types/errors';
+import { migrateSettings } from './settingsSchema';
+import { downloadFile } from './download';
+import { isRecord } from './typeGuards';
+
+// エクスポートファイルの識別子
+const EXPORT_FORMAT = 'better-niconico-settings';
+
+// 設定の読み込み（インポート）を行う設定ページのセクション
+// ポップアップはファイル選択ダイアログを開くと閉じてしまうため、インポートは設定ページで行う
+export const SETTINGS_IMPORT_PAGE_PATH = 'src/options/options.html#settingsTransfer';
+
+/**
+ * エクスポートファイルの構造
+ * 機能ごとの追加データを保存するようになった場合は、settings と並べてフィールドを追加する
+ */
+export interface SettingsExportFile {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  settings: BetterNiconicoSettings;
+}
+
+/**
+ * インポート前後で値が変わる設定項目
+ */
+export interface SettingsChange {
+  key: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * エクスポートファイルの内容を作成
+ */
+export function createSettingsExport(settings: BetterNiconicoSettings): SettingsExportFile {
+  return {
+    format: EXPORT_FORMAT,
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings,
+  };
+}
+
+/**
+ * エクスポートファイルの内容をJSON文字列に変換
+ */
+export function serializeSettingsExport(file: SettingsExportFile): string {
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * エクスポートファイルのファイル名を作成（例: better-niconico-settings-20240101.json）
+ */
+export function getExportFileName(date = new Date()): string {
+  const yyyy = date.getFullYear();
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${EXPORT_FORMAT}-${yyyy}${mm}${dd}.json`;
+}
+
+/**
+ * 設定をJSONファイルとしてダウンロードさせる
+ */
+export function downloadSettingsExport(settings: BetterNiconicoSettings): void {
+  downloadFile(serializeSettingsExport(createSettingsExport(settings)), 'application/json', getExportFileName());
+}
+
+/**
+ * JSON文字列を検証して設定を取り出す
+ * 古いスキーマバージョンで書き出されたファイルは現在のバージョンに移行する
+ */
+export function parseSettingsImport(text: string): Result<BetterNiconicoSettings, ImportError> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return err(importInvalidJsonError('File is not valid JSON', error));
+  }
+
+  if (!isRecord(data)) {
+    return err(importInvalidFormatError('File content is not an object'));
+  }
+
+  if (data.format !== EXPORT_FORMAT) {
+    return err(importInvalidFormatError('File is not a Better Niconico settings export'));
+  }
+
+  const schemaVersion = data.schemaVersion;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    return err(importInvalidFormatError('Missing or invalid schema version'));
+  }
+
+  if (schemaVersion > SETTINGS_SCHEMA_VERSION) {
+    return err(
+      importUnsupportedVersionError(
+        'File was exported by a newer version of Better Niconico',
+        schemaVersion,
+      ),
+    );
+  }
+
+  if (data.settings === undefined) {
+    return err(importInvalidFormatError('File does not contain settings'));
+  }
+
+  return migrateSettings(data.settings, schemaVersion).mapErr((error) =>
+    importInvalidSettingsError(error.message, error.type === 'storage_data_corrupted' ? error.field : undefined),
+  );
+}
+
+/**
+ * ファイルを読み込んで設定を取り出す
+ */
+export function readSettingsImportFile(file: File): ResultAsync<BetterNiconicoSettings, ImportError> {
+  return ResultAsync.fromPromise(file.text(), (error) =>
+    importReadFailedError('Failed to read file', error),
+  ).andThen(parseSettingsImport);
+}
+
+/**
+ * 2つの設定を比較し、値が変わる項目を列挙する
+ * ページ種別ごとの上書きは「ページ種別 × 機能」の単位で比較する
+ */
+export function diffSettings(
+  current: BetterNiconicoSettings,
+  next: BetterNiconicoSettings,
+): SettingsChange[] {
+  const changes: SettingsChange[] = [];
+
+  for (const feature of FEATURE_DEFINITIONS) {
+    const before = current[feature.key];
+    const after = next[feature.key];
+    if (before !== after) {
+      changes.push({ key: feature.key, label: feature.label, before, after });
+    }
+  }
+
+  for (const pageType of PAGE_TYPES) {
+    for (const feature of FEATURE_DEFINITIONS) {
+      const before = current.pageOverrides[pageType]?.[feature.key];
+      const after = next.pageOverrides[pageType]?.[feature.key];
+      if (before !== after) {
+        changes.push({
+          key: `pageOverrides.${pageType}.${feature.key}`,
+          label: `${PAGE_TYPE_LABELS[pageType]}: ${feature.label}`,
+          before,
+          after,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { findShortcutConflict, getShortcutFromEvent, parseShortcutBindings } from './shortcuts';
+
+function keyEvent(code: string, modifiers: Partial<Pick<KeyboardEvent, 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>> = {}) {
+  return { code, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...modifiers } as KeyboardEvent;
+}
+
+describe('getShortcutFromEvent', () => {
+  it('joins modifiers in Ctrl, Alt, Shift, Meta order before the key', () => {
+    const event = keyEvent('KeyH', { metaKey: true, shiftKey: true, altKey: true, ctrlKey: true });
+
+    expect(getShortcutFromEvent(event)).toBe('Ctrl+Alt+Shift+Meta+H');
+  });
+
+  it('names keys from KeyboardEvent.code regardless of the keyboard layout', () => {
+    expect(getShortcutFromEvent(keyEvent('Digit1', { altKey: true }))).toBe('Alt+1');
+    expect(getShortcutFromEvent(keyEvent('Comma', { ctrlKey: true }))).toBe('Ctrl+,');
+    expect(getShortcutFromEvent(keyEvent('F12'))).toBe('F12');
+  });
+
+  it('returns null for modifier-only and unsupported keys', () => {
+    expect(getShortcutFromEvent(keyEvent('ShiftLeft', { shiftKey: true }))).toBeNull();
+    expect(getShortcutFromEvent(keyEvent('F13'))).toBeNull();
+  });
+});
+
+describe('findShortcutConflict', () => {
+  it('reports conflicts with the player keys', () => {
+    expect(findShortcutConflict({}, 'hideOnAirAnime', 'Shift+ArrowLeft')).toContain('巻き戻し');
+  });
+
+  it('reports conflicts with reserved shortcuts', () => {
+    const reserved = new Map([['Alt+Shift+U', 'ブラウザのショートカット']]);
+
+    expect(findShortcutConflict({}, 'hideOnAirAnime', 'Alt+Shift+U', reserved)).toContain('ブラウザのショートカット');
+  });
+
+  it('reports conflicts with another feature but not with the same feature', () => {
+    const bindings = { hidePremiumSection: 'Alt+P' };
+
+    expect(findShortcutConflict(bindings, 'hideOnAirAnime', 'Alt+P')).not.toBeNull();
+    expect(findShortcutConflict(bindings, 'hidePremiumSection', 'Alt+P')).toBeNull();
+  });
+
+  it('requires a modifier other than Shift unless the key is a function key', () => {
+    expect(findShortcutConflict({}, 'hideOnAirAnime', 'Shift+H')).not.toBeNull();
+    expect(findShortcutConflict({}, 'hideOnAirAnime', 'F2')).toBeNull();
+    expect(findShortcutConflict({}, 'hideOnAirAnime', 'Ctrl+Shift+H')).toBeNull();
+  });
+});
+
+describe('parseShortcutBindings', () => {
+  it('accepts bindings for known features', () => {
+    expect(parseShortcutBindings({ hideOnAirAnime: 'Alt+A' })._unsafeUnwrap()).toEqual({ hideOnAirAnime: 'Alt+A' });
+  });
+
+  it('rejects unknown features and malformed shortcuts', () => {
+    expect(parseShortcutBindings({ unknownFeature: 'Alt+A' }).isErr()).toBe(true);
+    expect(parseShortcutBindings({ hideOnAirAnime: 'Alt++' }).isErr()).toBe(true);
+    expect(parseShortcutBindings(['Alt+A']).isErr()).toBe(true);
+  });
+});
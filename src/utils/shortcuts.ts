@@ -0,0 +1,147 @@
+// Keyboard shortcut utilities
+// キーボードイベントとショートカット文字列の変換、割り当ての検証・競合検出を行う
+
+import { Result, ok, err } from 'neverthrow';
+import type { FeatureKey } from '../types/features';
+import type { ShortcutBindings } from '../types/shortcuts';
+import type { StorageError } from '../types/errors';
+import { FEATURE_DEFINITIONS } from '../types/features';
+import { NICONICO_PLAYER_KEYS } from '../types/shortcuts';
+import { storageDataCorruptedError } from '../types/errors';
+import { isRecord } from './typeGuards';
+
+// 修飾キー以外で割り当てられるキー（KeyboardEvent.code → 表示名）
+const NAMED_KEYS: ReadonlyMap<string, string> = new Map([
+  ['Space', 'Space'],
+  ['ArrowLeft', 'ArrowLeft'],
+  ['ArrowRight', 'ArrowRight'],
+  ['ArrowUp', 'ArrowUp'],
+  ['ArrowDown', 'ArrowDown'],
+  ['Home', 'Home'],
+  ['End', 'End'],
+  ['PageUp', 'PageUp'],
+  ['PageDown', 'PageDown'],
+  ['Comma', ','],
+  ['Period', '.'],
+  ['Slash', '/'],
+  ['Semicolon', ';'],
+  ['BracketLeft', '['],
+  ['BracketRight', ']'],
+]);
+
+// ショートカット文字列の形式（修飾キーは Ctrl, Alt, Shift, Meta の順）
+const SHORTCUT_PATTERN = /^(Ctrl\+)?(Alt\+)?(Shift\+)?(Meta\+)?[^+]+$/;
+
+const FUNCTION_KEY_PATTERN = /^F([1-9]|1[0-2])$/;
+
+/**
+ * 修飾キー以外のキーの表示名を取得（割り当てられないキーは null）
+ * 配列に依存しないよう KeyboardEvent.code から求める
+ */
+function getKeyName(code: string): string | null {
+  const letter = /^Key([A-Z])$/.exec(code);
+  if (letter) {
+    return letter[1];
+  }
+
+  const digit = /^Digit(\d)$/.exec(code);
+  if (digit) {
+    return digit[1];
+  }
+
+  if (FUNCTION_KEY_PATTERN.test(code)) {
+    return code;
+  }
+
+  return NAMED_KEYS.get(code) ?? null;
+}
+
+/**
+ * キーボードイベントをショートカット文字列に変換する
+ * 修飾キーのみ・割り当てられないキーの場合は null を返す
+ */
+export function getShortcutFromEvent(event: KeyboardEvent): string | null {
+  const key = getKeyName(event.code);
+  if (!key) {
+    return null;
+  }
+
+  const modifiers: [boolean, string][] = [
+    [event.ctrlKey, 'Ctrl'],
+    [event.altKey, 'Alt'],
+    [event.shiftKey, 'Shift'],
+    [event.metaKey, 'Meta'],
+  ];
+
+  return [...modifiers.filter(([pressed]) => pressed).map(([, name]) => name), key].join('+');
+}
+
+/**
+ * 文字入力と区別できるショートカットか（Shift 以外の修飾キーを含むか、ファンクションキーか）
+ */
+function isDistinctFromTyping(shortcut: string): boolean {
+  const parts = shortcut.split('+');
+  const key = parts.pop() ?? '';
+  return parts.some((part) => part !== 'Shift') || FUNCTION_KEY_PATTERN.test(key);
+}
+
+/**
+ * ショートカットの競合を調べる
+ * @param bindings - 現在の割り当て
+ * @param feature - 割り当てる機能
+ * @param shortcut - 割り当てるショートカット
+ * @param reservedShortcuts - 他に使用中のショートカット（chrome.commands など。ショートカット → 用途）
+ * @returns 競合の説明（競合しない場合は null）
+ */
+export function findShortcutConflict(
+  bindings: ShortcutBindings,
+  feature: FeatureKey,
+  shortcut: string,
+  reservedShortcuts: ReadonlyMap<string, string> = new Map(),
+): string | null {
+  const playerAction = NICONICO_PLAYER_KEYS.get(shortcut);
+  if (playerAction) {
+    return `ニコニコ動画のプレイヤーの「${playerAction}」と競合します`;
+  }
+
+  const reserved = reservedShortcuts.get(shortcut);
+  if (reserved) {
+    return `「${reserved}」と競合します`;
+  }
+
+  for (const definition of FEATURE_DEFINITIONS) {
+    if (definition.key !== feature && bindings[definition.key] === shortcut) {
+      return `「${definition.label}」と競合します`;
+    }
+  }
+
+  // 修飾キーなしのキーはサイト側のショートカットと競合しやすく、誤操作もしやすい
+  if (!isDistinctFromTyping(shortcut)) {
+    return 'Ctrl・Alt などの修飾キーと組み合わせてください';
+  }
+
+  return null;
+}
+
+/**
+ * 保存されたショートカットの割り当てを検証する
+ * Returns Result<ShortcutBindings, StorageError>
+ */
+export function parseShortcutBindings(raw: unknown): Result<ShortcutBindings, StorageError> {
+  if (raw === undefined) {
+    return ok({});
+  }
+
+  if (!isRecord(raw)) {
+    return err(storageDataCorruptedError('Stored shortcuts is not an object', 'shortcuts'));
+  }
+
+  const featureKeys = new Set<string>(FEATURE_DEFINITIONS.map((feature) => feature.key));
+  for (const [key, shortcut] of Object.entries(raw)) {
+    if (!featureKeys.has(key) || typeof shortcut !== 'string' || !SHORTCUT_PATTERN.test(shortcut)) {
+      return err(storageDataCorruptedError(`Invalid shortcut for "${key}"`, 'shortcuts'));
+    }
+  }
+
+  return ok(raw as ShortcutBindings);
+}
@@ -1,36 +1,126 @@
 // Storage utility functions with Result types
 // Provides type-safe wrappers around Chrome Storage API
+//
+// 設定は chrome.storage.sync に保存し、ローカルにも同じ内容を複製する
+// sync が無効・スロットリング・容量超過などで使えない場合は chrome.storage.local に保存し、
+// sync が復旧した時点で新しい方の内容に揃える
 
-import { Result, ok, err, ResultAsync } from 'neverthrow';
-import type { BetterNiconicoSettings } from '../types/settings';
-import { DEFAULT_SETTINGS, STORAGE_KEY } from '../types/settings';
+import { Result, ok, err, ResultAsync, okAsync, errAsync } from 'neverthrow';
+import type { BetterNiconicoSettings, SettingsPreset } from '../types/settings';
+import {
+  STORAGE_KEY,
+  PRESETS_KEY,
+  SCHEMA_VERSION_KEY,
+  SETTINGS_SCHEMA_VERSION,
+  SETTINGS_UPDATED_AT_KEY,
+  PENDING_SYNC_KEY,
+} from '../types/settings';
+import type { ShortcutBindings } from '../types/shortcuts';
+import { SHORTCUTS_KEY } from '../types/shortcuts';
+import type { HideRule } from '../types/hideRules';
+import { HIDE_RULES_KEY, MAX_HIDE_RULES } from '../types/hideRules';
+import type { VideoFilterRule, VideoFilterSettings, VideoFilterType } from '../types/videoFilters';
+import { VIDEO_FILTERS_KEY, MAX_VIDEO_FILTER_RULES } from '../types/videoFilters';
+import type { CommentFilterSettings } from '../types/commentFilter';
+import { COMMENT_FILTERS_KEY } from '../types/commentFilter';
+import type { ResumePlaybackSettings, ResumePosition } from '../types/resumePlayback';
+import { RESUME_PLAYBACK_KEY } from '../types/resumePlayback';
+import type { UpscalingSettings } from '../types/upscaling';
+import { UPSCALING_SETTINGS_KEY } from '../types/upscaling';
+import type { WatchQueueEntry } from '../types/watchQueue';
+import { WATCH_QUEUE_KEY } from '../types/watchQueue';
+import type { ErrorLogEntry } from '../types/errorLog';
+import { ERROR_LOG_KEY, MAX_ERROR_LOG_ENTRIES } from '../types/errorLog';
 import type { StorageError } from '../types/errors';
 import {
   storageGetFailedError,
   storageSetFailedError,
   storageSyncUnavailableError,
 } from '../types/errors';
+import {
+  parseSettings,
+  parsePresets,
+  parseSchemaVersion,
+  migrateSettings,
+  migratePresets,
+} from './settingsSchema';
+import { parseErrorLog } from './errorLogSchema';
+import { parseShortcutBindings } from './shortcuts';
+import { parseHideRules } from './hideRules';
+import { parseVideoFilterSettings, createVideoFilterRuleId, findDuplicateVideoFilterRule } from './videoFilters';
+import { parseCommentFilterSettings } from './commentFilterSchema';
+import {
+  parseResumePlaybackSettings,
+  parseResumePosition,
+  collectResumePositions,
+  findPrunableResumePositions,
+  getResumePositionKey,
+} from './resumePlayback';
+import { parseUpscalingSettings } from './upscaling';
+import { parseWatchQueue } from './watchQueue';
 
 /**
- * Load settings from Chrome storage
- * Returns Result<BetterNiconicoSettings, StorageError>
+ * 設定の保存先
  */
-export function loadSettings(): ResultAsync<BetterNiconicoSettings, StorageError> {
+export type StorageBackend = 'sync' | 'local';
+
+/**
+ * 設定マイグレーションの結果
+ */
+export interface SettingsMigrationResult {
+  fromVersion: number;
+  toVersion: number;
+}
+
+// 設定として sync と local の間で整合させるキー
+const SETTINGS_ITEM_KEYS = [
+  STORAGE_KEY,
+  PRESETS_KEY,
+  SHORTCUTS_KEY,
+  HIDE_RULES_KEY,
+  VIDEO_FILTERS_KEY,
+  COMMENT_FILTERS_KEY,
+  RESUME_PLAYBACK_KEY,
+  UPSCALING_SETTINGS_KEY,
+  SCHEMA_VERSION_KEY,
+  SETTINGS_UPDATED_AT_KEY,
+];
+
+// 直近の読み書きで使用された保存先
+let activeBackend: StorageBackend = 'sync';
+
+/**
+ * Chrome storage の指定した領域を取得する
+ */
+function getStorageArea(area: StorageBackend): chrome.storage.StorageArea | undefined {
+  return area === 'sync' ? chrome?.storage?.sync : chrome?.storage?.local;
+}
+
+/**
+ * Chrome storage から値を取得する（keys が null の場合はすべての値を取得する）
+ */
+function getFromArea(
+  area: StorageBackend,
+  keys: string[] | null,
+): ResultAsync<Record<string, unknown>, StorageError> {
   return ResultAsync.fromPromise(
-    new Promise<BetterNiconicoSettings>((resolve, reject) => {
-      if (!chrome?.storage?.sync) {
-        reject(storageSyncUnavailableError('Chrome storage sync API is not available'));
+    new Promise<Record<string, unknown>>((resolve, reject) => {
+      const storageArea = getStorageArea(area);
+      if (!storageArea) {
+        reject(
+          area === 'sync'
+            ? storageSyncUnavailableError('Chrome storage sync API is not available')
+            : storageGetFailedError('Chrome storage local API is not available'),
+        );
         return;
       }
 
-      chrome.storage.sync.get([STORAGE_KEY], (result) => {
+      storageArea.get(keys, (result) => {
         if (chrome.runtime.lastError) {
           reject(storageGetFailedError(chrome.runtime.lastError.message));
           return;
         }
-
-        const settings = result[STORAGE_KEY] as BetterNiconicoSettings | undefined;
-        resolve(settings || DEFAULT_SETTINGS);
+        resolve(result);
       });
     }),
     (error) => {
@@ -43,18 +133,22 @@ export function loadSettings(): ResultAsync<BetterNiconicoSettings, StorageError
 }
 
 /**
- * Save settings to Chrome storage
- * Returns Result<void, StorageError>
+ * Chrome storage に値を保存する
  */
-export function saveSettings(settings: BetterNiconicoSettings): ResultAsync<void, StorageError> {
+function setToArea(area: StorageBackend, items: Record<string, unknown>): ResultAsync<void, StorageError> {
   return ResultAsync.fromPromise(
     new Promise<void>((resolve, reject) => {
-      if (!chrome?.storage?.sync) {
-        reject(storageSyncUnavailableError('Chrome storage sync API is not available'));
+      const storageArea = getStorageArea(area);
+      if (!storageArea) {
+        reject(
+          area === 'sync'
+            ? storageSyncUnavailableError('Chrome storage sync API is not available')
+            : storageSetFailedError('Chrome storage local API is not available'),
+        );
         return;
       }
 
-      chrome.storage.sync.set({ [STORAGE_KEY]: settings }, () => {
+      storageArea.set(items, () => {
         if (chrome.runtime.lastError) {
           reject(storageSetFailedError(chrome.runtime.lastError.message));
           return;
@@ -71,6 +165,488 @@ export function saveSettings(settings: BetterNiconicoSettings): ResultAsync<void
   );
 }
 
+/**
+ * Chrome storage から値を削除する
+ */
+function removeFromArea(area: StorageBackend, keys: string[]): ResultAsync<void, StorageError> {
+  return ResultAsync.fromPromise(
+    new Promise<void>((resolve, reject) => {
+      const storageArea = getStorageArea(area);
+      if (!storageArea) {
+        reject(
+          area === 'sync'
+            ? storageSyncUnavailableError('Chrome storage sync API is not available')
+            : storageSetFailedError('Chrome storage local API is not available'),
+        );
+        return;
+      }
+
+      storageArea.remove(keys, () => {
+        if (chrome.runtime.lastError) {
+          reject(storageSetFailedError(chrome.runtime.lastError.message ?? 'Failed to remove storage items'));
+          return;
+        }
+        resolve();
+      });
+    }),
+    (error) => {
+      if (typeof error === 'object' && error !== null && 'type' in error) {
+        return error as StorageError;
+      }
+      return storageSetFailedError(String(error));
+    },
+  );
+}
+
+/**
+ * 指定したキーの値だけを取り出す
+ */
+function pickItems(items: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (items[key] !== undefined) {
+      picked[key] = items[key];
+    }
+  }
+  return picked;
+}
+
+/**
+ * 最終更新時刻を取得（保存されていない場合は 0）
+ */
+function getUpdatedAt(items: Record<string, unknown>): number {
+  const updatedAt = items[SETTINGS_UPDATED_AT_KEY];
+  return typeof updatedAt === 'number' ? updatedAt : 0;
+}
+
+/**
+ * ローカルの値のうち、sync と内容が異なるものだけを取り出す
+ */
+function pickChangedItems(
+  localItems: Record<string, unknown>,
+  syncItems: Record<string, unknown>,
+): Record<string, unknown> {
+  const changed: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(pickItems(localItems, SETTINGS_ITEM_KEYS))) {
+    if (JSON.stringify(value) !== JSON.stringify(syncItems[key])) {
+      changed[key] = value;
+    }
+  }
+  return changed;
+}
+
+/**
+ * 設定関連の値を読み込む
+ * sync が使えない場合、またはローカルに sync より新しい未同期の変更がある場合はローカルの値を返す
+ * 読み込みでは保存を行わない（sync との整合はバックグラウンドの reconcilePendingSync() で行う）
+ */
+function readSettingsItems(): ResultAsync<Record<string, unknown>, StorageError> {
+  const localKeys = [...SETTINGS_ITEM_KEYS, PENDING_SYNC_KEY];
+
+  return getFromArea('sync', SETTINGS_ITEM_KEYS)
+    .andThen((syncItems) =>
+      getFromArea('local', localKeys)
+        .orElse(() => okAsync<Record<string, unknown>, StorageError>({}))
+        .map((localItems) => {
+          if (localItems[PENDING_SYNC_KEY] === true && getUpdatedAt(localItems) >= getUpdatedAt(syncItems)) {
+            activeBackend = 'local';
+            return localItems;
+          }
+          activeBackend = 'sync';
+          return syncItems;
+        }),
+    )
+    .orElse((syncError) => {
+      console.warn('[Better Niconico] 同期ストレージを読み込めないため、ローカルストレージを使用します:', syncError);
+      return getFromArea('local', localKeys)
+        .map((localItems) => {
+          activeBackend = 'local';
+          return localItems;
+        })
+        .mapErr(() => syncError);
+    });
+}
+
+/**
+ * ローカルにある未同期の変更を sync と整合させる（バックグラウンドから呼び出す）
+ * - sync の方が新しい場合（他の端末で更新された場合）は sync の内容をローカルに複製する
+ * - ローカルの方が新しい場合は、sync と内容が異なるキーのみを sync に書き戻す
+ * 未同期の変更が残っている（sync に書き戻せなかった）場合は true を返す
+ */
+export function reconcilePendingSync(): ResultAsync<boolean, StorageError> {
+  return getFromArea('local', [...SETTINGS_ITEM_KEYS, PENDING_SYNC_KEY]).andThen((localItems) => {
+    if (localItems[PENDING_SYNC_KEY] !== true) {
+      return okAsync(false);
+    }
+
+    return getFromArea('sync', SETTINGS_ITEM_KEYS)
+      .andThen((syncItems) => {
+        if (getUpdatedAt(syncItems) > getUpdatedAt(localItems)) {
+          return setToArea('local', { ...pickItems(syncItems, SETTINGS_ITEM_KEYS), [PENDING_SYNC_KEY]: false });
+        }
+
+        const changedItems = pickChangedItems(localItems, syncItems);
+        const pushResult =
+          Object.keys(changedItems).length > 0 ? setToArea('sync', changedItems) : okAsync<void, StorageError>(undefined);
+        return pushResult.andThen(() => {
+          console.log('[Better Niconico] ローカルに保存された設定を同期ストレージに反映しました');
+          return setToArea('local', { [PENDING_SYNC_KEY]: false });
+        });
+      })
+      .map(() => false)
+      .orElse((error) => {
+        console.warn('[Better Niconico] 未同期の設定を同期ストレージに反映できませんでした:', error);
+        return okAsync(true);
+      });
+  });
+}
+
+/**
+ * 設定関連の値を保存する
+ * sync への保存に成功した場合もローカルに複製し、sync が使えなくなった際の読み込みに備える
+ * sync への保存に失敗した場合はローカルにのみ保存し、未同期フラグを立てる
+ * （未同期フラグは、他のキーの未同期の変更が残っている可能性があるため、ここでは下ろさない）
+ */
+function writeSettingsItems(items: Record<string, unknown>): ResultAsync<void, StorageError> {
+  const stampedItems = { ...items, [SETTINGS_UPDATED_AT_KEY]: Date.now() };
+
+  return setToArea('sync', stampedItems)
+    .andThen(() => {
+      activeBackend = 'sync';
+      // ローカルへの複製に失敗しても保存自体は成功として扱う
+      return setToArea('local', stampedItems).orElse(() => okAsync(undefined));
+    })
+    .orElse((syncError) => {
+      console.warn('[Better Niconico] 同期ストレージに保存できないため、ローカルストレージに保存します:', syncError);
+      return setToArea('local', { ...stampedItems, [PENDING_SYNC_KEY]: true })
+        .map(() => {
+          activeBackend = 'local';
+        })
+        .mapErr(() => syncError);
+    });
+}
+
+/**
+ * Load settings from Chrome storage
+ * 保存された値を検証し、不足しているフィールドはデフォルト値で補完する
+ * Returns Result<BetterNiconicoSettings, StorageError>
+ */
+export function loadSettings(): ResultAsync<BetterNiconicoSettings, StorageError> {
+  return readSettingsItems().andThen((result) => parseSettings(result[STORAGE_KEY]));
+}
+
+/**
+ * Save settings to Chrome storage
+ * 現在のスキーマバージョンも合わせて保存する
+ * Returns Result<void, StorageError>
+ */
+export function saveSettings(settings: BetterNiconicoSettings): ResultAsync<void, StorageError> {
+  return writeSettingsItems({
+    [STORAGE_KEY]: settings,
+    [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION,
+  });
+}
+
+/**
+ * 保存されたプリセット一覧を読み込む
+ * Returns Result<SettingsPreset[], StorageError>
+ */
+export function loadPresets(): ResultAsync<SettingsPreset[], StorageError> {
+  return readSettingsItems().andThen((result) => parsePresets(result[PRESETS_KEY]));
+}
+
+/**
+ * プリセット一覧を保存する
+ * Returns Result<void, StorageError>
+ */
+export function savePresets(presets: SettingsPreset[]): ResultAsync<void, StorageError> {
+  return writeSettingsItems({
+    [PRESETS_KEY]: presets,
+    [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION,
+  });
+}
+
+/**
+ * 保存されたページ内ショートカットの割り当てを読み込む
+ * Returns Result<ShortcutBindings, StorageError>
+ */
+export function loadShortcuts(): ResultAsync<ShortcutBindings, StorageError> {
+  return readSettingsItems().andThen((result) => parseShortcutBindings(result[SHORTCUTS_KEY]));
+}
+
+/**
+ * ページ内ショートカットの割り当てを保存する
+ * Returns Result<void, StorageError>
+ */
+export function saveShortcuts(bindings: ShortcutBindings): ResultAsync<void, StorageError> {
+  return writeSettingsItems({ [SHORTCUTS_KEY]: bindings });
+}
+
+/**
+ * 保存されたユーザー定義の非表示ルールを読み込む
+ * Returns Result<HideRule[], StorageError>
+ */
+export function loadHideRules(): ResultAsync<HideRule[], StorageError> {
+  return readSettingsItems().andThen((result) => parseHideRules(result[HIDE_RULES_KEY]));
+}
+
+/**
+ * ユーザー定義の非表示ルールを保存する
+ * Returns Result<void, StorageError>
+ */
+export function saveHideRules(rules: HideRule[]): ResultAsync<void, StorageError> {
+  return writeSettingsItems({ [HIDE_RULES_KEY]: rules });
+}
+
+/**
+ * ユーザー定義の非表示ルールを1件追加する
+ * MAX_HIDE_RULES に達している場合は保存しない
+ * Returns Result<void, StorageError>
+ */
+export function addHideRule(rule: HideRule): ResultAsync<void, StorageError> {
+  return loadHideRules().andThen((rules) =>
+    rules.length >= MAX_HIDE_RULES
+      ? errAsync(storageSetFailedError(`Hide rule limit (${MAX_HIDE_RULES}) reached`))
+      : saveHideRules([...rules, rule]),
+  );
+}
+
+/**
+ * 保存されたNGフィルタの設定を読み込む
+ * Returns Result<VideoFilterSettings, StorageError>
+ */
+export function loadVideoFilters(): ResultAsync<VideoFilterSettings, StorageError> {
+  return readSettingsItems().andThen((result) => parseVideoFilterSettings(result[VIDEO_FILTERS_KEY]));
+}
+
+/**
+ * NGフィルタの設定を保存する
+ * Returns Result<void, StorageError>
+ */
+export function saveVideoFilters(filters: VideoFilterSettings): ResultAsync<void, StorageError> {
+  return writeSettingsItems({ [VIDEO_FILTERS_KEY]: filters });
+}
+
+/**
+ * NGフィルタのルールを1件追加する
+ * 同じ種類・同じ値のルールがある場合は追加せず、そのルールを有効にして返す
+ * MAX_VIDEO_FILTER_RULES に達している場合は保存しない
+ * Returns Result<VideoFilterRule, StorageError>
+ */
+export function addVideoFilterRule(type: VideoFilterType, value: string): ResultAsync<VideoFilterRule, StorageError> {
+  return loadVideoFilters().andThen((filters) => {
+    const duplicate = findDuplicateVideoFilterRule(filters.rules, type, value);
+    if (duplicate) {
+      const enabledRule = { ...duplicate, enabled: true };
+      const rules = filters.rules.map((rule) => (rule.id === duplicate.id ? enabledRule : rule));
+      return saveVideoFilters({ ...filters, rules }).map(() => enabledRule);
+    }
+
+    if (filters.rules.length >= MAX_VIDEO_FILTER_RULES) {
+      return errAsync(storageSetFailedError(`Video filter rule limit (${MAX_VIDEO_FILTER_RULES}) reached`));
+    }
+
+    const rule: VideoFilterRule = { id: createVideoFilterRuleId(), type, value, enabled: true };
+    return saveVideoFilters({ ...filters, rules: [...filters.rules, rule] }).map(() => rule);
+  });
+}
+
+/**
+ * コメントのNGフィルタの設定を読み込む
+ * Returns Result<CommentFilterSettings, StorageError>
+ */
+export function loadCommentFilters(): ResultAsync<CommentFilterSettings, StorageError> {
+  return readSettingsItems().andThen((result) => parseCommentFilterSettings(result[COMMENT_FILTERS_KEY]));
+}
+
+/**
+ * コメントのNGフィルタの設定を保存する
+ * Returns Result<void, StorageError>
+ */
+export function saveCommentFilters(filters: CommentFilterSettings): ResultAsync<void, StorageError> {
+  return writeSettingsItems({ [COMMENT_FILTERS_KEY]: filters });
+}
+
+/**
+ * 続きから再生する機能の設定を読み込む
+ * Returns Result<ResumePlaybackSettings, StorageError>
+ */
+export function loadResumePlaybackSettings(): ResultAsync<ResumePlaybackSettings, StorageError> {
+  return readSettingsItems().andThen((result) => parseResumePlaybackSettings(result[RESUME_PLAYBACK_KEY]));
+}
+
+/**
+ * 続きから再生する機能の設定を保存する
+ * Returns Result<void, StorageError>
+ */
+export function saveResumePlaybackSettings(settings: ResumePlaybackSettings): ResultAsync<void, StorageError> {
+  return writeSettingsItems({ [RESUME_PLAYBACK_KEY]: settings });
+}
+
+/**
+ * 動画アップスケーリングの設定を読み込む
+ * Returns Result<UpscalingSettings, StorageError>
+ */
+export function loadUpscalingSettings(): ResultAsync<UpscalingSettings, StorageError> {
+  return readSettingsItems().andThen((result) => parseUpscalingSettings(result[UPSCALING_SETTINGS_KEY]));
+}
+
+/**
+ * 動画アップスケーリングの設定を保存する
+ * Returns Result<void, StorageError>
+ */
+export function saveUpscalingSettings(settings: UpscalingSettings): ResultAsync<void, StorageError> {
+  return writeSettingsItems({ [UPSCALING_SETTINGS_KEY]: settings });
+}
+
+/**
+ * 動画の再生位置を読み込む（保存されていない・形式が正しくない場合は null）
+ * 再生位置は端末ごとの情報のため、local のみに保存する
+ * Returns Result<ResumePosition | null, StorageError>
+ */
+export function loadResumePosition(videoId: string): ResultAsync<ResumePosition | null, StorageError> {
+  const key = getResumePositionKey(videoId);
+  return getFromArea('local', [key]).map((result) => parseResumePosition(result[key]));
+}
+
+/**
+ * 動画の再生位置を保存する（null の場合は削除する）
+ * 動画ごとに別のキーに保存するため、他のタブでの他の動画の保存を上書きしない
+ * Returns Result<void, StorageError>
+ */
+export function saveResumePosition(videoId: string, position: ResumePosition | null): ResultAsync<void, StorageError> {
+  const key = getResumePositionKey(videoId);
+  return position ? setToArea('local', { [key]: position }) : removeFromArea('local', [key]);
+}
+
+/**
+ * 期限切れの再生位置と、上限を超えた古い再生位置を削除する
+ * すべての値を読み込むため、保存のたびではなく動画を開いたときに呼ぶ
+ * Returns Result<void, StorageError>
+ */
+export function pruneResumePositions(expireDays: number): ResultAsync<void, StorageError> {
+  return getFromArea('local', null).andThen((items) => {
+    const prunable = findPrunableResumePositions(collectResumePositions(items), Date.now(), expireDays);
+    return prunable.length > 0 ? removeFromArea('local', prunable.map(getResumePositionKey)) : okAsync(undefined);
+  });
+}
+
+/**
+ * 保存したすべての再生位置を削除する
+ * Returns Result<void, StorageError>
+ */
+export function clearResumePositions(): ResultAsync<void, StorageError> {
+  return getFromArea('local', null).andThen((items) =>
+    removeFromArea('local', Object.keys(collectResumePositions(items)).map(getResumePositionKey)),
+  );
+}
+
+/**
+ * 「あとで見る」キューを読み込む
+ * キューは端末ごとの情報のため、local のみに保存する
+ * Returns Result<WatchQueueEntry[], StorageError>
+ */
+export function loadWatchQueue(): ResultAsync<WatchQueueEntry[], StorageError> {
+  return getFromArea('local', [WATCH_QUEUE_KEY]).andThen((result) => parseWatchQueue(result[WATCH_QUEUE_KEY]));
+}
+
+/**
+ * 保存されたキューを読み込み直してから変更し、保存する
+ * 他のタブでの変更を上書きしないよう、変更はキャッシュではなく保存された内容に対して行う
+ * Returns Result<WatchQueueEntry[], StorageError>（変更後のキュー）
+ */
+export function updateWatchQueue(
+  update: (queue: WatchQueueEntry[]) => WatchQueueEntry[],
+): ResultAsync<WatchQueueEntry[], StorageError> {
+  return loadWatchQueue().andThen((queue) => {
+    const updated = update(queue);
+    return setToArea('local', { [WATCH_QUEUE_KEY]: updated }).map(() => updated);
+  });
+}
+
+/**
+ * 保存された設定を現在のスキーマバージョンに移行する
+ * 拡張機能の更新時にバックグラウンドから呼び出される
+ * Returns Result<SettingsMigrationResult, StorageError>
+ */
+export function runSettingsMigrations(): ResultAsync<SettingsMigrationResult, StorageError> {
+  return readSettingsItems().andThen((result) => {
+    const versionResult = parseSchemaVersion(result[SCHEMA_VERSION_KEY]);
+    if (versionResult.isErr()) {
+      return err(versionResult.error);
+    }
+
+    const fromVersion = versionResult.value;
+    const migrationResult = { fromVersion, toVersion: SETTINGS_SCHEMA_VERSION };
+
+    // 最新（または新しいバージョンからのダウングレード）の場合は何もしない
+    if (fromVersion >= SETTINGS_SCHEMA_VERSION) {
+      return okAsync(migrationResult);
+    }
+
+    // 設定が一度も保存されていない場合はバージョンだけを記録する
+    if (result[STORAGE_KEY] === undefined && result[PRESETS_KEY] === undefined) {
+      return writeSettingsItems({ [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION }).map(() => migrationResult);
+    }
+
+    const settingsResult = migrateSettings(result[STORAGE_KEY], fromVersion);
+    if (settingsResult.isErr()) {
+      return err(settingsResult.error);
+    }
+
+    // プリセットに含まれる設定も同じように移行する
+    const presetsResult = migratePresets(result[PRESETS_KEY], fromVersion);
+    if (presetsResult.isErr()) {
+      return err(presetsResult.error);
+    }
+
+    return writeSettingsItems({
+      [STORAGE_KEY]: settingsResult.value,
+      [PRESETS_KEY]: presetsResult.value,
+      [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION,
+    }).map(() => migrationResult);
+  });
+}
+
+/**
+ * エラーログを読み込む（新しいものが末尾）
+ * エラーログは端末ごとの情報のため、local のみに保存する
+ * Returns Result<ErrorLogEntry[], StorageError>
+ */
+export function loadErrorLog(): ResultAsync<ErrorLogEntry[], StorageError> {
+  return getFromArea('local', [ERROR_LOG_KEY]).andThen((result) => parseErrorLog(result[ERROR_LOG_KEY]));
+}
+
+/**
+ * エラーログに1件追加する
+ * MAX_ERROR_LOG_ENTRIES を超えた分は古いものから削除する（リングバッファ）
+ * 読み込みから保存までの間に他の書き込みが入らないよう、呼び出し側（バックグラウンド）で直列化すること
+ * Returns Result<void, StorageError>
+ */
+export function appendErrorLogEntry(entry: ErrorLogEntry): ResultAsync<void, StorageError> {
+  return loadErrorLog()
+    // 保存されたログが壊れている場合は破棄して記録し直す
+    .orElse(() => okAsync<ErrorLogEntry[], StorageError>([]))
+    .andThen((entries) =>
+      setToArea('local', { [ERROR_LOG_KEY]: [...entries, entry].slice(-MAX_ERROR_LOG_ENTRIES) }),
+    );
+}
+
+/**
+ * エラーログを消去する
+ * Returns Result<void, StorageError>
+ */
+export function clearErrorLog(): ResultAsync<void, StorageError> {
+  return setToArea('local', { [ERROR_LOG_KEY]: [] });
+}
+
+/**
+ * 直近の読み書きで使用された設定の保存先を取得
+ */
+export function getActiveStorageBackend(): StorageBackend {
+  return activeBackend;
+}
+
 /**
  * Check if Chrome storage sync is available
  * Returns Result<boolean, StorageError>
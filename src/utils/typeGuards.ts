@@ -0,0 +1,10 @@
+// Type guard utilities
+// 保存された値・読み込んだファイルなど、形の分からない値を検証する際に共通で使う型ガード
+// ページのコンテキストで動くフック（content/commentFilterHook.ts）からも読み込むため、依存を持たない
+
+/**
+ * 配列を除くオブジェクトか
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,90 @@
+// Video upscaling utilities
+// 動画アップスケーリングの設定の検証と、動画の解像度に合わせたパイプラインの選択を行う
+
+import { Result, ok, err } from 'neverthrow';
+import type { StorageError } from '../types/errors';
+import type { UpscalingPipeline, UpscalingScale, UpscalingSettings } from '../types/upscaling';
+import {
+  DEFAULT_UPSCALING_SETTINGS,
+  SMALL_SOURCE_MAX_HEIGHT,
+  UPSCALING_MAX_SOURCE_HEIGHTS,
+  UPSCALING_PIPELINES,
+  UPSCALING_SCALES,
+} from '../types/upscaling';
+import { storageDataCorruptedError } from '../types/errors';
+import { isRecord } from './typeGuards';
+
+/**
+ * 保存された動画アップスケーリングの設定を検証する
+ * 後から追加された項目（maxSourceHeight・largeSourcePipeline・adaptive）がない場合は既定値を使う
+ * Returns Result<UpscalingSettings, StorageError>
+ */
+export function parseUpscalingSettings(raw: unknown): Result<UpscalingSettings, StorageError> {
+  if (raw === undefined) {
+    return ok({ ...DEFAULT_UPSCALING_SETTINGS });
+  }
+
+  if (!isRecord(raw)) {
+    return err(storageDataCorruptedError('Stored upscaling settings is not an object', 'upscaling'));
+  }
+
+  if (!UPSCALING_PIPELINES.includes(raw.pipeline as UpscalingPipeline)) {
+    return err(storageDataCorruptedError('Invalid upscaling pipeline', 'upscaling.pipeline'));
+  }
+
+  if (!UPSCALING_SCALES.includes(raw.scale as UpscalingScale)) {
+    return err(storageDataCorruptedError('Invalid upscaling scale', 'upscaling.scale'));
+  }
+
+  const maxSourceHeight = raw.maxSourceHeight ?? DEFAULT_UPSCALING_SETTINGS.maxSourceHeight;
+  if (!UPSCALING_MAX_SOURCE_HEIGHTS.includes(maxSourceHeight as number)) {
+    return err(storageDataCorruptedError('Invalid upscaling max source height', 'upscaling.maxSourceHeight'));
+  }
+
+  const largeSourcePipeline = raw.largeSourcePipeline ?? DEFAULT_UPSCALING_SETTINGS.largeSourcePipeline;
+  if (largeSourcePipeline !== null && !UPSCALING_PIPELINES.includes(largeSourcePipeline as UpscalingPipeline)) {
+    return err(storageDataCorruptedError('Invalid upscaling large source pipeline', 'upscaling.largeSourcePipeline'));
+  }
+
+  const adaptive = raw.adaptive ?? DEFAULT_UPSCALING_SETTINGS.adaptive;
+  if (typeof adaptive !== 'boolean') {
+    return err(storageDataCorruptedError('Invalid upscaling adaptive flag', 'upscaling.adaptive'));
+  }
+
+  return ok({
+    pipeline: raw.pipeline as UpscalingPipeline,
+    scale: raw.scale as UpscalingScale,
+    maxSourceHeight: maxSourceHeight as number,
+    largeSourcePipeline: largeSourcePipeline as UpscalingPipeline | null,
+    adaptive,
+  });
+}
+
+/**
+ * 2つの設定が同じか
+ */
+export function isSameUpscalingSettings(a: UpscalingSettings, b: UpscalingSettings): boolean {
+  return (
+    a.pipeline === b.pipeline &&
+    a.scale === b.scale &&
+    a.maxSourceHeight === b.maxSourceHeight &&
+    a.largeSourcePipeline === b.largeSourcePipeline &&
+    a.adaptive === b.adaptive
+  );
+}
+
+/**
+ * 動画の高さに合わせて使用するパイプラインを選ぶ（アップスケーリングしない場合は null）
+ * - maxSourceHeight を超える動画はアップスケーリングしない
+ * - SMALL_SOURCE_MAX_HEIGHT を超える動画は largeSourcePipeline（設定されている場合）を使う
+ */
+export function selectUpscalingPipeline(settings: UpscalingSettings, sourceHeight: number): UpscalingPipeline | null {
+  if (settings.maxSourceHeight > 0 && sourceHeight > settings.maxSourceHeight) {
+    return null;
+  }
+
+  if (sourceHeight > SMALL_SOURCE_MAX_HEIGHT && settings.largeSourcePipeline !== null) {
+    return settings.largeSourcePipeline;
+  }
+  return settings.pipeline;
+}
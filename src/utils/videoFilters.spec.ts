@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { VideoCardInfo, VideoFilterRule, VideoFilterType } from '../types/videoFilters';
+import { compileVideoFilter, findDuplicateVideoFilterRule, parseVideoFilterSettings } from './videoFilters';
+
+const CARD: VideoCardInfo = {
+  videoId: 'sm9',
+  title: '【ＭＡＤ】新・豪血寺一族 -煩悩解放 - レッツゴー！陰陽師',
+  uploaderId: '4',
+  uploaderName: 'ＣＵＳＴＯＭ',
+  tags: ['陰陽師', 'ＶＯＣＡＬＯＩＤ'],
+};
+
+function createRule(type: VideoFilterType, value: string, enabled = true): VideoFilterRule {
+  return { id: `${type}-${value}`, type, value, enabled };
+}
+
+describe('compileVideoFilter', () => {
+  it('matches each rule type against the card information', () => {
+    const cases: [VideoFilterType, string][] = [
+      ['uploaderId', '4'],
+      ['uploaderName', 'custom'],
+      ['keyword', 'mad'],
+      ['regex', '陰陽師$'],
+      ['tag', 'vocaloid'],
+    ];
+
+    for (const [type, value] of cases) {
+      const rule = createRule(type, value);
+      expect(compileVideoFilter([rule])(CARD)).toEqual(rule);
+    }
+  });
+
+  it('normalizes full-width text except in regular expressions', () => {
+    expect(compileVideoFilter([createRule('keyword', 'ｍａｄ')])(CARD)).not.toBeNull();
+    expect(compileVideoFilter([createRule('regex', 'MAD')])(CARD)).toBeNull();
+  });
+
+  it('compares uploader names and tags as a whole', () => {
+    expect(compileVideoFilter([createRule('uploaderName', 'CUST')])(CARD)).toBeNull();
+    expect(compileVideoFilter([createRule('tag', '陰陽')])(CARD)).toBeNull();
+  });
+
+  it('does not match a missing uploader', () => {
+    const card = { ...CARD, uploaderId: null, uploaderName: null };
+
+    expect(compileVideoFilter([createRule('uploaderId', '4'), createRule('uploaderName', 'custom')])(card)).toBeNull();
+  });
+
+  it('skips disabled rules and invalid regular expressions', () => {
+    const matcher = compileVideoFilter([createRule('keyword', 'mad', false), createRule('regex', '(')]);
+
+    expect(matcher(CARD)).toBeNull();
+  });
+
+  it('returns the first matching rule', () => {
+    const first = createRule('tag', '陰陽師');
+
+    expect(compileVideoFilter([first, createRule('keyword', 'mad')])(CARD)).toEqual(first);
+  });
+});
+
+describe('findDuplicateVideoFilterRule', () => {
+  it('finds rules with the same type and normalized value', () => {
+    const rule = createRule('uploaderName', 'ＣＵＳＴＯＭ');
+
+    expect(findDuplicateVideoFilterRule([rule], 'uploaderName', 'custom')).toEqual(rule);
+    expect(findDuplicateVideoFilterRule([rule], 'keyword', 'custom')).toBeUndefined();
+  });
+});
+
+describe('parseVideoFilterSettings', () => {
+  it('rejects rules with duplicate IDs', () => {
+    const rule = createRule('keyword', 'mad');
+
+    expect(parseVideoFilterSettings({ action: 'hide', rules: [rule, rule] }).isErr()).toBe(true);
+  });
+});
@@ -0,0 +1,190 @@
+// Video filter utilities
+// NGフィルタのルールの検証・保存された設定の検証と、動画カードの情報との照合を行う
+
+import { Result, ok, err } from 'neverthrow';
+import type {
+  VideoCardInfo,
+  VideoFilterAction,
+  VideoFilterRule,
+  VideoFilterSettings,
+  VideoFilterType,
+} from '../types/videoFilters';
+import type { StorageError } from '../types/errors';
+import { DEFAULT_VIDEO_FILTER_SETTINGS, MAX_VIDEO_FILTER_RULES, VIDEO_FILTER_TYPES } from '../types/videoFilters';
+import { storageDataCorruptedError } from '../types/errors';
+import { isRecord } from './typeGuards';
+
+// ルールの値の最大文字数
+export const MAX_VIDEO_FILTER_VALUE_LENGTH = 200;
+
+/**
+ * 照合用に文字列を正規化（全角・半角と大文字・小文字の違いを無視する）
+ */
+function normalizeFilterText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 正規表現のルールを作成（解釈できない場合は null）
+ */
+function createFilterRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * ルールの値の問題点を取得（問題がない場合は null）
+ * 設定ページとコンテキストメニューからの追加で、保存前の確認に使う
+ */
+export function getVideoFilterRuleProblem(type: VideoFilterType, value: string): string | null {
+  if (value.trim() === '') {
+    return '値を入力してください';
+  }
+
+  if (value.length > MAX_VIDEO_FILTER_VALUE_LENGTH) {
+    return `値は${MAX_VIDEO_FILTER_VALUE_LENGTH}文字以内で入力してください`;
+  }
+
+  if (type === 'regex' && !createFilterRegExp(value)) {
+    return '正規表現が正しくありません';
+  }
+
+  return null;
+}
+
+/**
+ * 新しいルールのIDを作成
+ */
+export function createVideoFilterRuleId(): string {
+  return `filter-${crypto.randomUUID()}`;
+}
+
+/**
+ * 同じ種類・同じ値のルールを探す（重複して追加しないため）
+ */
+export function findDuplicateVideoFilterRule(
+  rules: readonly VideoFilterRule[],
+  type: VideoFilterType,
+  value: string,
+): VideoFilterRule | undefined {
+  const normalized = type === 'regex' ? value : normalizeFilterText(value);
+  return rules.find(
+    (rule) => rule.type === type && (type === 'regex' ? rule.value : normalizeFilterText(rule.value)) === normalized,
+  );
+}
+
+/**
+ * 動画カードの情報に一致するルールを探す関数を作成する
+ * 正規表現は作成時に1度だけ解釈し、解釈できないルールは無視する
+ */
+export function compileVideoFilter(
+  rules: readonly VideoFilterRule[],
+): (info: VideoCardInfo) => VideoFilterRule | null {
+  const matchers: { rule: VideoFilterRule; matches: (info: VideoCardInfo) => boolean }[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) {
+      continue;
+    }
+
+    const value = normalizeFilterText(rule.value);
+    switch (rule.type) {
+      case 'uploaderId':
+        matchers.push({ rule, matches: (info) => info.uploaderId !== null && normalizeFilterText(info.uploaderId) === value });
+        break;
+      case 'uploaderName':
+        matchers.push({
+          rule,
+          matches: (info) => info.uploaderName !== null && normalizeFilterText(info.uploaderName) === value,
+        });
+        break;
+      case 'keyword':
+        matchers.push({ rule, matches: (info) => normalizeFilterText(info.title).includes(value) });
+        break;
+      case 'regex': {
+        const regExp = createFilterRegExp(rule.value);
+        if (regExp) {
+          matchers.push({ rule, matches: (info) => regExp.test(info.title) });
+        }
+        break;
+      }
+      case 'tag':
+        matchers.push({ rule, matches: (info) => info.tags.some((tag) => normalizeFilterText(tag) === value) });
+        break;
+    }
+  }
+
+  return (info) => matchers.find((matcher) => matcher.matches(info))?.rule ?? null;
+}
+
+function isVideoFilterAction(value: unknown): value is VideoFilterAction {
+  return value === 'hide' || value === 'collapse';
+}
+
+/**
+ * 保存された1件のルールを検証する（不正な場合は null）
+ */
+function parseVideoFilterRule(raw: unknown): VideoFilterRule | null {
+  if (!isRecord(raw)) {
+    return null;
+  }
+
+  const rule = raw;
+  if (
+    typeof rule.id !== 'string' ||
+    rule.id === '' ||
+    !(VIDEO_FILTER_TYPES as readonly unknown[]).includes(rule.type) ||
+    typeof rule.value !== 'string' ||
+    rule.value === '' ||
+    rule.value.length > MAX_VIDEO_FILTER_VALUE_LENGTH ||
+    typeof rule.enabled !== 'boolean'
+  ) {
+    return null;
+  }
+
+  return {
+    id: rule.id,
+    type: rule.type as VideoFilterType,
+    value: rule.value,
+    enabled: rule.enabled,
+  };
+}
+
+/**
+ * 保存されたNGフィルタの設定を検証する
+ * Returns Result<VideoFilterSettings, StorageError>
+ */
+export function parseVideoFilterSettings(raw: unknown): Result<VideoFilterSettings, StorageError> {
+  if (raw === undefined) {
+    return ok({ ...DEFAULT_VIDEO_FILTER_SETTINGS, rules: [] });
+  }
+
+  if (!isRecord(raw)) {
+    return err(storageDataCorruptedError('Stored video filters is not an object', 'videoFilters'));
+  }
+
+  const data = raw;
+  if (!isVideoFilterAction(data.action)) {
+    return err(storageDataCorruptedError('Invalid video filter action', 'videoFilters.action'));
+  }
+
+  if (!Array.isArray(data.rules) || data.rules.length > MAX_VIDEO_FILTER_RULES) {
+    return err(storageDataCorruptedError('Stored video filter rules is not a valid array', 'videoFilters.rules'));
+  }
+
+  const rules: VideoFilterRule[] = [];
+  const ids = new Set<string>();
+  for (const item of data.rules as unknown[]) {
+    const rule = parseVideoFilterRule(item);
+    if (!rule || ids.has(rule.id)) {
+      return err(storageDataCorruptedError('Invalid video filter rule entry', 'videoFilters.rules'));
+    }
+    ids.add(rule.id);
+    rules.push(rule);
+  }
+
+  return ok({ action: data.action, rules });
+}
@@ -0,0 +1,176 @@
+// Watch history utilities
+// 視聴履歴の1件の検証・検索語との照合と、エクスポート用のファイルの作成を行う
+
+import { Result, ok, err } from 'neverthrow';
+import type { WatchHistoryEntry } from '../types/watchHistory';
+import type { HistoryError } from '../types/errors';
+import { MAX_WATCH_HISTORY_TAGS } from '../types/watchHistory';
+import { historyEntryInvalidError } from '../types/errors';
+import { isRecord } from './typeGuards';
+
+// 文字列の項目の最大文字数
+const MAX_TEXT_LENGTH = 500;
+
+// エクスポートファイルの識別子
+const EXPORT_FORMAT = 'better-niconico-watch-history';
+
+/**
+ * JSONのエクスポートファイルの構造
+ */
+export interface WatchHistoryExportFile {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: string;
+  entries: WatchHistoryEntry[];
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_TEXT_LENGTH;
+}
+
+function isNullableText(value: unknown): value is string | null {
+  return value === null || (isText(value) && value !== '');
+}
+
+function isNullableSeconds(value: unknown): value is number | null {
+  return value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+}
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * 視聴履歴の1件を検証する
+ * コンテンツスクリプトから受け取った記録を保存する前に使う
+ * Returns Result<WatchHistoryEntry, HistoryError>
+ */
+export function parseWatchHistoryEntry(raw: unknown): Result<WatchHistoryEntry, HistoryError> {
+  if (!isRecord(raw)) {
+    return err(historyEntryInvalidError('Watch history entry is not an object'));
+  }
+
+  const entry = raw;
+  if (!isText(entry.id) || entry.id === '') {
+    return err(historyEntryInvalidError('Invalid watch history id', 'id'));
+  }
+  if (!isText(entry.videoId) || entry.videoId === '') {
+    return err(historyEntryInvalidError('Invalid video id', 'videoId'));
+  }
+  if (!isText(entry.title)) {
+    return err(historyEntryInvalidError('Invalid title', 'title'));
+  }
+  if (!isNullableText(entry.uploaderId) || !isNullableText(entry.uploaderName)) {
+    return err(historyEntryInvalidError('Invalid uploader', 'uploader'));
+  }
+  if (
+    !Array.isArray(entry.tags) ||
+    entry.tags.length > MAX_WATCH_HISTORY_TAGS ||
+    !entry.tags.every((tag) => isText(tag) && tag !== '')
+  ) {
+    return err(historyEntryInvalidError('Invalid tags', 'tags'));
+  }
+  if (!isNullableSeconds(entry.duration) || !isNullableSeconds(entry.position)) {
+    return err(historyEntryInvalidError('Invalid duration or position', 'position'));
+  }
+  if (!isTimestamp(entry.watchedAt) || !isTimestamp(entry.updatedAt)) {
+    return err(historyEntryInvalidError('Invalid timestamp', 'watchedAt'));
+  }
+
+  return ok({
+    id: entry.id,
+    videoId: entry.videoId,
+    title: entry.title,
+    uploaderId: entry.uploaderId,
+    uploaderName: entry.uploaderName,
+    tags: [...(entry.tags as string[])],
+    duration: entry.duration,
+    position: entry.position,
+    watchedAt: entry.watchedAt,
+    updatedAt: entry.updatedAt,
+  });
+}
+
+/**
+ * 新しい訪問のIDを作成
+ */
+export function createWatchHistoryId(): string {
+  return `visit-${crypto.randomUUID()}`;
+}
+
+/**
+ * 照合用に文字列を正規化（全角・半角と大文字・小文字の違いを無視する）
+ */
+function normalizeSearchText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 検索語に一致するものを探す関数を作成する
+ * 空白で区切った語をすべて、タイトル・投稿者名・投稿者ID・タグ・動画IDのいずれかに含むものが一致する
+ */
+export function createWatchHistoryMatcher(text: string): (entry: WatchHistoryEntry) => boolean {
+  const terms = normalizeSearchText(text).split(/\s+/).filter((term) => term !== '');
+  if (terms.length === 0) {
+    return () => true;
+  }
+
+  return (entry) => {
+    const haystack = normalizeSearchText(
+      [entry.title, entry.uploaderName ?? '', entry.uploaderId ?? '', entry.videoId, ...entry.tags].join('\n'),
+    );
+    return terms.every((term) => haystack.includes(term));
+  };
+}
+
+/**
+ * 秒数を「分:秒」（1時間以上は「時:分:秒」）の表記にする
+ */
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * 視聴履歴をJSONのエクスポートファイルにする
+ */
+export function formatWatchHistoryJson(entries: readonly WatchHistoryEntry[]): string {
+  const file: WatchHistoryExportFile = {
+    format: EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    entries: [...entries],
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * CSVの1項目をエスケープする
+ */
+function toCsvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 視聴履歴をCSVにする（表計算ソフトで開けるよう、日時はISO 8601、タグは空白区切りにする）
+ */
+export function formatWatchHistoryCsv(entries: readonly WatchHistoryEntry[]): string {
+  const header = ['watchedAt', 'videoId', 'title', 'uploaderId', 'uploaderName', 'tags', 'duration', 'position'];
+  const rows = entries.map((entry) =>
+    [
+      new Date(entry.watchedAt).toISOString(),
+      entry.videoId,
+      entry.title,
+      entry.uploaderId,
+      entry.uploaderName,
+      entry.tags.join(' '),
+      entry.duration,
+      entry.position === null ? null : Math.floor(entry.position),
+    ]
+      .map(toCsvField)
+      .join(','),
+  );
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,201 @@
+// Watch history repository
+// 視聴履歴を拡張機能の IndexedDB に保存・検索する（Result型を使用）
+//
+// IndexedDB はオリジンごとに分かれるため、ページのオリジンで動くコンテンツスクリプトからは使わない
+// 記録はバックグラウンドが recordWatchHistory メッセージで受け取って保存し、視聴履歴ページはこのモジュールを直接使う
+
+import { ResultAsync, okAsync } from 'neverthrow';
+import type { WatchHistoryEntry, WatchHistoryQuery } from '../types/watchHistory';
+import type { HistoryError } from '../types/errors';
+import {
+  MAX_WATCH_HISTORY_ENTRIES,
+  WATCH_HISTORY_DB_NAME,
+  WATCH_HISTORY_DB_VERSION,
+  WATCH_HISTORY_STORE,
+} from '../types/watchHistory';
+import { historyDbOpenFailedError, historyRequestFailedError } from '../types/errors';
+import { createWatchHistoryMatcher } from './watchHistory';
+
+// 訪問した日時のインデックス（新しい順の一覧・期間の絞り込み・古い記録の削除に使う）
+const WATCHED_AT_INDEX = 'watchedAt';
+
+// 動画IDのインデックス
+const VIDEO_ID_INDEX = 'videoId';
+
+// 開いたデータベース（最初の利用時に開き、以降は同じ接続を使う）
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * スキーマを作成・更新する
+ */
+function upgradeDatabase(database: IDBDatabase): void {
+  if (!database.objectStoreNames.contains(WATCH_HISTORY_STORE)) {
+    const store = database.createObjectStore(WATCH_HISTORY_STORE, { keyPath: 'id' });
+    store.createIndex(WATCHED_AT_INDEX, 'watchedAt');
+    store.createIndex(VIDEO_ID_INDEX, 'videoId');
+  }
+}
+
+/**
+ * データベースを開く
+ * 開けなかった場合は、次の呼び出しで開き直す
+ */
+function openDatabase(): ResultAsync<IDBDatabase, HistoryError> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(WATCH_HISTORY_DB_NAME, WATCH_HISTORY_DB_VERSION);
+      request.addEventListener('upgradeneeded', () => upgradeDatabase(request.result));
+      request.addEventListener('success', () => resolve(request.result));
+      request.addEventListener('error', () => reject(request.error));
+    }).then((database) => {
+      // 別のページがスキーマを更新する場合は接続を閉じ、次の呼び出しで開き直す
+      database.addEventListener('versionchange', () => {
+        database.close();
+        databasePromise = null;
+      });
+      return database;
+    });
+  }
+
+  return ResultAsync.fromPromise(databasePromise, (error) => {
+    databasePromise = null;
+    return historyDbOpenFailedError('Failed to open watch history database', error);
+  });
+}
+
+/**
+ * オブジェクトストアへの操作を1つのトランザクションで行う
+ * operation は要求を登録し、トランザクションの完了後に結果を取り出す関数を返す
+ */
+function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => () => T,
+  errorMessage: string,
+): ResultAsync<T, HistoryError> {
+  return openDatabase().andThen((database) =>
+    ResultAsync.fromPromise(
+      new Promise<T>((resolve, reject) => {
+        const transaction = database.transaction(WATCH_HISTORY_STORE, mode);
+        const getResult = operation(transaction.objectStore(WATCH_HISTORY_STORE));
+        transaction.addEventListener('complete', () => resolve(getResult()));
+        transaction.addEventListener('error', () => reject(transaction.error));
+        transaction.addEventListener('abort', () => reject(transaction.error));
+      }),
+      (error) => historyRequestFailedError(errorMessage, error),
+    ),
+  );
+}
+
+/**
+ * 視聴履歴の1件を保存する（同じIDの記録は上書きする）
+ * MAX_WATCH_HISTORY_ENTRIES を超えた場合は古いものから削除する
+ * Returns Result<void, HistoryError>
+ */
+export function putWatchHistoryEntry(entry: WatchHistoryEntry): ResultAsync<void, HistoryError> {
+  return runTransaction(
+    'readwrite',
+    (store) => {
+      store.put(entry);
+
+      const countRequest = store.count();
+      countRequest.addEventListener('success', () => {
+        let excess = countRequest.result - MAX_WATCH_HISTORY_ENTRIES;
+        if (excess <= 0) {
+          return;
+        }
+
+        const cursorRequest = store.index(WATCHED_AT_INDEX).openCursor();
+        cursorRequest.addEventListener('success', () => {
+          const cursor = cursorRequest.result;
+          if (cursor && excess > 0) {
+            cursor.delete();
+            excess--;
+            cursor.continue();
+          }
+        });
+      });
+
+      return () => undefined;
+    },
+    'Failed to save watch history entry',
+  );
+}
+
+/**
+ * 視聴履歴を新しい順に検索する
+ * 期間はインデックスで絞り込み、検索語はタイトル・投稿者・タグ・動画IDと照合する
+ * Returns Result<WatchHistoryEntry[], HistoryError>
+ */
+export function queryWatchHistory(query: WatchHistoryQuery = {}): ResultAsync<WatchHistoryEntry[], HistoryError> {
+  const { from = null, to = null, limit = Infinity } = query;
+  const matches = createWatchHistoryMatcher(query.text ?? '');
+
+  // 開始日が終了日より後の期間には一致する記録がない（IDBKeyRange.bound は DataError を投げる）
+  if (from !== null && to !== null && from > to) {
+    return okAsync([]);
+  }
+
+  return runTransaction(
+    'readonly',
+    (store) => {
+      // 範囲の作成で例外が発生した場合もトランザクションのエラーとして返す
+      const range =
+        from !== null && to !== null
+          ? IDBKeyRange.bound(from, to)
+          : from !== null
+            ? IDBKeyRange.lowerBound(from)
+            : to !== null
+              ? IDBKeyRange.upperBound(to)
+              : null;
+      const entries: WatchHistoryEntry[] = [];
+      const cursorRequest = store.index(WATCHED_AT_INDEX).openCursor(range, 'prev');
+      cursorRequest.addEventListener('success', () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          return;
+        }
+
+        const entry = cursor.value as WatchHistoryEntry;
+        if (matches(entry)) {
+          entries.push(entry);
+        }
+        if (entries.length < limit) {
+          cursor.continue();
+        }
+      });
+
+      return () => entries;
+    },
+    'Failed to query watch history',
+  );
+}
+
+/**
+ * 視聴履歴の1件を削除する
+ * Returns Result<void, HistoryError>
+ */
+export function deleteWatchHistoryEntry(id: string): ResultAsync<void, HistoryError> {
+  return runTransaction(
+    'readwrite',
+    (store) => {
+      store.delete(id);
+      return () => undefined;
+    },
+    'Failed to delete watch history entry',
+  );
+}
+
+/**
+ * 視聴履歴をすべて削除する
+ * Returns Result<void, HistoryError>
+ */
+export function clearWatchHistory(): ResultAsync<void, HistoryError> {
+  return runTransaction(
+    'readwrite',
+    (store) => {
+      store.clear();
+      return () => undefined;
+    },
+    'Failed to clear watch history',
+  );
+}
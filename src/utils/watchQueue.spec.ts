@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { WatchQueueEntry } from '../types/watchQueue';
+import { MAX_WATCH_QUEUE_ENTRIES } from '../types/watchQueue';
+import { appendWatchQueueEntry, getWatchQueueDropIndex, moveWatchQueueEntry, parseWatchQueue } from './watchQueue';
+
+const VIDEO_IDS = ['sm1', 'sm2', 'sm3', 'sm4'];
+
+function createEntry(videoId: string): WatchQueueEntry {
+  return { videoId, title: `動画 ${videoId}`, uploaderName: null, addedAt: 1 };
+}
+
+function getVideoIds(queue: readonly WatchQueueEntry[]): string[] {
+  return queue.map((entry) => entry.videoId);
+}
+
+const QUEUE = VIDEO_IDS.map(createEntry);
+
+describe('moveWatchQueueEntry', () => {
+  it('moves an entry to the index in the queue without that entry', () => {
+    expect(getVideoIds(moveWatchQueueEntry(QUEUE, 'sm1', 2))).toEqual(['sm2', 'sm3', 'sm1', 'sm4']);
+    expect(getVideoIds(moveWatchQueueEntry(QUEUE, 'sm4', 0))).toEqual(['sm4', 'sm1', 'sm2', 'sm3']);
+  });
+
+  it('clamps the index to the queue', () => {
+    expect(getVideoIds(moveWatchQueueEntry(QUEUE, 'sm2', 10))).toEqual(['sm1', 'sm3', 'sm4', 'sm2']);
+    expect(getVideoIds(moveWatchQueueEntry(QUEUE, 'sm3', -1))).toEqual(['sm3', 'sm1', 'sm2', 'sm4']);
+  });
+
+  it('leaves the queue unchanged for a video that is not queued', () => {
+    const moved = moveWatchQueueEntry(QUEUE, 'sm9', 0);
+
+    expect(moved).toEqual(QUEUE);
+    expect(moved).not.toBe(QUEUE);
+  });
+});
+
+describe('getWatchQueueDropIndex', () => {
+  // ドロップした位置の変換結果で実際に移動した後の順序
+  function drop(dragged: string, target: string, before: boolean): string[] {
+    const index = getWatchQueueDropIndex(VIDEO_IDS, dragged, target, before);
+    return getVideoIds(moveWatchQueueEntry(QUEUE, dragged, index));
+  }
+
+  it('moves an entry down before or after the target', () => {
+    expect(drop('sm1', 'sm3', true)).toEqual(['sm2', 'sm1', 'sm3', 'sm4']);
+    expect(drop('sm1', 'sm3', false)).toEqual(['sm2', 'sm3', 'sm1', 'sm4']);
+    expect(drop('sm1', 'sm4', false)).toEqual(['sm2', 'sm3', 'sm4', 'sm1']);
+  });
+
+  it('moves an entry up before or after the target', () => {
+    expect(drop('sm4', 'sm2', true)).toEqual(['sm1', 'sm4', 'sm2', 'sm3']);
+    expect(drop('sm4', 'sm2', false)).toEqual(['sm1', 'sm2', 'sm4', 'sm3']);
+    expect(drop('sm4', 'sm1', true)).toEqual(['sm4', 'sm1', 'sm2', 'sm3']);
+  });
+
+  it('keeps the order when dropped next to its own position', () => {
+    expect(drop('sm2', 'sm3', true)).toEqual(VIDEO_IDS);
+    expect(drop('sm2', 'sm1', false)).toEqual(VIDEO_IDS);
+  });
+});
+
+describe('appendWatchQueueEntry', () => {
+  it('does not add a video that is already queued', () => {
+    expect(appendWatchQueueEntry(QUEUE, createEntry('sm2'))).toEqual(QUEUE);
+  });
+
+  it('does not add beyond the maximum number of entries', () => {
+    const fullQueue = Array.from({ length: MAX_WATCH_QUEUE_ENTRIES }, (_, index) => createEntry(`sm${index + 1}`));
+
+    expect(appendWatchQueueEntry(fullQueue, createEntry('so1'))).toHaveLength(MAX_WATCH_QUEUE_ENTRIES);
+  });
+});
+
+describe('parseWatchQueue', () => {
+  it('accepts a stored queue and rejects invalid entries', () => {
+    expect(parseWatchQueue(QUEUE)._unsafeUnwrap()).toEqual(QUEUE);
+    expect(parseWatchQueue([...QUEUE, { videoId: 'sm5' }]).isErr()).toBe(true);
+  });
+});
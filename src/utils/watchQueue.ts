@@ -0,0 +1,112 @@
+// Watch queue utilities
+// 保存された「あとで見る」キューの検証と、追加・並べ替えを行う
+
+import { Result, ok, err } from 'neverthrow';
+import type { StorageError } from '../types/errors';
+import type { WatchQueueEntry } from '../types/watchQueue';
+import { MAX_WATCH_QUEUE_ENTRIES } from '../types/watchQueue';
+import { storageDataCorruptedError } from '../types/errors';
+import { isRecord } from './typeGuards';
+
+// 保存するタイトル・投稿者名の最大文字数
+const MAX_TEXT_LENGTH = 500;
+
+function isWatchQueueEntry(value: unknown): value is WatchQueueEntry {
+  return (
+    isRecord(value) &&
+    typeof value.videoId === 'string' &&
+    value.videoId !== '' &&
+    typeof value.title === 'string' &&
+    value.title.length <= MAX_TEXT_LENGTH &&
+    (value.uploaderName === null || (typeof value.uploaderName === 'string' && value.uploaderName.length <= MAX_TEXT_LENGTH)) &&
+    typeof value.addedAt === 'number' &&
+    Number.isFinite(value.addedAt)
+  );
+}
+
+/**
+ * 保存されたキューを検証する
+ * Returns Result<WatchQueueEntry[], StorageError>
+ */
+export function parseWatchQueue(raw: unknown): Result<WatchQueueEntry[], StorageError> {
+  if (raw === undefined) {
+    return ok([]);
+  }
+
+  if (!Array.isArray(raw) || raw.length > MAX_WATCH_QUEUE_ENTRIES) {
+    return err(storageDataCorruptedError('Stored watch queue is not a valid array', 'watchQueue'));
+  }
+
+  if (!raw.every(isWatchQueueEntry)) {
+    return err(storageDataCorruptedError('Stored watch queue has an invalid entry', 'watchQueue'));
+  }
+
+  return ok(
+    raw.map((entry) => ({
+      videoId: entry.videoId,
+      title: entry.title,
+      uploaderName: entry.uploaderName,
+      addedAt: entry.addedAt,
+    })),
+  );
+}
+
+/**
+ * キューに追加できる形に整える（長すぎるタイトル・投稿者名は切り詰める）
+ */
+export function createWatchQueueEntry(videoId: string, title: string, uploaderName: string | null): WatchQueueEntry {
+  return {
+    videoId,
+    title: title.slice(0, MAX_TEXT_LENGTH),
+    uploaderName: uploaderName?.slice(0, MAX_TEXT_LENGTH) ?? null,
+    addedAt: Date.now(),
+  };
+}
+
+/**
+ * キューの末尾に追加する（すでにある動画・上限に達している場合は変更しない）
+ */
+export function appendWatchQueueEntry(queue: readonly WatchQueueEntry[], entry: WatchQueueEntry): WatchQueueEntry[] {
+  if (queue.some((queued) => queued.videoId === entry.videoId) || queue.length >= MAX_WATCH_QUEUE_ENTRIES) {
+    return [...queue];
+  }
+  return [...queue, entry];
+}
+
+/**
+ * 動画をキューの指定した位置に移動する（キューにない動画の場合は変更しない）
+ * @param toIndex - 移動先の位置（移動する動画を除いたキューでの位置）
+ */
+export function moveWatchQueueEntry(
+  queue: readonly WatchQueueEntry[],
+  videoId: string,
+  toIndex: number,
+): WatchQueueEntry[] {
+  const entry = queue.find((queued) => queued.videoId === videoId);
+  if (!entry) {
+    return [...queue];
+  }
+
+  const rest = queue.filter((queued) => queued.videoId !== videoId);
+  const index = Math.max(0, Math.min(toIndex, rest.length));
+  return [...rest.slice(0, index), entry, ...rest.slice(index)];
+}
+
+/**
+ * ドラッグした動画を他の動画の前後にドロップした位置を、moveWatchQueueEntry() の移動先の位置に変換する
+ * @param videoIds - 表示中のキューの動画ID（表示順）
+ * @param draggedVideoId - ドラッグした動画
+ * @param targetVideoId - ドロップした先の動画
+ * @param before - ドロップした先の動画の前に置く場合は true、後ろに置く場合は false
+ * @returns 移動する動画を除いたキューでの位置
+ */
+export function getWatchQueueDropIndex(
+  videoIds: readonly string[],
+  draggedVideoId: string,
+  targetVideoId: string,
+  before: boolean,
+): number {
+  const targetIndex = videoIds.indexOf(targetVideoId) + (before ? 0 : 1);
+  const draggedIndex = videoIds.indexOf(draggedVideoId);
+  return draggedIndex !== -1 && draggedIndex < targetIndex ? targetIndex - 1 : targetIndex;
+}
@@ -2,7 +2,7 @@ import { defineConfig } from 'vite'
 import { resolve } from 'path'
 import { crx, ManifestV3Export } from '@crxjs/vite-plugin'
 import tsconfigPaths from 'vite-tsconfig-paths'
-import { stripDevIcons } from './custom-vite-plugins'
+import { mainWorldContentScript, stripDevIcons } from './custom-vite-plugins'
 import manifest from './manifest.json'
 import devManifest from './manifest.dev.json'
 import pkg from './package.json'
@@ -26,6 +26,13 @@ export default defineConfig({
         injectCss: true,
       }
     }),
+    // Comment filter hook: must patch window.fetch before the player requests comments
+    mainWorldContentScript({
+      entry: 'src/content/commentFilterHook.ts',
+      fileName: 'assets/comment-filter-hook.js',
+      matches: ['*://*.nicovideo.jp/*'],
+      minify: !isDev,
+    }),
     stripDevIcons(isDev), // Remove dev icons from production build
   ],
   build: {
@@ -33,6 +40,12 @@ export default defineConfig({
     sourcemap: isDev,
     emptyOutDir: !isDev,
     minify: !isDev,
+    rollupOptions: {
+      // manifest から参照されない拡張機能のページ（ポップアップから開く視聴履歴ページ）
+      input: {
+        history: resolve(__dirname, 'src/history/history.html'),
+      },
+    },
   },
   publicDir: resolve(__dirname, 'public'),
 })
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests run in Node without the extension build plugins in vite.config.ts
+export default defineConfig({
+  test: {
+    include: ['src/**/*.spec.ts'],
+  },
+})